@@ -2,10 +2,27 @@
 import React, { Suspense } from 'react'
 import { Canvas, useFrame, useThree } from '@react-three/fiber'
 import { OrbitControls, Sky, Environment, Stars } from '@react-three/drei'
-import { Terrain } from './components/Terrain'
+import { SurfaceMode, Terrain } from './components/Terrain'
 import { CameraTracker } from './components/CameraTracker'
+import { AreaBounds, BoundsContext, useBounds, validateBounds } from './components/BoundsContext'
+import { BoundsPicker } from './components/BoundsPicker'
+import { ViewshedSummary } from './components/Viewshed'
+import { WatershedSummary } from './components/Hydrology'
+import { FloodSummary } from './components/Flood'
+import { HistogramChart, HypsometricChart } from './components/StatisticsCharts'
+import { ProfileChart } from './components/ProfileChart'
+import { CutFill, DesignPoint, DesignSurface, ElevationProfile, LineOfSight, profileToCsv, TerrainStatistics } from './utils/terrainAnalysis'
+import { downloadText } from './utils/download'
+import { toFeatureCollection } from './utils/geojson'
+import { ContourLevel } from './utils/contours'
+import { ContourCrs, contoursToDxf, contoursToGeoJson, contoursToSvg } from './utils/contourExport'
 import { TERRAIN_CONFIG } from './config'
-import { calculateBoundsDimensions } from './utils/terrain'
+import { TerrainData } from './utils/terrain'
+import { calculateBoundsDimensions, getUtmZone, getWorldExtents, worldToLatLon } from './utils/projection'
+import { getDemDecoder } from './utils/demDecoders'
+import { loadGeoTiffDem } from './utils/geotiff'
+import { clearTileCache, getCacheStats, getMaxCacheSizeMB, setMaxCacheSizeMB } from './utils/tileCache'
+import { estimatePrefetchTiles, prefetchArea } from './utils/prefetch'
 import * as THREE from 'three'
 import proj4 from 'proj4'
 
@@ -96,7 +113,64 @@ function App() {
     const [paletteData, setPaletteData] = React.useState<string[]>(TERRAIN_CONFIG.PALETTES[TERRAIN_CONFIG.DEFAULT_PALETTE as keyof typeof TERRAIN_CONFIG.PALETTES]);
     const [paletteName, setPaletteName] = React.useState(TERRAIN_CONFIG.DEFAULT_PALETTE);
     const [baseMapName, setBaseMapName] = React.useState<string | null>(TERRAIN_CONFIG.DEFAULT_BASE_MAP);
+    const [surfaceMode, setSurfaceMode] = React.useState<SurfaceMode>('elevation');
+    const [slopeUnit, setSlopeUnit] = React.useState<'degrees' | 'percent'>('degrees');
+    const [hillshadeConfig, setHillshadeConfig] = React.useState({
+        enabled: TERRAIN_CONFIG.HILLSHADE.ENABLED,
+        azimuth: TERRAIN_CONFIG.HILLSHADE.AZIMUTH,
+        altitude: TERRAIN_CONFIG.HILLSHADE.ALTITUDE,
+        multidirectional: TERRAIN_CONFIG.HILLSHADE.MULTIDIRECTIONAL,
+        strength: TERRAIN_CONFIG.HILLSHADE.STRENGTH,
+    });
+
+    // Analysis tool that receives terrain double-clicks instead of the camera
+    const [analysisTool, setAnalysisTool] = React.useState<'viewshed' | 'lineOfSight' | 'profile' | 'watershed' | 'flood' | 'cutFill' | 'statistics' | null>(null);
+    const [viewshedConfig, setViewshedConfig] = React.useState({
+        observer: null as { lat: number; lon: number } | null,
+        observerHeight: TERRAIN_CONFIG.VIEWSHED.OBSERVER_HEIGHT,
+        targetHeight: TERRAIN_CONFIG.VIEWSHED.TARGET_HEIGHT,
+        maxRadiusKm: TERRAIN_CONFIG.VIEWSHED.MAX_RADIUS_KM,
+    });
+    const [viewshedSummary, setViewshedSummary] = React.useState<ViewshedSummary | null>(null);
+    const [lineOfSightConfig, setLineOfSightConfig] = React.useState({
+        start: null as { lat: number; lon: number } | null,
+        end: null as { lat: number; lon: number } | null,
+        startHeight: TERRAIN_CONFIG.LINE_OF_SIGHT.START_HEIGHT,
+        endHeight: TERRAIN_CONFIG.LINE_OF_SIGHT.END_HEIGHT,
+    });
+    const [lineOfSightResult, setLineOfSightResult] = React.useState<LineOfSight | null>(null);
+    const [profileVertices, setProfileVertices] = React.useState<{ lat: number; lon: number }[]>([]);
+    const [profileHighlight, setProfileHighlight] = React.useState<number | null>(null);
+    const [profileResult, setProfileResult] = React.useState<ElevationProfile | null>(null);
+    const [pourPoint, setPourPoint] = React.useState<{ lat: number; lon: number } | null>(null);
+    const [watershedSummary, setWatershedSummary] = React.useState<WatershedSummary | null>(null);
+    const profileConfig = React.useMemo(() => ({ vertices: profileVertices, highlightIndex: profileHighlight }), [profileVertices, profileHighlight]);
+    const [cutFillVertices, setCutFillVertices] = React.useState<{ lat: number; lon: number }[]>([]);
+    const [cutFillDesign, setCutFillDesign] = React.useState({
+        mode: 'flat' as 'flat' | 'plane',
+        elevation: null as number | null, // Flat pad, null = mean ground elevation
+        planePoints: [] as DesignPoint[],
+    });
+    const [cutFillPick, setCutFillPick] = React.useState<'polygon' | 'plane'>('polygon'); // What double-clicks add
+    const [cutFillResult, setCutFillResult] = React.useState<CutFill | null>(null);
+    const cutFillConfig = React.useMemo(() => ({
+        vertices: cutFillVertices,
+        design: (cutFillDesign.mode === 'flat'
+            ? { type: 'flat', elevation: cutFillDesign.elevation }
+            : { type: 'plane', points: cutFillDesign.planePoints }) as DesignSurface,
+    }), [cutFillVertices, cutFillDesign]);
+    const [statisticsPolygon, setStatisticsPolygon] = React.useState<{ lat: number; lon: number }[]>([]);
+    const [statisticsResult, setStatisticsResult] = React.useState<TerrainStatistics | null>(null);
+    const statisticsConfig = React.useMemo(() => ({ polygon: statisticsPolygon }), [statisticsPolygon]);
     const [elevationRange, setElevationRange] = React.useState<{ min: number; max: number } | null>(null);
+    const [floodLevel, setFloodLevel] = React.useState<number | null>(null); // null = a quarter up the elevation range
+    const [floodSeed, setFloodSeed] = React.useState<{ lat: number; lon: number } | null>(null);
+    const [floodSummary, setFloodSummary] = React.useState<FloodSummary | null>(null);
+    const floodConfig = React.useMemo(() => {
+        if (analysisTool !== 'flood' || !elevationRange) return undefined;
+        const level = floodLevel ?? elevationRange.min + (elevationRange.max - elevationRange.min) * 0.25;
+        return { level, seed: floodSeed };
+    }, [analysisTool, elevationRange, floodLevel, floodSeed]);
     const [effects, setEffects] = React.useState(TERRAIN_CONFIG.EFFECTS);
     const [showSoilProfile, setShowSoilProfile] = React.useState(TERRAIN_CONFIG.SHOW_SOIL_PROFILE);
     const [showTerrainShadow, setShowTerrainShadow] = React.useState(TERRAIN_CONFIG.SHOW_TERRAIN_SHADOW);
@@ -107,11 +181,30 @@ function App() {
     const [hoverInfo, setHoverInfo] = React.useState<{ height: number; lat: number; lon: number } | null>(null);
     const [isInteracting, setIsInteracting] = React.useState(false);
 
+    // Area of interest, shared with the scene through BoundsContext
+    const [bounds, setBounds] = React.useState<AreaBounds>(TERRAIN_CONFIG.BOUNDS);
+    const [showAreaDialog, setShowAreaDialog] = React.useState(false);
+    const [areaDraft, setAreaDraft] = React.useState<AreaBounds>(TERRAIN_CONFIG.BOUNDS);
+
+    // Local DEM (GeoTIFF dropped onto the window)
+    const [localDem, setLocalDem] = React.useState<{ name: string; file: File; data: TerrainData } | null>(null);
+    const [localDemStatus, setLocalDemStatus] = React.useState<string | null>(null);
+    const [isDraggingFile, setIsDraggingFile] = React.useState(false);
+
     // Camera transition state
     const [cameraTarget, setCameraTarget] = React.useState<THREE.Vector3 | null>(null);
 
     const [showCloudDialog, setShowCloudDialog] = React.useState(false);
     const [showContourDialog, setShowContourDialog] = React.useState(false);
+    const [showHydrologyDialog, setShowHydrologyDialog] = React.useState(false);
+    const [hydrologyConfig, setHydrologyConfig] = React.useState({
+        showStreams: TERRAIN_CONFIG.HYDROLOGY.SHOW_STREAMS,
+        thresholdKm2: TERRAIN_CONFIG.HYDROLOGY.STREAM_THRESHOLD_KM2,
+    });
+    const hydrologyWithPourPoint = React.useMemo(
+        () => ({ ...hydrologyConfig, pourPoint: analysisTool === 'watershed' ? pourPoint : null }),
+        [hydrologyConfig, analysisTool, pourPoint]
+    );
     const [showFireDialog, setShowFireDialog] = React.useState(false);
     const [cloudConfig, setCloudConfig] = React.useState({
         enabled: TERRAIN_CONFIG.CLOUDS.ENABLED,
@@ -130,7 +223,15 @@ function App() {
         showLabels: TERRAIN_CONFIG.CONTOURS.SHOW_LABELS,
         minorOpacity: TERRAIN_CONFIG.CONTOURS.MINOR_LINE_OPACITY,
         majorOpacity: TERRAIN_CONFIG.CONTOURS.MAJOR_LINE_OPACITY,
+        smoothing: TERRAIN_CONFIG.CONTOURS.SMOOTHING,
+        mode: TERRAIN_CONFIG.CONTOURS.MODE,
+        showDepressions: TERRAIN_CONFIG.CONTOURS.SHOW_DEPRESSIONS,
+        showSpotHeights: TERRAIN_CONFIG.CONTOURS.SHOW_SPOT_HEIGHTS,
+        spotHeightProminence: TERRAIN_CONFIG.CONTOURS.SPOT_HEIGHT_PROMINENCE,
     });
+    const [contourLevels, setContourLevels] = React.useState<ContourLevel[]>([]);
+    const [contourExportCrs, setContourExportCrs] = React.useState<ContourCrs>('wgs84');
+    const utmZone = React.useMemo(() => getUtmZone(bounds), [bounds]);
     const [fireConfig, setFireConfig] = React.useState({
         enabled: TERRAIN_CONFIG.FIRES[0].ENABLED,
         height: TERRAIN_CONFIG.FIRES[0].HEIGHT,
@@ -140,6 +241,12 @@ function App() {
         octaves: TERRAIN_CONFIG.FIRES[0].OCTAVES,
     });
     const [showSmokeDialog, setShowSmokeDialog] = React.useState(false);
+    const [showCacheDialog, setShowCacheDialog] = React.useState(false);
+    const [cacheStats, setCacheStats] = React.useState<{ count: number; bytes: number } | null>(null);
+    const [cacheMaxMB, setCacheMaxMB] = React.useState(getMaxCacheSizeMB);
+    const [prefetchProgress, setPrefetchProgress] = React.useState<{ done: number; total: number; failed: number } | null>(null);
+    const [prefetchResult, setPrefetchResult] = React.useState<Awaited<ReturnType<typeof prefetchArea>> | null>(null);
+    const prefetchAbort = React.useRef<AbortController | null>(null);
     const [smokeConfig, setSmokeConfig] = React.useState({
         ENABLED: TERRAIN_CONFIG.FIRES[0].SMOKE.ENABLED,
         HEIGHT_MIN: TERRAIN_CONFIG.FIRES[0].SMOKE.HEIGHT_MIN,
@@ -172,12 +279,158 @@ function App() {
     }, []);
 
     const handleTerrainDoubleClick = React.useCallback((point: THREE.Vector3) => {
+        // Scene Z points South (terrain group is rotated -90° about X)
+        if (analysisTool === 'viewshed') {
+            const { lat, lon } = worldToLatLon(point.x, -point.z, bounds);
+            setViewshedConfig(prev => ({ ...prev, observer: { lat, lon } }));
+            return;
+        }
+        if (analysisTool === 'lineOfSight') {
+            const { lat, lon } = worldToLatLon(point.x, -point.z, bounds);
+            // First click (or a click after a finished line) starts a new line
+            setLineOfSightConfig(prev => !prev.start || prev.end
+                ? { ...prev, start: { lat, lon }, end: null }
+                : { ...prev, end: { lat, lon } });
+            return;
+        }
+        if (analysisTool === 'profile') {
+            const { lat, lon } = worldToLatLon(point.x, -point.z, bounds);
+            setProfileVertices(prev => [...prev, { lat, lon }]);
+            return;
+        }
+        if (analysisTool === 'watershed') {
+            setPourPoint(worldToLatLon(point.x, -point.z, bounds));
+            return;
+        }
+        if (analysisTool === 'flood') {
+            setFloodSeed(worldToLatLon(point.x, -point.z, bounds));
+            return;
+        }
+        if (analysisTool === 'statistics') {
+            const { lat, lon } = worldToLatLon(point.x, -point.z, bounds);
+            setStatisticsPolygon(prev => [...prev, { lat, lon }]);
+            return;
+        }
+        if (analysisTool === 'cutFill') {
+            const { lat, lon } = worldToLatLon(point.x, -point.z, bounds);
+            if (cutFillPick === 'plane' && cutFillDesign.mode === 'plane') {
+                // A fourth pick starts a new plane
+                setCutFillDesign(prev => ({
+                    ...prev,
+                    planePoints: prev.planePoints.length >= 3 ? [{ lat, lon, elevation: null }] : [...prev.planePoints, { lat, lon, elevation: null }],
+                }));
+            } else {
+                setCutFillVertices(prev => [...prev, { lat, lon }]);
+            }
+            return;
+        }
+
         // Trigger smooth transition
         setCameraTarget(point.clone());
         // Also disable auto-rotate if enabled to prevent conflict?
         // setAutoRotate(false); 
+    }, [analysisTool, cutFillPick, cutFillDesign.mode, bounds]);
+
+    // Local DEM loads are async: only the latest request, for the area still shown, may commit its result
+    const localDemRequest = React.useRef(0);
+    const localDemSource = React.useRef<{ name: string; file: File } | null>(null); // Also set while still resampling
+    const boundsRef = React.useRef(bounds);
+    boundsRef.current = bounds;
+
+    const loadLocalDem = React.useCallback(async (name: string, file: File, area: AreaBounds, status: string) => {
+        const request = ++localDemRequest.current;
+        const previous = localDemSource.current;
+        localDemSource.current = { name, file };
+        setLocalDemStatus(status);
+        try {
+            const data = await loadGeoTiffDem(file, area);
+            if (request !== localDemRequest.current || boundsRef.current !== area) return;
+            setLocalDem({ name, file, data });
+            setLocalDemStatus(null);
+        } catch (error) {
+            if (request !== localDemRequest.current) return;
+            console.error('Failed to load GeoTIFF:', error);
+            // A failed drop keeps the DEM shown before, a failed resample leaves none
+            localDemSource.current = previous && previous.file !== file ? previous : null;
+            setLocalDemStatus(`Failed to load ${name}: ${(error as Error).message}`);
+        }
+    }, []);
+
+    const clearLocalDem = () => {
+        localDemRequest.current++;
+        localDemSource.current = null;
+        setLocalDem(null);
+        setLocalDemStatus(null);
+    };
+
+    const handleFileDrop = React.useCallback(async (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDraggingFile(false);
+
+        const file = Array.from(e.dataTransfer.files).find(f => /\.tiff?$/i.test(f.name));
+        if (!file) {
+            setLocalDemStatus('Drop a GeoTIFF (.tif / .tiff) file');
+            return;
+        }
+
+        await loadLocalDem(file.name, file, bounds, `Reading ${file.name}...`);
+    }, [bounds, loadLocalDem]);
+
+    const applyArea = async (next: AreaBounds) => {
+        boundsRef.current = next;
+        setBounds(next);
+        setShowAreaDialog(false);
+        setCameraTarget(null);
+        setViewshedConfig(prev => ({ ...prev, observer: null }));
+        setLineOfSightConfig(prev => ({ ...prev, start: null, end: null }));
+        setProfileVertices([]);
+        setPourPoint(null);
+        setFloodLevel(null);
+        setFloodSeed(null);
+        setCutFillVertices([]);
+        setCutFillDesign(prev => ({ ...prev, planePoints: [] }));
+        setStatisticsPolygon([]);
+        if (controlsRef.current) controlsRef.current.target.set(0, 0, 0);
+        console.log(`🗺️ Area changed: lat ${next.latMin}..${next.latMax}, lon ${next.lonMin}..${next.lonMax}`);
+
+        // A local GeoTIFF was resampled onto the old area (or still is): resample it again for the new one
+        const source = localDemSource.current;
+        if (!source) return;
+        setLocalDem(null);
+        await loadLocalDem(source.name, source.file, next, `Resampling ${source.name} for the new area...`);
+    };
+
+    const refreshCacheStats = React.useCallback(() => {
+        getCacheStats().then(setCacheStats);
     }, []);
 
+    React.useEffect(() => {
+        if (showCacheDialog) refreshCacheStats();
+    }, [showCacheDialog, refreshCacheStats]);
+
+    const prefetchOptions = {
+        demZooms: TERRAIN_CONFIG.TILE_CACHE.PREFETCH_DEM_ZOOMS,
+        imageryUrl: baseMapName ? TERRAIN_CONFIG.BASE_MAPS[baseMapName as keyof typeof TERRAIN_CONFIG.BASE_MAPS] : null,
+        imageryZooms: TERRAIN_CONFIG.TILE_CACHE.PREFETCH_IMAGERY_ZOOMS,
+    };
+
+    const startPrefetch = async () => {
+        const controller = new AbortController();
+        prefetchAbort.current = controller;
+        setPrefetchProgress({ done: 0, total: 0, failed: 0 });
+        setPrefetchResult(null);
+        const result = await prefetchArea(bounds, {
+            ...prefetchOptions,
+            signal: controller.signal,
+            onProgress: (done, total, failed) => setPrefetchProgress({ done, total, failed }),
+        });
+        console.log(`💾 Prefetch finished: ${result.done}/${result.total} tiles (${result.failed} failed, ${result.requested - result.total} over the cap)`);
+        prefetchAbort.current = null;
+        setPrefetchProgress(null);
+        setPrefetchResult(result);
+        refreshCacheStats();
+    };
+
     // Calculate effect parameters
     const ambientIntensity = effects.BLOOM ? 0.7 : 0.5;
     const directionalIntensity = effects.BLOOM ? 2.0 : 1.5;
@@ -186,8 +439,18 @@ function App() {
     const fogColor = effects.TILT_SHIFT ? '#e8f4ff' : '#dceeff';
 
     return (
+        <BoundsContext.Provider value={bounds}>
         <div
             className="relative w-full h-full"
+            onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes('Files')) return;
+                e.preventDefault();
+                setIsDraggingFile(true);
+            }}
+            onDragLeave={(e) => {
+                if (e.currentTarget === e.target) setIsDraggingFile(false);
+            }}
+            onDrop={handleFileDrop}
             style={{
                 background: useBackgroundImage && TERRAIN_CONFIG.BACKGROUND_IMAGE
                     ? `url(${TERRAIN_CONFIG.BACKGROUND_IMAGE}) center/cover`
@@ -201,9 +464,31 @@ function App() {
                 </h1>
                 <div className="mt-2 text-sm text-gray-200 bg-black/30 backdrop-blur-md p-3 rounded-lg border border-white/10 inline-block pointer-events-auto">
                     <p className="font-semibold text-emerald-300">Target Area:</p>
-                    <p>Lat: {TERRAIN_CONFIG.BOUNDS.latMin.toFixed(3)} - {TERRAIN_CONFIG.BOUNDS.latMax.toFixed(3)}</p>
-                    <p>Lon: {TERRAIN_CONFIG.BOUNDS.lonMin.toFixed(3)} - {TERRAIN_CONFIG.BOUNDS.lonMax.toFixed(3)}</p>
-                    <p className="mt-1 text-xs text-gray-400">Source: {TERRAIN_CONFIG.DEM_SRC_NAME}</p>
+                    <p>Lat: {bounds.latMin.toFixed(3)} - {bounds.latMax.toFixed(3)}</p>
+                    <p>Lon: {bounds.lonMin.toFixed(3)} - {bounds.lonMax.toFixed(3)}</p>
+                    <button
+                        onClick={() => {
+                            setAreaDraft(bounds);
+                            setShowAreaDialog(true);
+                        }}
+                        className="mt-1 px-2 py-0.5 rounded border border-white/20 text-xs text-gray-300 hover:bg-white/10"
+                    >
+                        🗺️ Change Area
+                    </button>
+                    {localDem ? (
+                        <div className="mt-1 text-xs text-gray-400">
+                            <p>Source: {localDem.name} (Local GeoTIFF, {localDem.data.width}x{localDem.data.height})</p>
+                            <button
+                                onClick={clearLocalDem}
+                                className="mt-1 px-2 py-0.5 rounded border border-white/20 text-gray-300 hover:bg-white/10"
+                            >
+                                Use online DEM tiles
+                            </button>
+                        </div>
+                    ) : (
+                        <p className="mt-1 text-xs text-gray-400">Source: {TERRAIN_CONFIG.DEM_SRC_NAME} ({getDemDecoder().label})</p>
+                    )}
+                    <p className="mt-1 text-xs text-gray-500">{localDemStatus ?? 'Drop a GeoTIFF DEM to use local elevation'}</p>
 
                     <div className="mt-4 border-t border-white/10 pt-3 space-y-4">
                         <div>
@@ -263,6 +548,7 @@ function App() {
                                             setPaletteName(key);
                                             setPaletteData(colors);
                                             setBaseMapName(null); // Deselect base map
+                                            setSurfaceMode('elevation');
                                         }}
                                         className={`p-2 rounded-md border text-left flex flex-col gap-1 transition-colors ${paletteName === key && !baseMapName
                                             ? 'bg-emerald-500/20 border-emerald-500'
@@ -282,6 +568,116 @@ function App() {
                             </div>
                         </div>
 
+                        <div>
+                            <p className="font-semibold text-emerald-300 mb-2">Surface Coloring:</p>
+                            <div className="grid grid-cols-3 gap-2">
+                                {([['elevation', 'Elevation'], ['slope', 'Slope'], ['aspect', 'Aspect']] as const).map(([mode, label]) => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => {
+                                            setSurfaceMode(mode);
+                                            if (mode !== 'elevation') setBaseMapName(null); // Analysis colors replace the base map
+                                        }}
+                                        className={`px-3 py-2 rounded-md text-xs font-medium transition-colors border text-center ${surfaceMode === mode && !baseMapName
+                                            ? 'bg-emerald-500/20 border-emerald-500 text-emerald-300'
+                                            : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'
+                                            }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            {surfaceMode === 'slope' && (
+                                <div className="flex gap-2 mt-2 text-xs">
+                                    {(['degrees', 'percent'] as const).map(unit => (
+                                        <button
+                                            key={unit}
+                                            onClick={() => setSlopeUnit(unit)}
+                                            className={`px-2 py-0.5 rounded border ${slopeUnit === unit ? 'border-emerald-500 text-emerald-300' : 'border-white/20 text-gray-400 hover:bg-white/10'}`}
+                                        >
+                                            {unit === 'degrees' ? 'Degrees (°)' : 'Percent (%)'}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                            {surfaceMode !== 'elevation' && !baseMapName && (
+                                <div className="mt-2 grid grid-cols-2 gap-x-3 gap-y-1 text-xs text-gray-300">
+                                    {(surfaceMode === 'slope'
+                                        ? (slopeUnit === 'percent' ? TERRAIN_CONFIG.SURFACE_ANALYSIS.SLOPE_CLASSES_PERCENT : TERRAIN_CONFIG.SURFACE_ANALYSIS.SLOPE_CLASSES_DEGREES)
+                                        : [...TERRAIN_CONFIG.SURFACE_ANALYSIS.ASPECT_CLASSES, { color: TERRAIN_CONFIG.SURFACE_ANALYSIS.ASPECT_FLAT_COLOR, label: 'Flat' }]
+                                    ).map(item => (
+                                        <div key={item.label} className="flex items-center gap-2">
+                                            <span className="w-3 h-3 rounded-sm border border-white/20" style={{ backgroundColor: item.color }} />
+                                            <span>{item.label}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        <div>
+                            <label className="flex items-center gap-2 font-semibold text-emerald-300">
+                                <input
+                                    type="checkbox"
+                                    checked={hillshadeConfig.enabled}
+                                    onChange={(e) => setHillshadeConfig(prev => ({ ...prev, enabled: e.target.checked }))}
+                                    className="accent-emerald-400"
+                                />
+                                Hillshade
+                            </label>
+                            {hillshadeConfig.enabled && (
+                                <div className="mt-2 space-y-2 text-xs text-gray-400">
+                                    <label className="flex items-center gap-2 text-gray-300">
+                                        <input
+                                            type="checkbox"
+                                            checked={hillshadeConfig.multidirectional}
+                                            onChange={(e) => setHillshadeConfig(prev => ({ ...prev, multidirectional: e.target.checked }))}
+                                            className="accent-emerald-400"
+                                        />
+                                        Multidirectional
+                                    </label>
+                                    {!hillshadeConfig.multidirectional && (
+                                        <div>
+                                            <label>Sun Azimuth: {hillshadeConfig.azimuth}°</label>
+                                            <input
+                                                type="range"
+                                                min="0"
+                                                max="359"
+                                                step="1"
+                                                value={hillshadeConfig.azimuth}
+                                                onChange={(e) => setHillshadeConfig(prev => ({ ...prev, azimuth: Number(e.target.value) }))}
+                                                className="w-full h-1.5 bg-white/20 rounded-lg appearance-none cursor-pointer accent-emerald-400"
+                                            />
+                                        </div>
+                                    )}
+                                    <div>
+                                        <label>Sun Altitude: {hillshadeConfig.altitude}°</label>
+                                        <input
+                                            type="range"
+                                            min="5"
+                                            max="90"
+                                            step="1"
+                                            value={hillshadeConfig.altitude}
+                                            onChange={(e) => setHillshadeConfig(prev => ({ ...prev, altitude: Number(e.target.value) }))}
+                                            className="w-full h-1.5 bg-white/20 rounded-lg appearance-none cursor-pointer accent-emerald-400"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label>Strength: {Math.round(hillshadeConfig.strength * 100)}%</label>
+                                        <input
+                                            type="range"
+                                            min="0"
+                                            max="1"
+                                            step="0.05"
+                                            value={hillshadeConfig.strength}
+                                            onChange={(e) => setHillshadeConfig(prev => ({ ...prev, strength: Number(e.target.value) }))}
+                                            className="w-full h-1.5 bg-white/20 rounded-lg appearance-none cursor-pointer accent-emerald-400"
+                                        />
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+
                         <div>
                             <p className="font-semibold text-emerald-300 mb-2">Base Map:</p>
                             <div className="grid grid-cols-2 gap-2">
@@ -391,6 +787,12 @@ function App() {
                                 >
                                     📊 Contour Configuration
                                 </button>
+                                <button
+                                    onClick={() => setShowHydrologyDialog(true)}
+                                    className="mt-2 w-full px-3 py-2 rounded-md text-xs font-medium transition-colors border bg-blue-500/20 border-blue-500 text-blue-300 hover:bg-blue-500/30"
+                                >
+                                    💧 Hydrology
+                                </button>
                                 <button
                                     onClick={() => setShowCloudDialog(true)}
                                     className="mt-2 w-full px-3 py-2 rounded-md text-xs font-medium transition-colors border bg-cyan-500/20 border-cyan-500 text-cyan-300 hover:bg-cyan-500/30"
@@ -409,12 +811,92 @@ function App() {
                                 >
                                     🔥 Fire Configuration
                                 </button>
+                                <button
+                                    onClick={() => setAnalysisTool(prev => prev === 'viewshed' ? null : 'viewshed')}
+                                    className={`mt-2 w-full px-3 py-2 rounded-md text-xs font-medium transition-colors border ${analysisTool === 'viewshed'
+                                        ? 'bg-lime-500/40 border-lime-400 text-lime-200'
+                                        : 'bg-lime-500/20 border-lime-500 text-lime-300 hover:bg-lime-500/30'
+                                        }`}
+                                >
+                                    👁️ Viewshed Analysis
+                                </button>
+                                <button
+                                    onClick={() => setAnalysisTool(prev => prev === 'lineOfSight' ? null : 'lineOfSight')}
+                                    className={`mt-2 w-full px-3 py-2 rounded-md text-xs font-medium transition-colors border ${analysisTool === 'lineOfSight'
+                                        ? 'bg-violet-500/40 border-violet-400 text-violet-200'
+                                        : 'bg-violet-500/20 border-violet-500 text-violet-300 hover:bg-violet-500/30'
+                                        }`}
+                                >
+                                    📡 Line of Sight
+                                </button>
+                                <button
+                                    onClick={() => setAnalysisTool(prev => prev === 'profile' ? null : 'profile')}
+                                    className={`mt-2 w-full px-3 py-2 rounded-md text-xs font-medium transition-colors border ${analysisTool === 'profile'
+                                        ? 'bg-yellow-500/40 border-yellow-400 text-yellow-200'
+                                        : 'bg-yellow-500/20 border-yellow-500 text-yellow-300 hover:bg-yellow-500/30'
+                                        }`}
+                                >
+                                    📈 Elevation Profile
+                                </button>
+                                <button
+                                    onClick={() => setAnalysisTool(prev => prev === 'watershed' ? null : 'watershed')}
+                                    className={`mt-2 w-full px-3 py-2 rounded-md text-xs font-medium transition-colors border ${analysisTool === 'watershed'
+                                        ? 'bg-sky-500/40 border-sky-400 text-sky-200'
+                                        : 'bg-sky-500/20 border-sky-500 text-sky-300 hover:bg-sky-500/30'
+                                        }`}
+                                >
+                                    🏞️ Watershed
+                                </button>
+                                <button
+                                    onClick={() => setAnalysisTool(prev => prev === 'flood' ? null : 'flood')}
+                                    className={`mt-2 w-full px-3 py-2 rounded-md text-xs font-medium transition-colors border ${analysisTool === 'flood'
+                                        ? 'bg-blue-500/40 border-blue-400 text-blue-200'
+                                        : 'bg-blue-500/20 border-blue-500 text-blue-300 hover:bg-blue-500/30'
+                                        }`}
+                                >
+                                    🌊 Flood Simulation
+                                </button>
+                                <button
+                                    onClick={() => setAnalysisTool(prev => prev === 'cutFill' ? null : 'cutFill')}
+                                    className={`mt-2 w-full px-3 py-2 rounded-md text-xs font-medium transition-colors border ${analysisTool === 'cutFill'
+                                        ? 'bg-rose-500/40 border-rose-400 text-rose-200'
+                                        : 'bg-rose-500/20 border-rose-500 text-rose-300 hover:bg-rose-500/30'
+                                        }`}
+                                >
+                                    🚜 Cut / Fill Volume
+                                </button>
+                                <button
+                                    onClick={() => setAnalysisTool(prev => prev === 'statistics' ? null : 'statistics')}
+                                    className={`mt-2 w-full px-3 py-2 rounded-md text-xs font-medium transition-colors border ${analysisTool === 'statistics'
+                                        ? 'bg-emerald-500/40 border-emerald-400 text-emerald-200'
+                                        : 'bg-emerald-500/20 border-emerald-500 text-emerald-300 hover:bg-emerald-500/30'
+                                        }`}
+                                >
+                                    📊 Terrain Statistics
+                                </button>
+                                <button
+                                    onClick={() => setShowCacheDialog(true)}
+                                    className="mt-2 w-full px-3 py-2 rounded-md text-xs font-medium transition-colors border bg-sky-500/20 border-sky-500 text-sky-300 hover:bg-sky-500/30"
+                                >
+                                    💾 Offline Tile Cache
+                                </button>
                             </div>
                         </div>
                     </div>
                 </div>
             </div >
 
+            {/* GeoTIFF Drop Target */}
+            {
+                isDraggingFile && (
+                    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm pointer-events-none">
+                        <div className="border-2 border-dashed border-emerald-400 rounded-xl px-10 py-8 text-emerald-300 text-lg font-semibold bg-gray-900/80">
+                            📂 Drop GeoTIFF DEM (Float32 / Int16, single band)
+                        </div>
+                    </div>
+                )
+            }
+
             {/* Cloud Configuration Dialog */}
             {
                 showCloudDialog && (
@@ -647,13 +1129,26 @@ function App() {
                                     Enable Contour Lines
                                 </label>
 
+                                <div>
+                                    <label className="text-xs text-gray-400">Rendering</label>
+                                    <select
+                                        value={contourConfig.mode}
+                                        onChange={(e) => setContourConfig(prev => ({ ...prev, mode: e.target.value as typeof prev.mode }))}
+                                        className="w-full mt-1 px-2 py-1 bg-black/30 border border-white/20 rounded text-white text-sm"
+                                    >
+                                        <option value="geometry">Line geometry (smoothing, label gaps)</option>
+                                        <option value="shader">GPU shader (anti-aliased, instant)</option>
+                                    </select>
+                                </div>
+
                                 <div>
                                     <label className="text-xs text-gray-400">Minor Interval (m)</label>
                                     <input
                                         type="number"
-                                        step="5"
+                                        step="any"
+                                        min="0"
                                         value={contourConfig.interval}
-                                        onChange={(e) => setContourConfig(prev => ({ ...prev, interval: parseInt(e.target.value) || 20 }))}
+                                        onChange={(e) => setContourConfig(prev => ({ ...prev, interval: parseFloat(e.target.value) || 20 }))}
                                         className="w-full mt-1 px-2 py-1 bg-black/30 border border-white/20 rounded text-white text-sm"
                                     />
                                 </div>
@@ -662,9 +1157,10 @@ function App() {
                                     <label className="text-xs text-gray-400">Major Interval (m)</label>
                                     <input
                                         type="number"
-                                        step="10"
+                                        step="any"
+                                        min="0"
                                         value={contourConfig.majorInterval}
-                                        onChange={(e) => setContourConfig(prev => ({ ...prev, majorInterval: parseInt(e.target.value) || 100 }))}
+                                        onChange={(e) => setContourConfig(prev => ({ ...prev, majorInterval: parseFloat(e.target.value) || 100 }))}
                                         className="w-full mt-1 px-2 py-1 bg-black/30 border border-white/20 rounded text-white text-sm"
                                     />
                                 </div>
@@ -679,6 +1175,56 @@ function App() {
                                     Show Labels
                                 </label>
 
+                                <label className="flex items-center gap-2 text-sm text-gray-300">
+                                    <input
+                                        type="checkbox"
+                                        checked={contourConfig.showDepressions}
+                                        onChange={(e) => setContourConfig(prev => ({ ...prev, showDepressions: e.target.checked }))}
+                                        className="accent-amber-500"
+                                    />
+                                    Mark Depressions (hachures)
+                                </label>
+
+                                <label className="flex items-center gap-2 text-sm text-gray-300">
+                                    <input
+                                        type="checkbox"
+                                        checked={contourConfig.showSpotHeights}
+                                        onChange={(e) => setContourConfig(prev => ({ ...prev, showSpotHeights: e.target.checked }))}
+                                        className="accent-amber-500"
+                                    />
+                                    Show Spot Heights
+                                </label>
+
+                                {contourConfig.showSpotHeights && (
+                                    <div>
+                                        <label className="text-xs text-gray-400">Spot Height Prominence (m)</label>
+                                        <input
+                                            type="number"
+                                            step="5"
+                                            min="0"
+                                            value={contourConfig.spotHeightProminence}
+                                            onChange={(e) => {
+                                                const value = parseFloat(e.target.value);
+                                                if (Number.isFinite(value)) setContourConfig(prev => ({ ...prev, spotHeightProminence: Math.max(0, value) }));
+                                            }}
+                                            className="w-full mt-1 px-2 py-1 bg-black/30 border border-white/20 rounded text-white text-sm"
+                                        />
+                                    </div>
+                                )}
+
+                                <div>
+                                    <label className="text-xs text-gray-400">Line Smoothing</label>
+                                    <select
+                                        value={contourConfig.smoothing}
+                                        onChange={(e) => setContourConfig(prev => ({ ...prev, smoothing: e.target.value as typeof prev.smoothing }))}
+                                        className="w-full mt-1 px-2 py-1 bg-black/30 border border-white/20 rounded text-white text-sm"
+                                    >
+                                        <option value="none">None (raw marching squares)</option>
+                                        <option value="chaikin">Chaikin (rounded)</option>
+                                        <option value="douglas-peucker">Douglas-Peucker (simplified)</option>
+                                    </select>
+                                </div>
+
                                 <div>
                                     <label className="text-xs text-gray-400">Minor Line Opacity: {contourConfig.minorOpacity.toFixed(2)}</label>
                                     <input
@@ -704,6 +1250,35 @@ function App() {
                                         className="w-full mt-1 accent-amber-500"
                                     />
                                 </div>
+
+                                <div className="pt-3 border-t border-white/10">
+                                    <label className="text-xs text-gray-400">Export Displayed Contours</label>
+                                    <select
+                                        value={contourExportCrs}
+                                        onChange={(e) => setContourExportCrs(e.target.value as ContourCrs)}
+                                        className="w-full mt-1 px-2 py-1 bg-black/30 border border-white/20 rounded text-white text-sm"
+                                    >
+                                        <option value="wgs84">GeoJSON in WGS84 (lon/lat)</option>
+                                        <option value="utm">GeoJSON in UTM zone {utmZone.zone}{utmZone.south ? 'S' : 'N'} (EPSG:{utmZone.epsg})</option>
+                                    </select>
+                                    <div className="grid grid-cols-3 gap-2 mt-2">
+                                        {([
+                                            ['GeoJSON', () => downloadText('contours.geojson', contoursToGeoJson(contourLevels, bounds, contourExportCrs), 'application/geo+json')],
+                                            ['SVG', () => downloadText('contours.svg', contoursToSvg(contourLevels, bounds), 'image/svg+xml')],
+                                            ['DXF', () => downloadText('contours.dxf', contoursToDxf(contourLevels, bounds), 'application/dxf')],
+                                        ] as const).map(([label, onExport]) => (
+                                            <button
+                                                key={label}
+                                                onClick={onExport}
+                                                disabled={contourLevels.length === 0}
+                                                className="px-3 py-1.5 rounded-md text-xs font-medium border border-amber-500 text-amber-300 hover:bg-amber-500/20 disabled:opacity-40 disabled:cursor-not-allowed"
+                                            >
+                                                {label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <p className="text-[10px] text-gray-500 mt-1">SVG is laid out North up; DXF uses UTM meters with Z = elevation.</p>
+                                </div>
                             </div>
 
                             <div className="flex justify-end gap-3 mt-4">
@@ -719,6 +1294,258 @@ function App() {
                 )
             }
 
+            {/* Hydrology Dialog */}
+            {
+                showHydrologyDialog && (
+                    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+                        <div className="bg-gray-900/95 border border-white/20 rounded-xl p-6 max-w-md w-full max-h-[80vh] overflow-y-auto shadow-2xl">
+                            <div className="flex justify-between items-center mb-4">
+                                <h2 className="text-xl font-bold text-blue-400">💧 Hydrology</h2>
+                                <button
+                                    onClick={() => setShowHydrologyDialog(false)}
+                                    className="text-gray-400 hover:text-white text-2xl leading-none"
+                                >
+                                    ×
+                                </button>
+                            </div>
+
+                            <div className="space-y-4">
+                                <label className="flex items-center gap-2 text-sm text-gray-300">
+                                    <input
+                                        type="checkbox"
+                                        checked={hydrologyConfig.showStreams}
+                                        onChange={(e) => setHydrologyConfig(prev => ({ ...prev, showStreams: e.target.checked }))}
+                                        className="accent-blue-500"
+                                    />
+                                    Show Stream Network
+                                </label>
+
+                                <div>
+                                    <label className="text-xs text-gray-400">Stream Threshold (contributing area, km²)</label>
+                                    <input
+                                        type="number"
+                                        min="0.01"
+                                        step="0.1"
+                                        value={hydrologyConfig.thresholdKm2}
+                                        onChange={(e) => setHydrologyConfig(prev => ({ ...prev, thresholdKm2: Math.max(0.01, parseFloat(e.target.value) || TERRAIN_CONFIG.HYDROLOGY.STREAM_THRESHOLD_KM2) }))}
+                                        className="w-full mt-1 px-2 py-1 bg-black/30 border border-white/20 rounded text-white text-sm"
+                                    />
+                                    <p className="text-[10px] text-gray-500 mt-1">Smaller values add more tributaries. Line width follows the Strahler order.</p>
+                                </div>
+                            </div>
+
+                            <div className="flex justify-end gap-3 mt-4">
+                                <button
+                                    onClick={() => setShowHydrologyDialog(false)}
+                                    className="px-4 py-2 rounded-md text-sm font-medium bg-gray-700 text-gray-300 hover:bg-gray-600"
+                                >
+                                    Close
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                )
+            }
+
+            {/* Area of Interest Dialog */}
+            {
+                showAreaDialog && (() => {
+                    const areaError = validateBounds(areaDraft);
+                    const pickerMap = TERRAIN_CONFIG.BASE_MAPS[TERRAIN_CONFIG.AREA_PICKER_MAP as keyof typeof TERRAIN_CONFIG.BASE_MAPS];
+                    return (
+                        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+                            <div className="bg-gray-900/95 border border-white/20 rounded-xl p-6 max-w-xl w-full max-h-[90vh] overflow-y-auto shadow-2xl">
+                                <div className="flex justify-between items-center mb-4">
+                                    <h2 className="text-xl font-bold text-emerald-400">🗺️ Area of Interest</h2>
+                                    <button
+                                        onClick={() => setShowAreaDialog(false)}
+                                        className="text-gray-400 hover:text-white text-2xl leading-none"
+                                    >
+                                        ×
+                                    </button>
+                                </div>
+
+                                <div className="space-y-4">
+                                    <div>
+                                        <p className="text-xs text-gray-400 mb-2">Presets</p>
+                                        <div className="grid grid-cols-2 gap-2">
+                                            {TERRAIN_CONFIG.AREA_PRESETS.map(preset => (
+                                                <button
+                                                    key={preset.name}
+                                                    onClick={() => setAreaDraft(preset.bounds)}
+                                                    className="px-3 py-2 rounded-md text-xs font-medium border bg-white/5 border-white/10 text-gray-300 hover:bg-white/10 text-left"
+                                                >
+                                                    {preset.name}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+
+                                    <BoundsPicker bounds={areaDraft} onChange={setAreaDraft} tileUrl={pickerMap} />
+
+                                    <div className="grid grid-cols-2 gap-2">
+                                        {([
+                                            ['latMax', 'Lat Max (North)'],
+                                            ['lonMin', 'Lon Min (West)'],
+                                            ['latMin', 'Lat Min (South)'],
+                                            ['lonMax', 'Lon Max (East)'],
+                                        ] as const).map(([key, label]) => (
+                                            <div key={key}>
+                                                <label className="text-xs text-gray-400">{label}</label>
+                                                <input
+                                                    type="number"
+                                                    step="0.0001"
+                                                    value={Number.isFinite(areaDraft[key]) ? areaDraft[key] : ''}
+                                                    onChange={(e) => setAreaDraft(prev => ({ ...prev, [key]: e.target.value === '' ? NaN : parseFloat(e.target.value) }))}
+                                                    className="w-full mt-1 px-2 py-1 bg-black/30 border border-white/20 rounded text-white text-sm"
+                                                />
+                                            </div>
+                                        ))}
+                                    </div>
+
+                                    {areaError
+                                        ? <p className="text-xs text-red-300">{areaError}</p>
+                                        : <p className="text-xs text-gray-400">DEM, base map and overlays are reloaded for the new area.</p>}
+                                </div>
+
+                                <div className="flex justify-end gap-3 mt-4">
+                                    <button
+                                        onClick={() => setShowAreaDialog(false)}
+                                        className="px-4 py-2 rounded-md text-sm font-medium bg-gray-700 text-gray-300 hover:bg-gray-600"
+                                    >
+                                        Cancel
+                                    </button>
+                                    <button
+                                        onClick={() => applyArea(areaDraft)}
+                                        disabled={!!areaError}
+                                        className="px-4 py-2 rounded-md text-sm font-medium bg-emerald-600 text-white hover:bg-emerald-500 disabled:opacity-40"
+                                    >
+                                        Apply
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    );
+                })()
+            }
+
+            {/* Offline Tile Cache Dialog */}
+            {
+                showCacheDialog && (
+                    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+                        <div className="bg-gray-900/95 border border-white/20 rounded-xl p-6 max-w-md w-full max-h-[80vh] overflow-y-auto shadow-2xl">
+                            <div className="flex justify-between items-center mb-4">
+                                <h2 className="text-xl font-bold text-sky-400">💾 Offline Tile Cache</h2>
+                                <button
+                                    onClick={() => setShowCacheDialog(false)}
+                                    className="text-gray-400 hover:text-white text-2xl leading-none"
+                                >
+                                    ×
+                                </button>
+                            </div>
+
+                            <div className="space-y-4">
+                                <div className="p-3 bg-white/5 rounded-lg border border-white/10 text-sm text-gray-300">
+                                    {cacheStats
+                                        ? <>Stored: {cacheStats.count} tiles, {(cacheStats.bytes / 1024 / 1024).toFixed(1)} MB of {cacheMaxMB} MB</>
+                                        : 'Reading cache...'}
+                                </div>
+
+                                <div>
+                                    <label className="text-xs text-gray-400">Maximum Cache Size (MB, least recently used tiles are evicted)</label>
+                                    <input
+                                        type="number"
+                                        step="50"
+                                        min="50"
+                                        value={cacheMaxMB}
+                                        onChange={(e) => setCacheMaxMB(parseInt(e.target.value) || TERRAIN_CONFIG.TILE_CACHE.MAX_SIZE_MB)}
+                                        onBlur={() => setMaxCacheSizeMB(cacheMaxMB).then(refreshCacheStats)}
+                                        className="w-full mt-1 px-2 py-1 bg-black/30 border border-white/20 rounded text-white text-sm"
+                                    />
+                                </div>
+
+                                <div className="border-t border-white/10 pt-4">
+                                    <h3 className="text-sm font-semibold text-sky-300 mb-2">Prefetch This Area</h3>
+                                    {(() => {
+                                        const estimate = estimatePrefetchTiles(bounds, prefetchOptions);
+                                        return (
+                                            <p className="text-xs text-gray-400 mb-2">
+                                                DEM zoom {prefetchOptions.demZooms.join(', ')}: {estimate.dem} tiles<br />
+                                                {prefetchOptions.imageryUrl
+                                                    ? <>{baseMapName} zoom {prefetchOptions.imageryZooms.join(', ')}: {estimate.imagery} tiles</>
+                                                    : 'No base map selected (imagery skipped)'}
+                                                {estimate.capped && (
+                                                    <span className="block text-amber-300 mt-1">
+                                                        Only the first {estimate.limit} of {estimate.total} tiles will be cached (prefetch limit)
+                                                    </span>
+                                                )}
+                                            </p>
+                                        );
+                                    })()}
+                                    {prefetchProgress ? (
+                                        <div>
+                                            <div className="h-2 w-full bg-white/10 rounded overflow-hidden">
+                                                <div
+                                                    className="h-full bg-sky-400"
+                                                    style={{ width: `${prefetchProgress.total ? (prefetchProgress.done / prefetchProgress.total) * 100 : 0}%` }}
+                                                />
+                                            </div>
+                                            <div className="flex justify-between items-center mt-2 text-xs text-gray-300">
+                                                <span>
+                                                    {prefetchProgress.done} / {prefetchProgress.total} tiles
+                                                    {prefetchProgress.failed > 0 && <span className="text-red-300"> ({prefetchProgress.failed} failed)</span>}
+                                                </span>
+                                                <button
+                                                    onClick={() => prefetchAbort.current?.abort()}
+                                                    className="px-2 py-1 rounded border border-white/20 hover:bg-white/10"
+                                                >
+                                                    Cancel
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ) : (
+                                        <>
+                                            {prefetchResult && (
+                                                <p className="text-xs text-gray-300 mb-2">
+                                                    Last download: {prefetchResult.done - prefetchResult.failed} of {prefetchResult.requested} tiles cached
+                                                    {prefetchResult.failed > 0 && <span className="text-red-300">, {prefetchResult.failed} failed</span>}
+                                                    {prefetchResult.requested > prefetchResult.total && (
+                                                        <span className="text-amber-300">, {prefetchResult.requested - prefetchResult.total} skipped by the tile limit</span>
+                                                    )}
+                                                    {prefetchResult.done < prefetchResult.total && <span>, cancelled</span>}
+                                                </p>
+                                            )}
+                                            <button
+                                                onClick={startPrefetch}
+                                                className="w-full px-3 py-2 rounded-md text-xs font-medium border bg-sky-500/20 border-sky-500 text-sky-300 hover:bg-sky-500/30"
+                                            >
+                                                Download for Offline Use
+                                            </button>
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+
+                            <div className="flex justify-end gap-3 mt-4">
+                                <button
+                                    onClick={() => clearTileCache().then(refreshCacheStats)}
+                                    disabled={!!prefetchProgress}
+                                    className="px-4 py-2 rounded-md text-sm font-medium bg-red-900/60 text-red-200 hover:bg-red-800/60 disabled:opacity-40"
+                                >
+                                    Clear Cache
+                                </button>
+                                <button
+                                    onClick={() => setShowCacheDialog(false)}
+                                    className="px-4 py-2 rounded-md text-sm font-medium bg-gray-700 text-gray-300 hover:bg-gray-600"
+                                >
+                                    Close
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                )
+            }
+
             {/* Fire Configuration Dialog */}
             {
                 showFireDialog && (
@@ -982,7 +1809,7 @@ function App() {
             <Canvas
                 shadows
                 camera={{
-                    // Terrain is 100x100 units. Show with 50% margin = 150 units view.
+                    // Terrain's longest side is 100 units. Show with 50% margin = 150 units view.
                     // FOV 45°, tan(22.5°) ≈ 0.414. Distance = 75 / 0.414 ≈ 181
                     // Position camera at 45° angle looking down at center
                     position: [0, 130, 130], // Elevated view with 50% margin
@@ -1051,6 +1878,25 @@ function App() {
                         cloudConfig={cloudConfig}
                         windConfig={windConfig}
                         contourConfig={contourConfig}
+                        onContourLevelsChange={setContourLevels}
+                        hydrology={hydrologyWithPourPoint}
+                        onWatershedResult={setWatershedSummary}
+                        flood={floodConfig}
+                        onFloodResult={setFloodSummary}
+                        cutFill={analysisTool === 'cutFill' ? cutFillConfig : undefined}
+                        onCutFillResult={setCutFillResult}
+                        statistics={analysisTool === 'statistics' ? statisticsConfig : undefined}
+                        onStatisticsResult={setStatisticsResult}
+                        demOverride={localDem?.data ?? null}
+                        surfaceMode={surfaceMode}
+                        slopeUnit={slopeUnit}
+                        hillshade={hillshadeConfig}
+                        viewshed={analysisTool === 'viewshed' ? viewshedConfig : undefined}
+                        onViewshedResult={setViewshedSummary}
+                        lineOfSight={analysisTool === 'lineOfSight' ? lineOfSightConfig : undefined}
+                        onLineOfSightResult={setLineOfSightResult}
+                        profile={analysisTool === 'profile' ? profileConfig : undefined}
+                        onProfileResult={setProfileResult}
                         fireConfigs={React.useMemo(() => {
                             const firstFire = {
                                 ...TERRAIN_CONFIG.FIRES[0],
@@ -1122,11 +1968,636 @@ function App() {
                                 E: {utmX.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}<br />
                                 N: {utmY.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                             </div>
+                            {analysisTool === 'lineOfSight' && lineOfSightResult && (
+                                <div className={`text-xs mt-1 ${lineOfSightResult.blocked ? 'text-red-400' : 'text-green-400'}`}>
+                                    {lineOfSightResult.obstruction
+                                        ? <>LOS blocked at {(lineOfSightResult.obstruction.distance / 1000).toFixed(2)} km<br />Obstruction: {lineOfSightResult.obstruction.ground.toFixed(1)} m</>
+                                        : <>LOS clear, min clearance {lineOfSightResult.minClearance.toFixed(1)} m</>}
+                                </div>
+                            )}
                         </div>
                     );
                 })()
             }
 
+            {/* Viewshed Tool Panel */}
+            {
+                analysisTool === 'viewshed' && (
+                    <div className="absolute top-6 right-6 z-20 w-72 bg-gray-900/90 border border-white/20 rounded-xl p-4 shadow-2xl backdrop-blur-md text-sm text-gray-300 space-y-3">
+                        <div className="flex justify-between items-center">
+                            <h2 className="font-bold text-lime-300">👁️ Viewshed</h2>
+                            <button
+                                onClick={() => setAnalysisTool(null)}
+                                className="text-gray-400 hover:text-white text-xl leading-none"
+                            >
+                                ×
+                            </button>
+                        </div>
+                        <p className="text-xs text-gray-400">
+                            {viewshedConfig.observer
+                                ? `Observer: ${viewshedConfig.observer.lat.toFixed(5)}, ${viewshedConfig.observer.lon.toFixed(5)}`
+                                : 'Double-click the terrain to place the observer'}
+                        </p>
+
+                        <div className="grid grid-cols-3 gap-2">
+                            <div>
+                                <label className="text-xs text-gray-400">Observer (m)</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="1"
+                                    value={viewshedConfig.observerHeight}
+                                    onChange={(e) => setViewshedConfig(prev => ({ ...prev, observerHeight: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                                    className="w-full mt-1 px-2 py-1 bg-black/30 border border-white/20 rounded text-white text-sm"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-xs text-gray-400">Target (m)</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="1"
+                                    value={viewshedConfig.targetHeight}
+                                    onChange={(e) => setViewshedConfig(prev => ({ ...prev, targetHeight: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                                    className="w-full mt-1 px-2 py-1 bg-black/30 border border-white/20 rounded text-white text-sm"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-xs text-gray-400">Radius (km)</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="0.5"
+                                    value={viewshedConfig.maxRadiusKm}
+                                    onChange={(e) => setViewshedConfig(prev => ({ ...prev, maxRadiusKm: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                                    className="w-full mt-1 px-2 py-1 bg-black/30 border border-white/20 rounded text-white text-sm"
+                                />
+                            </div>
+                        </div>
+                        <p className="text-[10px] text-gray-500">Radius 0 analyzes the whole area.</p>
+
+                        {viewshedConfig.observer && (
+                            <div className="pt-2 border-t border-white/10 space-y-1">
+                                {viewshedSummary ? (
+                                    <>
+                                        <div className="flex justify-between">
+                                            <span>Visible area</span>
+                                            <span className="text-lime-300 font-semibold">{viewshedSummary.visibleAreaKm2.toFixed(2)} km²</span>
+                                        </div>
+                                        <div className="flex justify-between text-xs text-gray-400">
+                                            <span>Ground elevation</span>
+                                            <span>{viewshedSummary.observerElevation.toFixed(0)} m</span>
+                                        </div>
+                                    </>
+                                ) : (
+                                    <p className="text-xs text-gray-400">Computing...</p>
+                                )}
+                                <button
+                                    onClick={() => setViewshedConfig(prev => ({ ...prev, observer: null }))}
+                                    className="mt-2 w-full px-3 py-1.5 rounded-md text-xs font-medium border border-white/20 text-gray-300 hover:bg-white/10"
+                                >
+                                    Clear Observer
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                )
+            }
+
+            {/* Line of Sight Tool Panel */}
+            {
+                analysisTool === 'lineOfSight' && (
+                    <div className="absolute top-6 right-6 z-20 w-72 bg-gray-900/90 border border-white/20 rounded-xl p-4 shadow-2xl backdrop-blur-md text-sm text-gray-300 space-y-3">
+                        <div className="flex justify-between items-center">
+                            <h2 className="font-bold text-violet-300">📡 Line of Sight</h2>
+                            <button
+                                onClick={() => setAnalysisTool(null)}
+                                className="text-gray-400 hover:text-white text-xl leading-none"
+                            >
+                                ×
+                            </button>
+                        </div>
+                        <p className="text-xs text-gray-400">
+                            {!lineOfSightConfig.start
+                                ? 'Double-click the terrain to place the start point'
+                                : !lineOfSightConfig.end
+                                    ? 'Double-click the terrain to place the end point'
+                                    : 'Double-click again to start a new line'}
+                        </p>
+
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className="text-xs text-gray-400">Start height (m)</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="1"
+                                    value={lineOfSightConfig.startHeight}
+                                    onChange={(e) => setLineOfSightConfig(prev => ({ ...prev, startHeight: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                                    className="w-full mt-1 px-2 py-1 bg-black/30 border border-white/20 rounded text-white text-sm"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-xs text-gray-400">End height (m)</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    step="1"
+                                    value={lineOfSightConfig.endHeight}
+                                    onChange={(e) => setLineOfSightConfig(prev => ({ ...prev, endHeight: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                                    className="w-full mt-1 px-2 py-1 bg-black/30 border border-white/20 rounded text-white text-sm"
+                                />
+                            </div>
+                        </div>
+
+                        {lineOfSightConfig.end && lineOfSightResult && (
+                            <div className="pt-2 border-t border-white/10 space-y-1">
+                                <div className="flex justify-between">
+                                    <span>Distance</span>
+                                    <span>{(lineOfSightResult.distance / 1000).toFixed(2)} km</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span>Status</span>
+                                    <span className={`font-semibold ${lineOfSightResult.blocked ? 'text-red-400' : 'text-green-400'}`}>
+                                        {lineOfSightResult.blocked ? 'Blocked' : 'Clear'}
+                                    </span>
+                                </div>
+                                {lineOfSightResult.obstruction ? (
+                                    <>
+                                        <div className="flex justify-between text-xs text-gray-400">
+                                            <span>First obstruction</span>
+                                            <span>{(lineOfSightResult.obstruction.distance / 1000).toFixed(2)} km</span>
+                                        </div>
+                                        <div className="flex justify-between text-xs text-gray-400">
+                                            <span>Obstruction elevation</span>
+                                            <span>{lineOfSightResult.obstruction.ground.toFixed(1)} m</span>
+                                        </div>
+                                        <div className="text-xs text-gray-500">
+                                            {lineOfSightResult.obstruction.lat.toFixed(5)}, {lineOfSightResult.obstruction.lon.toFixed(5)}
+                                        </div>
+                                    </>
+                                ) : (
+                                    <div className="flex justify-between text-xs text-gray-400">
+                                        <span>Min clearance</span>
+                                        <span>{lineOfSightResult.minClearance.toFixed(1)} m</span>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                        {lineOfSightConfig.start && (
+                            <button
+                                onClick={() => setLineOfSightConfig(prev => ({ ...prev, start: null, end: null }))}
+                                className="w-full px-3 py-1.5 rounded-md text-xs font-medium border border-white/20 text-gray-300 hover:bg-white/10"
+                            >
+                                Clear Line
+                            </button>
+                        )}
+                    </div>
+                )
+            }
+
+            {/* Elevation Profile Tool Panel */}
+            {
+                analysisTool === 'profile' && (
+                    <div className="absolute top-6 right-6 z-20 w-[28rem] bg-gray-900/90 border border-white/20 rounded-xl p-4 shadow-2xl backdrop-blur-md text-sm text-gray-300 space-y-3">
+                        <div className="flex justify-between items-center">
+                            <h2 className="font-bold text-yellow-300">📈 Elevation Profile</h2>
+                            <button
+                                onClick={() => setAnalysisTool(null)}
+                                className="text-gray-400 hover:text-white text-xl leading-none"
+                            >
+                                ×
+                            </button>
+                        </div>
+                        <p className="text-xs text-gray-400">
+                            {profileVertices.length < 2
+                                ? 'Double-click the terrain to add path vertices (at least two)'
+                                : `${profileVertices.length} vertices · double-click to extend the path`}
+                        </p>
+
+                        {profileVertices.length >= 2 && profileResult && (
+                            <>
+                                <div className="grid grid-cols-4 gap-2 text-center">
+                                    <div>
+                                        <div className="text-[10px] text-gray-400">Distance</div>
+                                        <div className="font-semibold text-white">{profileResult.totalDistance.toFixed(0)} m</div>
+                                    </div>
+                                    <div>
+                                        <div className="text-[10px] text-gray-400">Ascent</div>
+                                        <div className="font-semibold text-green-400">+{profileResult.ascent.toFixed(0)} m</div>
+                                    </div>
+                                    <div>
+                                        <div className="text-[10px] text-gray-400">Descent</div>
+                                        <div className="font-semibold text-red-400">−{profileResult.descent.toFixed(0)} m</div>
+                                    </div>
+                                    <div>
+                                        <div className="text-[10px] text-gray-400">Max grade</div>
+                                        <div className="font-semibold text-white">{profileResult.maxGrade.toFixed(1)}%</div>
+                                    </div>
+                                </div>
+                                <div className="bg-black/30 rounded-lg border border-white/10">
+                                    <ProfileChart profile={profileResult} onHover={setProfileHighlight} />
+                                </div>
+                            </>
+                        )}
+
+                        {profileVertices.length > 0 && (
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => setProfileVertices(prev => prev.slice(0, -1))}
+                                    className="flex-1 px-3 py-1.5 rounded-md text-xs font-medium border border-white/20 text-gray-300 hover:bg-white/10"
+                                >
+                                    Undo Vertex
+                                </button>
+                                <button
+                                    onClick={() => setProfileVertices([])}
+                                    className="flex-1 px-3 py-1.5 rounded-md text-xs font-medium border border-white/20 text-gray-300 hover:bg-white/10"
+                                >
+                                    Clear Path
+                                </button>
+                                <button
+                                    onClick={() => profileResult && downloadText('elevation_profile.csv', profileToCsv(profileResult), 'text/csv')}
+                                    disabled={profileVertices.length < 2 || !profileResult}
+                                    className="flex-1 px-3 py-1.5 rounded-md text-xs font-medium border border-yellow-500 text-yellow-300 hover:bg-yellow-500/20 disabled:opacity-40 disabled:cursor-not-allowed"
+                                >
+                                    Export CSV
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                )
+            }
+
+            {/* Watershed Tool Panel */}
+            {
+                analysisTool === 'watershed' && (
+                    <div className="absolute top-6 right-6 z-20 w-72 bg-gray-900/90 border border-white/20 rounded-xl p-4 shadow-2xl backdrop-blur-md text-sm text-gray-300 space-y-3">
+                        <div className="flex justify-between items-center">
+                            <h2 className="font-bold text-sky-300">🏞️ Watershed</h2>
+                            <button
+                                onClick={() => setAnalysisTool(null)}
+                                className="text-gray-400 hover:text-white text-xl leading-none"
+                            >
+                                ×
+                            </button>
+                        </div>
+                        <p className="text-xs text-gray-400">
+                            Double-click near a stream to set the pour point. It snaps to the strongest flow within {TERRAIN_CONFIG.HYDROLOGY.SNAP_RADIUS_M} m.
+                        </p>
+
+                        {pourPoint && (
+                            <div className="pt-2 border-t border-white/10 space-y-1">
+                                {watershedSummary ? (
+                                    <>
+                                        <div className="flex justify-between">
+                                            <span>Area</span>
+                                            <span className="text-sky-300 font-semibold">{watershedSummary.areaKm2.toFixed(2)} km²</span>
+                                        </div>
+                                        <div className="flex justify-between text-xs text-gray-400">
+                                            <span>Mean slope</span>
+                                            <span>{watershedSummary.meanSlope.toFixed(1)}°</span>
+                                        </div>
+                                        <div className="flex justify-between text-xs text-gray-400">
+                                            <span>Elevation</span>
+                                            <span>{watershedSummary.minElevation.toFixed(0)} – {watershedSummary.maxElevation.toFixed(0)} m</span>
+                                        </div>
+                                        <div className="text-xs text-gray-500">
+                                            Outlet: {watershedSummary.outlet.lat.toFixed(5)}, {watershedSummary.outlet.lon.toFixed(5)}
+                                        </div>
+                                        <button
+                                            onClick={() => downloadText('watershed.geojson', toFeatureCollection([watershedSummary.feature]), 'application/geo+json')}
+                                            className="mt-2 w-full px-3 py-1.5 rounded-md text-xs font-medium border border-sky-500 text-sky-300 hover:bg-sky-500/20"
+                                        >
+                                            Export GeoJSON
+                                        </button>
+                                    </>
+                                ) : (
+                                    <p className="text-xs text-gray-400">Computing flow routing...</p>
+                                )}
+                                <button
+                                    onClick={() => setPourPoint(null)}
+                                    className="mt-2 w-full px-3 py-1.5 rounded-md text-xs font-medium border border-white/20 text-gray-300 hover:bg-white/10"
+                                >
+                                    Clear Pour Point
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                )
+            }
+
+            {/* Flood Tool Panel */}
+            {
+                analysisTool === 'flood' && floodConfig && elevationRange && (
+                    <div className="absolute top-6 right-6 z-20 w-72 bg-gray-900/90 border border-white/20 rounded-xl p-4 shadow-2xl backdrop-blur-md text-sm text-gray-300 space-y-3">
+                        <div className="flex justify-between items-center">
+                            <h2 className="font-bold text-blue-300">🌊 Flood Simulation</h2>
+                            <button
+                                onClick={() => setAnalysisTool(null)}
+                                className="text-gray-400 hover:text-white text-xl leading-none"
+                            >
+                                ×
+                            </button>
+                        </div>
+
+                        <div>
+                            <div className="flex justify-between text-xs text-gray-400">
+                                <label>Water Level</label>
+                                <span className="text-white">{floodConfig.level.toFixed(1)} m</span>
+                            </div>
+                            <input
+                                type="range"
+                                min={elevationRange.min}
+                                max={elevationRange.max}
+                                step={TERRAIN_CONFIG.FLOOD.LEVEL_STEP}
+                                value={floodConfig.level}
+                                onChange={(e) => setFloodLevel(Number(e.target.value))}
+                                className="w-full h-1.5 bg-white/20 rounded-lg appearance-none cursor-pointer accent-blue-400"
+                            />
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-2">
+                            <button
+                                onClick={() => setFloodSeed(null)}
+                                className={`px-3 py-2 rounded-md text-xs font-medium transition-colors border text-center ${!floodSeed
+                                    ? 'bg-blue-500/20 border-blue-500 text-blue-300'
+                                    : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'
+                                    }`}
+                            >
+                                Whole Area
+                            </button>
+                            <div
+                                className={`px-3 py-2 rounded-md text-xs font-medium border text-center ${floodSeed
+                                    ? 'bg-blue-500/20 border-blue-500 text-blue-300'
+                                    : 'bg-white/5 border-white/10 text-gray-500'
+                                    }`}
+                            >
+                                Fill from Seed
+                            </div>
+                        </div>
+                        <p className="text-xs text-gray-400">
+                            {floodSeed
+                                ? `Seed: ${floodSeed.lat.toFixed(5)}, ${floodSeed.lon.toFixed(5)}, only connected cells flood`
+                                : 'Every cell below the level floods. Double-click the terrain to fill from a seed point instead.'}
+                        </p>
+
+                        {floodSummary && (
+                            <div className="pt-2 border-t border-white/10 space-y-1">
+                                <div className="flex justify-between">
+                                    <span>Inundated</span>
+                                    <span className="text-blue-300 font-semibold">{floodSummary.areaKm2.toFixed(2)} km²</span>
+                                </div>
+                                <div className="flex justify-between text-xs text-gray-400">
+                                    <span>Volume</span>
+                                    <span>
+                                        {floodSummary.volumeM3 >= 1e6
+                                            ? `${(floodSummary.volumeM3 / 1e6).toFixed(2)} million m³`
+                                            : `${floodSummary.volumeM3.toFixed(0)} m³`}
+                                    </span>
+                                </div>
+                                <div className="flex justify-between text-xs text-gray-400">
+                                    <span>Max depth</span>
+                                    <span>{floodSummary.maxDepth.toFixed(1)} m</span>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )
+            }
+
+            {/* Cut / Fill Tool Panel */}
+            {
+                analysisTool === 'cutFill' && (
+                    <div className="absolute top-6 right-6 z-20 w-80 bg-gray-900/90 border border-white/20 rounded-xl p-4 shadow-2xl backdrop-blur-md text-sm text-gray-300 space-y-3">
+                        <div className="flex justify-between items-center">
+                            <h2 className="font-bold text-rose-300">🚜 Cut / Fill Volume</h2>
+                            <button
+                                onClick={() => setAnalysisTool(null)}
+                                className="text-gray-400 hover:text-white text-xl leading-none"
+                            >
+                                ×
+                            </button>
+                        </div>
+
+                        <div>
+                            <label className="text-xs text-gray-400">Design Surface</label>
+                            <div className="grid grid-cols-2 gap-2 mt-1">
+                                {([['flat', 'Flat Pad'], ['plane', '3-Point Plane']] as const).map(([mode, label]) => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => {
+                                            setCutFillDesign(prev => ({ ...prev, mode }));
+                                            setCutFillPick(mode === 'plane' && cutFillDesign.planePoints.length < 3 ? 'plane' : 'polygon');
+                                        }}
+                                        className={`px-3 py-2 rounded-md text-xs font-medium transition-colors border text-center ${cutFillDesign.mode === mode
+                                            ? 'bg-rose-500/20 border-rose-500 text-rose-300'
+                                            : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'
+                                            }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {cutFillDesign.mode === 'flat' ? (
+                            <div>
+                                <label className="text-xs text-gray-400">Design Elevation (m, empty = mean ground)</label>
+                                <input
+                                    type="number"
+                                    step="0.1"
+                                    value={cutFillDesign.elevation ?? ''}
+                                    placeholder={cutFillResult?.designElevation != null ? cutFillResult.designElevation.toFixed(1) : ''}
+                                    onChange={(e) => {
+                                        const elevation = parseFloat(e.target.value);
+                                        setCutFillDesign(prev => ({ ...prev, elevation: Number.isFinite(elevation) ? elevation : null }));
+                                    }}
+                                    className="w-full mt-1 px-2 py-1 bg-black/30 border border-white/20 rounded text-white text-sm"
+                                />
+                            </div>
+                        ) : (
+                            <div className="space-y-2">
+                                <div className="grid grid-cols-2 gap-2">
+                                    {([['polygon', 'Draw Polygon'], ['plane', 'Pick Plane Points']] as const).map(([pick, label]) => (
+                                        <button
+                                            key={pick}
+                                            onClick={() => setCutFillPick(pick)}
+                                            className={`px-2 py-1.5 rounded-md text-xs font-medium transition-colors border text-center ${cutFillPick === pick
+                                                ? 'bg-orange-500/20 border-orange-500 text-orange-300'
+                                                : 'bg-white/5 border-white/10 text-gray-400 hover:bg-white/10'
+                                                }`}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                                {cutFillDesign.planePoints.map((p, i) => (
+                                    <div key={i} className="flex items-center gap-2 text-xs">
+                                        <span className="w-6 text-orange-300">P{i + 1}</span>
+                                        <span className="flex-1 text-gray-500">{p.lat.toFixed(5)}, {p.lon.toFixed(5)}</span>
+                                        <input
+                                            type="number"
+                                            step="0.1"
+                                            value={p.elevation ?? ''}
+                                            placeholder={cutFillResult?.designPoints[i] ? cutFillResult.designPoints[i].elevation.toFixed(1) : 'ground'}
+                                            onChange={(e) => {
+                                                const value = parseFloat(e.target.value);
+                                                const elevation = Number.isFinite(value) ? value : null;
+                                                setCutFillDesign(prev => ({
+                                                    ...prev,
+                                                    planePoints: prev.planePoints.map((point, j) => j === i ? { ...point, elevation } : point),
+                                                }));
+                                            }}
+                                            className="w-20 px-2 py-1 bg-black/30 border border-white/20 rounded text-white"
+                                        />
+                                    </div>
+                                ))}
+                                {cutFillDesign.planePoints.length < 3 && (
+                                    <p className="text-xs text-gray-500">Pick {3 - cutFillDesign.planePoints.length} more plane point(s); empty elevations use the ground.</p>
+                                )}
+                            </div>
+                        )}
+
+                        <p className="text-xs text-gray-400">
+                            {cutFillVertices.length < 3
+                                ? 'Double-click the terrain to add polygon vertices (at least three)'
+                                : `${cutFillVertices.length} vertices · double-click to add more`}
+                        </p>
+
+                        {cutFillResult && (
+                            <div className="pt-2 border-t border-white/10 space-y-1">
+                                <div className="flex justify-between">
+                                    <span>Cut</span>
+                                    <span className="text-red-400 font-semibold">{cutFillResult.cutVolume.toFixed(0)} m³</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span>Fill</span>
+                                    <span className="text-blue-400 font-semibold">{cutFillResult.fillVolume.toFixed(0)} m³</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span>Net ({cutFillResult.netVolume >= 0 ? 'import' : 'export'})</span>
+                                    <span className="text-white font-semibold">{Math.abs(cutFillResult.netVolume).toFixed(0)} m³</span>
+                                </div>
+                                <div className="flex justify-between text-xs text-gray-400">
+                                    <span>Area</span>
+                                    <span>{cutFillResult.area.toFixed(0)} m²</span>
+                                </div>
+                                <div className="flex justify-between text-xs text-gray-400">
+                                    <span>Max cut / fill</span>
+                                    <span>{cutFillResult.maxCut.toFixed(1)} m / {cutFillResult.maxFill.toFixed(1)} m</span>
+                                </div>
+                            </div>
+                        )}
+
+                        {(cutFillVertices.length > 0 || cutFillDesign.planePoints.length > 0) && (
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => setCutFillVertices(prev => prev.slice(0, -1))}
+                                    disabled={cutFillVertices.length === 0}
+                                    className="flex-1 px-3 py-1.5 rounded-md text-xs font-medium border border-white/20 text-gray-300 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed"
+                                >
+                                    Undo Vertex
+                                </button>
+                                <button
+                                    onClick={() => {
+                                        setCutFillVertices([]);
+                                        setCutFillDesign(prev => ({ ...prev, planePoints: [] }));
+                                    }}
+                                    className="flex-1 px-3 py-1.5 rounded-md text-xs font-medium border border-white/20 text-gray-300 hover:bg-white/10"
+                                >
+                                    Clear
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                )
+            }
+
+            {/* Terrain Statistics Panel */}
+            {
+                analysisTool === 'statistics' && (
+                    <div className="absolute top-6 right-6 z-20 w-80 max-h-[calc(100vh-3rem)] overflow-y-auto bg-gray-900/90 border border-white/20 rounded-xl p-4 shadow-2xl backdrop-blur-md text-sm text-gray-300 space-y-3">
+                        <div className="flex justify-between items-center">
+                            <h2 className="font-bold text-emerald-300">📊 Terrain Statistics</h2>
+                            <button
+                                onClick={() => setAnalysisTool(null)}
+                                className="text-gray-400 hover:text-white text-xl leading-none"
+                            >
+                                ×
+                            </button>
+                        </div>
+                        <p className="text-xs text-gray-400">
+                            {statisticsPolygon.length < 3
+                                ? `Whole ${shape} area · double-click the terrain to draw a polygon instead`
+                                : `Polygon with ${statisticsPolygon.length} vertices`}
+                        </p>
+
+                        {statisticsResult && (
+                            <>
+                                <div className="grid grid-cols-3 gap-2 text-center">
+                                    {([
+                                        ['Mean', `${statisticsResult.mean.toFixed(1)} m`],
+                                        ['Median', `${statisticsResult.median.toFixed(1)} m`],
+                                        ['Std dev', `${statisticsResult.stdDev.toFixed(1)} m`],
+                                        ['Min', `${statisticsResult.min.toFixed(0)} m`],
+                                        ['Max', `${statisticsResult.max.toFixed(0)} m`],
+                                        ['Ruggedness', `${statisticsResult.ruggedness.toFixed(1)} m`],
+                                    ] as const).map(([label, value]) => (
+                                        <div key={label}>
+                                            <div className="text-[10px] text-gray-400">{label}</div>
+                                            <div className="font-semibold text-white">{value}</div>
+                                        </div>
+                                    ))}
+                                </div>
+
+                                <div className="space-y-1 text-xs">
+                                    <div className="flex justify-between text-gray-400">
+                                        <span>Planimetric area</span>
+                                        <span>{(statisticsResult.planimetricArea / 1e6).toFixed(3)} km²</span>
+                                    </div>
+                                    <div className="flex justify-between text-gray-400">
+                                        <span>Surface area</span>
+                                        <span>
+                                            {(statisticsResult.surfaceArea / 1e6).toFixed(3)} km² (×{(statisticsResult.surfaceArea / statisticsResult.planimetricArea).toFixed(3)})
+                                        </span>
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <p className="text-xs text-gray-400 mb-1">Elevation Histogram</p>
+                                    <div className="bg-black/30 rounded-lg border border-white/10">
+                                        <HistogramChart statistics={statisticsResult} />
+                                    </div>
+                                </div>
+                                <div>
+                                    <p className="text-xs text-gray-400 mb-1">Hypsometric Curve</p>
+                                    <div className="bg-black/30 rounded-lg border border-white/10">
+                                        <HypsometricChart statistics={statisticsResult} />
+                                    </div>
+                                </div>
+                            </>
+                        )}
+
+                        {statisticsPolygon.length > 0 && (
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => setStatisticsPolygon(prev => prev.slice(0, -1))}
+                                    className="flex-1 px-3 py-1.5 rounded-md text-xs font-medium border border-white/20 text-gray-300 hover:bg-white/10"
+                                >
+                                    Undo Vertex
+                                </button>
+                                <button
+                                    onClick={() => setStatisticsPolygon([])}
+                                    className="flex-1 px-3 py-1.5 rounded-md text-xs font-medium border border-white/20 text-gray-300 hover:bg-white/10"
+                                >
+                                    Use Whole Area
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                )
+            }
+
             <div className="absolute bottom-6 right-6 z-10 text-right pointer-events-none">
                 <div className="text-gray/40 text-xs space-y-1">
                     <p>Developed by Pisut.Nak</p>
@@ -1180,6 +2651,7 @@ function App() {
                 </div>
             </div>
         </div >
+        </BoundsContext.Provider>
     )
 }
 
@@ -1233,14 +2705,17 @@ const ShadowPlane = React.memo(({ show, shape, exaggeration }: { show: boolean,
         return tex;
     }, [shape]);
 
+    const bounds = useBounds();
+    const world = getWorldExtents(bounds);
+
     const shadowY = React.useMemo(() => {
-        const dimensions = calculateBoundsDimensions(TERRAIN_CONFIG.BOUNDS);
+        const dimensions = calculateBoundsDimensions(bounds);
         const gapMeters = TERRAIN_CONFIG.SHADOW_DISTANCE_UNIT === 'percent'
             ? dimensions.minDimension * (TERRAIN_CONFIG.SHADOW_DISTANCE_VALUE / 100)
             : TERRAIN_CONFIG.SHADOW_DISTANCE_VALUE;
 
-        // Calculate base scale to match Terrain.tsx (100 / Width)
-        const baseMultiplier = 100 / dimensions.width;
+        // Calculate base scale to match Terrain.tsx (world units per meter)
+        const baseMultiplier = world.unitsPerMeter;
         // User requested fixed soil depth/shadow distance regardless of exaggeration
         // So we use baseMultiplier (1:1 scale) instead of multiplying by exaggeration
         const currentMultiplier = baseMultiplier;
@@ -1250,13 +2725,13 @@ const ShadowPlane = React.memo(({ show, shape, exaggeration }: { show: boolean,
             : TERRAIN_CONFIG.SOIL_DEPTH_VALUE;
 
         return -(soilDepthMeters + gapMeters) * currentMultiplier;
-    }, [exaggeration]);
+    }, [exaggeration, bounds, world]);
 
     if (!show || !alphaMap) return null;
 
     return (
         <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, shadowY, 0]} receiveShadow>
-            <planeGeometry args={[100, 100]} />
+            <planeGeometry args={[world.width, world.height]} />
             <meshBasicMaterial
                 color="#000000"
                 alphaMap={alphaMap}
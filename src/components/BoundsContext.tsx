@@ -0,0 +1,27 @@
+import { createContext, useContext } from 'react';
+import { TERRAIN_CONFIG } from '../config';
+
+export type AreaBounds = typeof TERRAIN_CONFIG.BOUNDS;
+
+/**
+ * Area of interest shared by the whole scene.
+ * Provided by App, R3F forwards it into the Canvas so terrain, overlays and effects all read the same bounds.
+ */
+export const BoundsContext = createContext<AreaBounds>(TERRAIN_CONFIG.BOUNDS);
+
+export const useBounds = () => useContext(BoundsContext);
+
+/**
+ * Reason why `bounds` cannot be used as an area of interest, or null when it is fine
+ */
+export const validateBounds = (bounds: AreaBounds): string | null => {
+    const { latMin, lonMin, latMax, lonMax } = bounds;
+    if ([latMin, lonMin, latMax, lonMax].some(value => !Number.isFinite(value))) return 'All four coordinates are required';
+    if (latMin < -85.05 || latMax > 85.05) return 'Latitude must be within ±85.05° (Web Mercator)';
+    if (lonMin < -180 || lonMax > 180) return 'Longitude must be within ±180°';
+    if (latMin >= latMax) return 'Lat Min must be smaller than Lat Max';
+    if (lonMin >= lonMax) return 'Lon Min must be smaller than Lon Max';
+    const maxSpan = TERRAIN_CONFIG.MAX_AREA_SPAN_DEG;
+    if (latMax - latMin > maxSpan || lonMax - lonMin > maxSpan) return `Area is too large (max ${maxSpan}° per side)`;
+    return null;
+};
@@ -0,0 +1,212 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { latLonToPixel, pixelToLatLon } from '../utils/projection';
+import { AreaBounds } from './BoundsContext';
+
+interface BoundsPickerProps {
+    bounds: AreaBounds;
+    onChange: (bounds: AreaBounds) => void;
+    tileUrl: string;
+    height?: number;
+}
+
+const TILE_SIZE = 256;
+const MIN_ZOOM = 2;
+const MAX_ZOOM = 18;
+
+// 6 decimals is ~10 cm, plenty for an area of interest
+const roundCoord = (value: number) => Math.round(value * 1e6) / 1e6;
+
+/**
+ * Largest zoom at which the bounds fill at most half of the map
+ */
+const getFitZoom = (bounds: AreaBounds, width: number, height: number) => {
+    for (let zoom = MAX_ZOOM; zoom > MIN_ZOOM; zoom--) {
+        const topLeft = latLonToPixel(bounds.latMax, bounds.lonMin, zoom);
+        const bottomRight = latLonToPixel(bounds.latMin, bounds.lonMax, zoom);
+        if (bottomRight.x - topLeft.x <= width / 2 && bottomRight.y - topLeft.y <= height / 2) return zoom;
+    }
+    return MIN_ZOOM;
+};
+
+const getBoundsCenter = (bounds: AreaBounds, zoom: number) => {
+    const topLeft = latLonToPixel(bounds.latMax, bounds.lonMin, zoom);
+    const bottomRight = latLonToPixel(bounds.latMin, bounds.lonMax, zoom);
+    return { x: (topLeft.x + bottomRight.x) / 2, y: (topLeft.y + bottomRight.y) / 2 };
+};
+
+/**
+ * 2D slippy map for choosing an area of interest.
+ * Draw mode drags out a new box, pan mode moves the map.
+ */
+export const BoundsPicker: React.FC<BoundsPickerProps> = ({ bounds, onChange, tileUrl, height = 300 }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [width, setWidth] = useState(0);
+    const [mode, setMode] = useState<'draw' | 'pan'>('draw');
+    // View center in global pixels at `zoom`
+    const [view, setView] = useState<{ zoom: number; x: number; y: number } | null>(null);
+    const [draftBox, setDraftBox] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+    const drag = useRef<{ startX: number; startY: number; viewX: number; viewY: number } | null>(null);
+
+    useEffect(() => {
+        const element = containerRef.current;
+        if (!element) return;
+        const observer = new ResizeObserver(() => setWidth(element.clientWidth));
+        observer.observe(element);
+        setWidth(element.clientWidth);
+        return () => observer.disconnect();
+    }, []);
+
+    const fitToBounds = () => {
+        if (!width) return;
+        const zoom = getFitZoom(bounds, width, height);
+        setView({ zoom, ...getBoundsCenter(bounds, zoom) });
+    };
+
+    // Frame the current area once the map has a size
+    useEffect(() => {
+        if (width && !view) fitToBounds();
+    }, [width]);
+
+    const setZoom = (zoom: number) => {
+        if (!view) return;
+        const next = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+        const factor = Math.pow(2, next - view.zoom);
+        setView({ zoom: next, x: view.x * factor, y: view.y * factor });
+    };
+
+    const getLocalPoint = (e: React.PointerEvent) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!view) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const { x, y } = getLocalPoint(e);
+        drag.current = { startX: x, startY: y, viewX: view.x, viewY: view.y };
+        if (mode === 'draw') setDraftBox({ x0: x, y0: y, x1: x, y1: y });
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!drag.current || !view) return;
+        const { x, y } = getLocalPoint(e);
+        if (mode === 'pan') {
+            setView({ zoom: view.zoom, x: drag.current.viewX - (x - drag.current.startX), y: drag.current.viewY - (y - drag.current.startY) });
+        } else {
+            setDraftBox({ x0: drag.current.startX, y0: drag.current.startY, x1: x, y1: y });
+        }
+    };
+
+    const handlePointerUp = () => {
+        if (mode === 'draw' && draftBox && view) {
+            const left = Math.min(draftBox.x0, draftBox.x1);
+            const right = Math.max(draftBox.x0, draftBox.x1);
+            const top = Math.min(draftBox.y0, draftBox.y1);
+            const bottom = Math.max(draftBox.y0, draftBox.y1);
+
+            // Ignore clicks and accidental tiny drags
+            if (right - left > 4 && bottom - top > 4) {
+                const originX = view.x - width / 2;
+                const originY = view.y - height / 2;
+                const northWest = pixelToLatLon(originX + left, originY + top, view.zoom);
+                const southEast = pixelToLatLon(originX + right, originY + bottom, view.zoom);
+                onChange({
+                    latMin: roundCoord(southEast.lat),
+                    lonMin: roundCoord(northWest.lon),
+                    latMax: roundCoord(northWest.lat),
+                    lonMax: roundCoord(southEast.lon),
+                });
+            }
+        }
+        drag.current = null;
+        setDraftBox(null);
+    };
+
+    // Tiles covering the viewport
+    const tiles: { key: string; url: string; left: number; top: number }[] = [];
+    let boxStyle: React.CSSProperties | null = null;
+    if (view && width) {
+        const originX = view.x - width / 2;
+        const originY = view.y - height / 2;
+        const tileCount = Math.pow(2, view.zoom);
+
+        for (let ty = Math.floor(originY / TILE_SIZE); ty <= Math.floor((originY + height) / TILE_SIZE); ty++) {
+            if (ty < 0 || ty >= tileCount) continue;
+            for (let tx = Math.floor(originX / TILE_SIZE); tx <= Math.floor((originX + width) / TILE_SIZE); tx++) {
+                const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+                tiles.push({
+                    key: `${view.zoom}/${tx}/${ty}`,
+                    url: tileUrl.replace('{x}', wrappedX.toString()).replace('{y}', ty.toString()).replace('{z}', view.zoom.toString()),
+                    left: tx * TILE_SIZE - originX,
+                    top: ty * TILE_SIZE - originY,
+                });
+            }
+        }
+
+        const topLeft = latLonToPixel(bounds.latMax, bounds.lonMin, view.zoom);
+        const bottomRight = latLonToPixel(bounds.latMin, bounds.lonMax, view.zoom);
+        boxStyle = {
+            left: topLeft.x - originX,
+            top: topLeft.y - originY,
+            width: bottomRight.x - topLeft.x,
+            height: bottomRight.y - topLeft.y,
+        };
+    }
+
+    return (
+        <div>
+            <div
+                ref={containerRef}
+                className={`relative w-full overflow-hidden rounded-lg border border-white/20 bg-gray-800 select-none touch-none ${mode === 'draw' ? 'cursor-crosshair' : 'cursor-grab'}`}
+                style={{ height }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+            >
+                {tiles.map(tile => (
+                    <img
+                        key={tile.key}
+                        src={tile.url}
+                        alt=""
+                        draggable={false}
+                        className="absolute pointer-events-none"
+                        style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+                    />
+                ))}
+                {boxStyle && !draftBox && (
+                    <div className="absolute border-2 border-emerald-400 bg-emerald-400/20 pointer-events-none" style={boxStyle} />
+                )}
+                {draftBox && (
+                    <div
+                        className="absolute border-2 border-dashed border-amber-300 bg-amber-300/20 pointer-events-none"
+                        style={{
+                            left: Math.min(draftBox.x0, draftBox.x1),
+                            top: Math.min(draftBox.y0, draftBox.y1),
+                            width: Math.abs(draftBox.x1 - draftBox.x0),
+                            height: Math.abs(draftBox.y1 - draftBox.y0),
+                        }}
+                    />
+                )}
+            </div>
+            <div className="flex gap-2 mt-2 text-xs">
+                <button
+                    onClick={() => setMode('draw')}
+                    className={`px-2 py-1 rounded border ${mode === 'draw' ? 'bg-emerald-500/20 border-emerald-500 text-emerald-300' : 'border-white/20 text-gray-300 hover:bg-white/10'}`}
+                >
+                    ✏️ Draw Box
+                </button>
+                <button
+                    onClick={() => setMode('pan')}
+                    className={`px-2 py-1 rounded border ${mode === 'pan' ? 'bg-emerald-500/20 border-emerald-500 text-emerald-300' : 'border-white/20 text-gray-300 hover:bg-white/10'}`}
+                >
+                    ✋ Pan
+                </button>
+                <div className="flex-1" />
+                <button onClick={() => view && setZoom(view.zoom + 1)} className="px-2 py-1 rounded border border-white/20 text-gray-300 hover:bg-white/10">+</button>
+                <button onClick={() => view && setZoom(view.zoom - 1)} className="px-2 py-1 rounded border border-white/20 text-gray-300 hover:bg-white/10">−</button>
+                <button onClick={fitToBounds} className="px-2 py-1 rounded border border-white/20 text-gray-300 hover:bg-white/10">Fit</button>
+            </div>
+        </div>
+    );
+};
@@ -1,8 +1,10 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import * as THREE from 'three';
-import { Text, Line, Billboard } from '@react-three/drei';
+import { Billboard, Text, Line } from '@react-three/drei';
 import { TERRAIN_CONFIG } from '../config';
-import { calculateBoundsDimensions } from '../utils/terrain';
+import { getWorldExtents, WorldExtents } from '../utils/projection';
+import { ContourLevel, ContourMode, ContourSmoothing, cutLine, findSpotHeights, generateContours, measureLine, pointAlong } from '../utils/contours';
+import { useBounds } from './BoundsContext';
 
 interface ContoursProps {
     terrainData: {
@@ -21,115 +23,52 @@ interface ContoursProps {
         showLabels: boolean;
         minorOpacity: number;
         majorOpacity: number;
-    }
+        smoothing?: ContourSmoothing;
+        mode?: ContourMode;
+        showDepressions?: boolean;
+        showSpotHeights?: boolean;
+        spotHeightProminence?: number;
+    };
+    onLevelsChange?: (levels: ContourLevel[]) => void; // Displayed lines, for export
+}
+
+interface ContourLabel {
+    position: [number, number, number];
+    quaternion: [number, number, number, number]; // Text lying on the slope, baseline along the line
+    text: string;
+}
+
+interface SpotHeightMarker {
+    position: [number, number, number];
+    text: string;
+    type: 'peak' | 'pit';
 }
 
 // Helper to check if a point is inside the shape
-const isPointInShape = (x: number, y: number, shape: 'rectangle' | 'ellipse'): boolean => {
-    // World coordinates are -50 to 50 for both X and Y
-    const halfSize = 50;
+const isPointInShape = (x: number, y: number, shape: 'rectangle' | 'ellipse', world: WorldExtents): boolean => {
+    // World coordinates are -halfWidth..halfWidth (X) and -halfHeight..halfHeight (Y)
+    const { halfWidth, halfHeight } = world;
 
     if (shape === 'rectangle') {
-        return Math.abs(x) <= halfSize && Math.abs(y) <= halfSize;
+        return Math.abs(x) <= halfWidth && Math.abs(y) <= halfHeight;
     } else {
         // Ellipse: (x/a)^2 + (y/b)^2 <= 1
-        const nx = x / halfSize;
-        const ny = y / halfSize;
+        const nx = x / halfWidth;
+        const ny = y / halfHeight;
         return (nx * nx + ny * ny) <= 1;
     }
 };
 
-// Marching squares algorithm to extract contour lines
-const extractContourLines = (
-    data: Float32Array,
-    width: number,
-    height: number,
-    targetHeight: number
-): [number, number][][] => {
-    const lines: [number, number][][] = [];
-
-    // Helper to interpolate position along an edge
-    const interpolate = (
-        x1: number, y1: number, v1: number,
-        x2: number, y2: number, v2: number,
-        target: number
-    ): [number, number] => {
-        if (Math.abs(v2 - v1) < 0.0001) {
-            return [(x1 + x2) / 2, (y1 + y2) / 2];
-        }
-        const t = (target - v1) / (v2 - v1);
-        return [x1 + t * (x2 - x1), y1 + t * (y2 - y1)];
-    };
-
-    // Scan each cell
-    for (let y = 0; y < height - 1; y++) {
-        for (let x = 0; x < width - 1; x++) {
-            // Get corner values (counter-clockwise from bottom-left)
-            const v00 = data[y * width + x];           // bottom-left
-            const v10 = data[y * width + (x + 1)];     // bottom-right
-            const v11 = data[(y + 1) * width + (x + 1)]; // top-right
-            const v01 = data[(y + 1) * width + x];     // top-left
-
-            // Calculate case based on which corners are above threshold
-            let caseIndex = 0;
-            if (v00 >= targetHeight) caseIndex |= 1;
-            if (v10 >= targetHeight) caseIndex |= 2;
-            if (v11 >= targetHeight) caseIndex |= 4;
-            if (v01 >= targetHeight) caseIndex |= 8;
-
-            // Skip if all corners are same side
-            if (caseIndex === 0 || caseIndex === 15) continue;
-
-            // Calculate edge intersection points
-            const edges: { [key: string]: [number, number] } = {};
-
-            // Bottom edge (between v00 and v10)
-            if ((v00 >= targetHeight) !== (v10 >= targetHeight)) {
-                edges['bottom'] = interpolate(x, y, v00, x + 1, y, v10, targetHeight);
-            }
-            // Right edge (between v10 and v11)
-            if ((v10 >= targetHeight) !== (v11 >= targetHeight)) {
-                edges['right'] = interpolate(x + 1, y, v10, x + 1, y + 1, v11, targetHeight);
-            }
-            // Top edge (between v11 and v01)
-            if ((v11 >= targetHeight) !== (v01 >= targetHeight)) {
-                edges['top'] = interpolate(x + 1, y + 1, v11, x, y + 1, v01, targetHeight);
-            }
-            // Left edge (between v01 and v00)
-            if ((v01 >= targetHeight) !== (v00 >= targetHeight)) {
-                edges['left'] = interpolate(x, y + 1, v01, x, y, v00, targetHeight);
-            }
-
-            // Connect edges based on case
-            const edgeKeys = Object.keys(edges);
-            if (edgeKeys.length >= 2) {
-                // Simple connection for non-ambiguous cases
-                if (edgeKeys.length === 2) {
-                    lines.push([edges[edgeKeys[0]], edges[edgeKeys[1]]]);
-                } else if (edgeKeys.length === 4) {
-                    // Saddle point - use average to determine
-                    const avg = (v00 + v10 + v11 + v01) / 4;
-                    if (avg >= targetHeight) {
-                        lines.push([edges['bottom'], edges['left']]);
-                        lines.push([edges['top'], edges['right']]);
-                    } else {
-                        lines.push([edges['bottom'], edges['right']]);
-                        lines.push([edges['top'], edges['left']]);
-                    }
-                }
-            }
-        }
-    }
-
-    return lines;
-};
-
-export const Contours: React.FC<ContoursProps> = ({ terrainData, exaggeration, shape, config }) => {
+export const Contours: React.FC<ContoursProps> = ({ terrainData, exaggeration, shape, config, onLevelsChange }) => {
+    const bounds = useBounds();
     const {
         ENABLED, INTERVAL, MAJOR_INTERVAL,
         MINOR_LINE_COLOR, MINOR_LINE_WIDTH, MINOR_LINE_OPACITY,
         MAJOR_LINE_COLOR, MAJOR_LINE_WIDTH, MAJOR_LINE_OPACITY,
-        SHOW_LABELS, LABEL_COLOR, LABEL_BASE_SIZE
+        SHOW_LABELS, LABEL_COLOR, LABEL_BASE_SIZE, SMOOTHING, MODE,
+        LABEL_SPACING, LABEL_PADDING, LABEL_CHAR_WIDTH, LABEL_MAX_COUNT,
+        SHOW_DEPRESSIONS, HACHURE_SPACING, HACHURE_LENGTH,
+        SHOW_SPOT_HEIGHTS, SPOT_HEIGHT_PROMINENCE, SPOT_HEIGHT_COLOR, SPOT_HEIGHT_SIZE
     } = useMemo(() => {
         const defaults = TERRAIN_CONFIG.CONTOURS;
         return {
@@ -140,99 +79,204 @@ export const Contours: React.FC<ContoursProps> = ({ terrainData, exaggeration, s
             SHOW_LABELS: config?.showLabels ?? defaults.SHOW_LABELS,
             MINOR_LINE_OPACITY: config?.minorOpacity ?? defaults.MINOR_LINE_OPACITY,
             MAJOR_LINE_OPACITY: config?.majorOpacity ?? defaults.MAJOR_LINE_OPACITY,
+            SMOOTHING: config?.smoothing ?? defaults.SMOOTHING,
+            MODE: config?.mode ?? defaults.MODE,
+            SHOW_DEPRESSIONS: config?.showDepressions ?? defaults.SHOW_DEPRESSIONS,
+            SHOW_SPOT_HEIGHTS: config?.showSpotHeights ?? defaults.SHOW_SPOT_HEIGHTS,
+            SPOT_HEIGHT_PROMINENCE: config?.spotHeightProminence ?? defaults.SPOT_HEIGHT_PROMINENCE,
         };
     }, [config]);
 
-    const contourData = useMemo(() => {
-        if (!ENABLED || !terrainData) return { lines: [], labels: [], minHeight: 0, unitsPerMeter: 1 };
+    // Extraction only depends on the DEM and the intervals, not on exaggeration or shape
+    const contours = useMemo(
+        () => ENABLED && terrainData ? generateContours(terrainData, { interval: INTERVAL, majorInterval: MAJOR_INTERVAL, smoothing: SMOOTHING }) : [],
+        [terrainData, ENABLED, INTERVAL, MAJOR_INTERVAL, SMOOTHING]
+    );
+
+    // The shader draws the lines itself: nothing to cut under labels, no line geometry
+    const drawsGeometry = MODE === 'geometry';
 
-        const { width, height, data, minHeight, maxHeight } = terrainData;
-        const allLines: { elevation: number; segments: [number, number][][]; isMajor: boolean }[] = [];
-        const labels: { position: [number, number, number]; text: string }[] = [];
+    const contourData = useMemo(() => {
+        if (!ENABLED || !terrainData) return { lines: [], drawnLines: [], labels: [], hachures: [], minHeight: 0, unitsPerMeter: 1 };
 
-        // Calculate terrain dimensions in meters (EPSG:3857)
-        const dimensions = calculateBoundsDimensions(TERRAIN_CONFIG.BOUNDS);
-        // Scale factor: terrain is normalized to 100 units, but real size is in meters
-        const unitsPerMeter = 100 / dimensions.width;
+        const { width, height, data, minHeight } = terrainData;
+        const allLines: ContourLevel[] = [];
+        const drawnLines: ContourLevel[] = []; // Same lines with gaps under the labels
+        const labels: ContourLabel[] = [];
+        const depressions: { elevation: number; isMajor: boolean; ring: [number, number][] }[] = [];
 
-        // Calculate contour elevations
-        const startElev = Math.ceil(minHeight / INTERVAL) * INTERVAL;
-        const endElev = Math.floor(maxHeight / INTERVAL) * INTERVAL;
+        // Terrain size in scene units (true aspect ratio, longest side 100 units)
+        const world = getWorldExtents(bounds);
+        // Scale factor: real size is in meters
+        const unitsPerMeter = world.unitsPerMeter;
 
         // Scale factors to map grid coordinates to world coordinates
-        // Terrain is 100x100 units centered at origin
-        // PlaneGeometry has Y from +50 (row 0) to -50 (row height-1)
-        const scaleX = 100 / (width - 1);
-        const scaleY = 100 / (height - 1);
+        // Terrain is world.width x world.height units centered at origin
+        // Y runs from +halfHeight (row 0) to -halfHeight (row height-1)
+        const scaleX = world.width / (width - 1);
+        const scaleY = world.height / (height - 1);
 
         // Calculate height multiplier:
         // - unitsPerMeter converts meters to display units
         // - exaggeration/100 applies vertical exaggeration
         const heightMultiplier = unitsPerMeter * (exaggeration / 100);
 
-        for (let elev = startElev; elev <= endElev; elev += INTERVAL) {
-            const segments = extractContourLines(data, width, height, elev);
-            if (segments.length > 0) {
-                const isMajor = elev % MAJOR_INTERVAL === 0;
-
-                // Transform segments to world coordinates and clip to shape
-                // X: 0 -> -50, width-1 -> 50
-                // Y: 0 -> 50 (top), height-1 -> -50 (bottom) - flip Y!
-                const worldSegments: [number, number][][] = [];
-
-                segments.forEach(seg => {
-                    const transformedSeg = seg.map(([x, y]) => [
-                        x * scaleX - 50,
-                        50 - y * scaleY  // Flip Y axis
-                    ] as [number, number]);
-
-                    // Filter points based on shape
-                    const clippedSeg: [number, number][] = [];
-                    transformedSeg.forEach(([x, y]) => {
-                        if (isPointInShape(x, y, shape)) {
-                            clippedSeg.push([x, y]);
-                        } else if (clippedSeg.length > 0) {
-                            // When we exit the shape, save current segment and start new
-                            if (clippedSeg.length >= 2) {
-                                worldSegments.push([...clippedSeg]);
-                            }
-                            clippedSeg.length = 0;
-                        }
-                    });
-                    // Push remaining clipped segment
-                    if (clippedSeg.length >= 2) {
-                        worldSegments.push(clippedSeg);
-                    }
-                });
-
-                if (worldSegments.length > 0) {
-                    allLines.push({ elevation: elev, segments: worldSegments, isMajor });
-
-                    // Add label only for major contours
-                    if (isMajor && SHOW_LABELS && worldSegments.length > 0) {
-                        // Find a good position for label (middle of a segment)
-                        const midSegment = worldSegments[Math.floor(worldSegments.length / 2)];
-                        if (midSegment && midSegment.length >= 2) {
-                            const midPoint = [
-                                (midSegment[0][0] + midSegment[1][0]) / 2,
-                                (midSegment[0][1] + midSegment[1][1]) / 2
-                            ];
-                            // Z position: (height in meters) * unitsPerMeter * exaggeration
-                            const z = ((elev - minHeight) * heightMultiplier) + 0.3;
-                            labels.push({
-                                position: [midPoint[0], midPoint[1], z],
-                                text: `${elev}m`
-                            });
-                        }
-                    }
+        // Stitched polylines, grouped per elevation
+        const byElevation = new Map<number, { segments: [number, number][][]; isMajor: boolean }>();
+        contours.forEach(contour => {
+            let entry = byElevation.get(contour.elevation);
+            if (!entry) {
+                entry = { segments: [], isMajor: contour.isMajor };
+                byElevation.set(contour.elevation, entry);
+            }
+
+            // Transform to world coordinates and split where the line leaves the shape
+            // X: 0 -> -halfWidth, width-1 -> halfWidth
+            // Y: 0 -> halfHeight (top), height-1 -> -halfHeight (bottom) - flip Y!
+            const points = contour.points.map(([gx, gy]): [number, number] => [gx * scaleX - world.halfWidth, world.halfHeight - gy * scaleY]);
+            if (contour.isDepression && SHOW_DEPRESSIONS) {
+                depressions.push({ elevation: contour.elevation, isMajor: contour.isMajor, ring: points });
+            }
+            let run: [number, number][] = [];
+            points.forEach(point => {
+                if (isPointInShape(point[0], point[1], shape, world)) {
+                    run.push(point);
+                } else {
+                    if (run.length >= 2) entry!.segments.push(run);
+                    run = [];
                 }
+            });
+            if (run.length >= 2) entry.segments.push(run);
+        });
+
+        // Uphill direction in the terrain plane (scene units), from the nearest DEM node
+        const gradientAt = (x: number, y: number): [number, number] => {
+            const gx = Math.round(Math.max(1, Math.min(width - 2, (x + world.halfWidth) / scaleX)));
+            const gy = Math.round(Math.max(1, Math.min(height - 2, (world.halfHeight - y) / scaleY)));
+            return [
+                (data[gy * width + gx + 1] - data[gy * width + gx - 1]) * heightMultiplier / (2 * scaleX),
+                (data[(gy - 1) * width + gx] - data[(gy + 1) * width + gx]) * heightMultiplier / (2 * scaleY), // Rows grow southwards
+            ];
+        };
+
+        // Labels sit on the line, cut a gap into it and keep clear of each other
+        const placed: { x: number; y: number; radius: number }[] = [];
+        byElevation.forEach(({ segments, isMajor }, elevation) => {
+            if (segments.length === 0) return;
+            allLines.push({ elevation, segments, isMajor });
+            if (!isMajor || !SHOW_LABELS) {
+                drawnLines.push({ elevation, segments, isMajor });
+                return;
             }
-        }
 
-        return { lines: allLines, labels, minHeight, unitsPerMeter };
-    }, [terrainData, ENABLED, INTERVAL, MAJOR_INTERVAL, SHOW_LABELS, exaggeration, shape]);
+            const text = `${elevation}m`;
+            const halfWidth = (text.length * LABEL_BASE_SIZE * LABEL_CHAR_WIDTH) / 2;
+            const halfGap = halfWidth + LABEL_PADDING;
+            const cutSegments: [number, number][][] = [];
+            segments.forEach(line => {
+                const lengths = measureLine(line);
+                const total = lengths[line.length - 1];
+                const gaps: [number, number][] = [];
+                // Short lines get at most one label, in their middle
+                for (let s = Math.min(total / 2, LABEL_SPACING / 2); s <= total - halfGap && total >= halfGap * 4; s += LABEL_SPACING) {
+                    if (s < halfGap || labels.length >= LABEL_MAX_COUNT) continue;
+                    const { point: [x, y] } = pointAlong(line, lengths, s);
+                    if (placed.some(p => Math.hypot(p.x - x, p.y - y) < p.radius + halfGap)) continue;
+
+                    // Skip bends: the line must stay close to the chord under the text
+                    const a = pointAlong(line, lengths, s - halfWidth);
+                    const b = pointAlong(line, lengths, s + halfWidth);
+                    const chord = Math.hypot(b.point[0] - a.point[0], b.point[1] - a.point[1]);
+                    if (chord < halfWidth * 1.6) continue;
+                    let bend = 0;
+                    for (let i = a.index + 1; i <= b.index; i++) {
+                        const [px, py] = line[i];
+                        bend = Math.max(bend, Math.abs((b.point[0] - a.point[0]) * (a.point[1] - py) - (a.point[0] - px) * (b.point[1] - a.point[1])) / chord);
+                    }
+                    if (bend > LABEL_BASE_SIZE * 0.5) continue;
+
+                    // Baseline along the line, text top uphill, lying on the slope
+                    const [gradX, gradY] = gradientAt(x, y);
+                    const normal = new THREE.Vector3(-gradX, -gradY, 1).normalize();
+                    let tangent = new THREE.Vector3(b.point[0] - a.point[0], b.point[1] - a.point[1], 0);
+                    tangent.addScaledVector(normal, -tangent.dot(normal)).normalize(); // Into the slope plane, so the basis is orthonormal
+                    let up = new THREE.Vector3().crossVectors(normal, tangent);
+                    if (up.x * gradX + up.y * gradY < 0) {
+                        tangent = tangent.negate();
+                        up = up.negate();
+                    }
+                    const quaternion = new THREE.Quaternion().setFromRotationMatrix(new THREE.Matrix4().makeBasis(tangent, up, normal));
+                    // Z position: (height in meters) * unitsPerMeter * exaggeration
+                    const z = ((elevation - minHeight) * heightMultiplier) + 0.1;
+                    labels.push({
+                        position: [x + normal.x * 0.05, y + normal.y * 0.05, z + normal.z * 0.05],
+                        quaternion: [quaternion.x, quaternion.y, quaternion.z, quaternion.w],
+                        text
+                    });
+                    placed.push({ x, y, radius: halfGap });
+                    gaps.push([s - halfGap, s + halfGap]);
+                }
+                cutSegments.push(...(drawsGeometry ? cutLine(line, lengths, gaps) : [line]));
+            });
+            drawnLines.push({ elevation, segments: cutSegments, isMajor });
+        });
 
+        // Depression ticks: short strokes pointing downhill into the ring, evenly spread around it
+        const hachures: { isMajor: boolean; segment: [number, number, number][] }[] = [];
+        depressions.forEach(({ elevation, isMajor, ring }) => {
+            let area = 0;
+            for (let i = 0; i < ring.length - 1; i++) area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+            const inward = Math.sign(area); // Counter-clockwise: the inside is on the left
+            const lengths = measureLine(ring);
+            const total = lengths[ring.length - 1];
+            const count = Math.max(3, Math.round(total / HACHURE_SPACING));
+            const z = ((elevation - minHeight) * heightMultiplier) + 0.1;
+            for (let k = 0; k < count; k++) {
+                const s = (k + 0.5) * total / count;
+                const { point: [x, y], index } = pointAlong(ring, lengths, s);
+                if (!isPointInShape(x, y, shape, world)) continue;
+                if (placed.some(p => Math.hypot(p.x - x, p.y - y) < p.radius)) continue;
+                const [x0, y0] = ring[index];
+                const [x1, y1] = ring[Math.min(index + 1, ring.length - 1)];
+                const length = Math.hypot(x1 - x0, y1 - y0) || 1;
+                const nx = -(y1 - y0) / length * inward;
+                const ny = (x1 - x0) / length * inward;
+                hachures.push({ isMajor, segment: [[x, y, z], [x + nx * HACHURE_LENGTH, y + ny * HACHURE_LENGTH, z]] });
+            }
+        });
 
+        return { lines: allLines, drawnLines, labels, hachures, minHeight, unitsPerMeter };
+    }, [terrainData, contours, ENABLED, drawsGeometry, SHOW_LABELS, LABEL_BASE_SIZE, LABEL_SPACING, LABEL_PADDING, LABEL_CHAR_WIDTH, LABEL_MAX_COUNT, SHOW_DEPRESSIONS, HACHURE_SPACING, HACHURE_LENGTH, exaggeration, shape, bounds]);
+
+    // Spot heights depend on the DEM, the prominence threshold and the area shape, not on exaggeration
+    const spotHeights = useMemo(() => {
+        if (!ENABLED || !SHOW_SPOT_HEIGHTS || !terrainData) return [];
+        const { width, height } = terrainData;
+        const world = getWorldExtents(bounds);
+        // Grid column / row to terrain plane coordinates
+        const toPlane = (gx: number, gy: number): [number, number] => [
+            gx / (width - 1) * world.width - world.halfWidth,
+            world.halfHeight - gy / (height - 1) * world.height,
+        ];
+        return findSpotHeights(terrainData, SPOT_HEIGHT_PROMINENCE, undefined, (gx, gy) => isPointInShape(...toPlane(gx, gy), shape, world))
+            .map(spot => ({ ...spot, position: toPlane(spot.x, spot.y) }));
+    }, [terrainData, ENABLED, SHOW_SPOT_HEIGHTS, SPOT_HEIGHT_PROMINENCE, shape, bounds]);
+
+    const spotMarkers = useMemo((): SpotHeightMarker[] => {
+        if (spotHeights.length === 0) return [];
+        const heightMultiplier = getWorldExtents(bounds).unitsPerMeter * (exaggeration / 100);
+        return spotHeights.map(spot => ({
+            position: [spot.position[0], spot.position[1], (spot.elevation - terrainData.minHeight) * heightMultiplier],
+            text: Math.round(spot.elevation).toString(),
+            type: spot.type,
+        }));
+    }, [spotHeights, terrainData, exaggeration, bounds]);
+
+
+
+    useEffect(() => {
+        onLevelsChange?.(contourData.lines);
+    }, [contourData, onLevelsChange]);
 
     // Get scale factors from contour data
     const { minHeight, unitsPerMeter } = contourData;
@@ -244,7 +288,7 @@ export const Contours: React.FC<ContoursProps> = ({ terrainData, exaggeration, s
         const minorPoints: number[] = [];
         const majorPoints: number[] = [];
 
-        contourData.lines.forEach((contour) => {
+        (drawsGeometry ? contourData.drawnLines : []).forEach((contour) => {
             const z = ((contour.elevation - minHeight) * heightMultiplier) + 0.1;
             const targetArray = contour.isMajor ? majorPoints : minorPoints;
 
@@ -262,6 +306,11 @@ export const Contours: React.FC<ContoursProps> = ({ terrainData, exaggeration, s
             });
         });
 
+        // Depression ticks go with the lines of their level, in both modes
+        contourData.hachures.forEach(({ isMajor, segment }) => {
+            (isMajor ? majorPoints : minorPoints).push(...segment[0], ...segment[1]);
+        });
+
         const minorGeo = new THREE.BufferGeometry();
         if (minorPoints.length > 0) {
             minorGeo.setAttribute('position', new THREE.Float32BufferAttribute(minorPoints, 3));
@@ -273,7 +322,7 @@ export const Contours: React.FC<ContoursProps> = ({ terrainData, exaggeration, s
         }
 
         return { minorGeometry: minorGeo, majorGeometry: majorGeo };
-    }, [contourData, minHeight, heightMultiplier]);
+    }, [contourData, drawsGeometry, minHeight, heightMultiplier]);
 
     return (
         <group>
@@ -301,27 +350,43 @@ export const Contours: React.FC<ContoursProps> = ({ terrainData, exaggeration, s
                 </lineSegments>
             )}
 
-            {/* Labels - billboard style, always facing camera */}
-            {SHOW_LABELS && contourData.labels.slice(0, 30).map((label, idx) => (
-                <Billboard
+            {/* Labels - draped along the line, reading uphill */}
+            {SHOW_LABELS && contourData.labels.map((label, idx) => (
+                <Text
                     key={`label-${idx}`}
-                    position={[label.position[0], label.position[1], label.position[2]]}
-                    follow={true}
-                    lockX={false}
-                    lockY={false}
-                    lockZ={false}
+                    position={label.position}
+                    quaternion={label.quaternion}
+                    fontSize={LABEL_BASE_SIZE}
+                    color={LABEL_COLOR}
+                    anchorX="center"
+                    anchorY="middle"
+                    outlineWidth={0.02}
+                    outlineColor="#ffffff"
                 >
-                    <Text
-                        fontSize={LABEL_BASE_SIZE}
-                        color={LABEL_COLOR}
-                        anchorX="center"
-                        anchorY="bottom"
-                        outlineWidth={0.02}
-                        outlineColor="#ffffff"
-                    >
-                        {label.text}
-                    </Text>
-                </Billboard>
+                    {label.text}
+                </Text>
+            ))}
+
+            {/* Spot heights - cone up for peaks, down for pits, with a camera-facing elevation */}
+            {spotMarkers.map((spot, idx) => (
+                <group key={`spot-${idx}`} position={spot.position}>
+                    <mesh position={[0, 0, 0.15]} rotation={[spot.type === 'peak' ? Math.PI / 2 : -Math.PI / 2, 0, 0]}>
+                        <coneGeometry args={[0.1, 0.2, 12]} />
+                        <meshBasicMaterial color={SPOT_HEIGHT_COLOR} />
+                    </mesh>
+                    <Billboard position={[0, 0, 0.3 + SPOT_HEIGHT_SIZE / 2]}>
+                        <Text
+                            fontSize={SPOT_HEIGHT_SIZE}
+                            color={SPOT_HEIGHT_COLOR}
+                            anchorX="center"
+                            anchorY="middle"
+                            outlineWidth={0.02}
+                            outlineColor="#ffffff"
+                        >
+                            {spot.text}
+                        </Text>
+                    </Billboard>
+                </group>
             ))}
         </group>
     );
@@ -0,0 +1,116 @@
+import React, { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { Line } from '@react-three/drei';
+import { TERRAIN_CONFIG } from '../config';
+import { TerrainData } from '../utils/terrain';
+import { computeCutFill, CutFill as CutFillResult, DesignSurface } from '../utils/terrainAnalysis';
+import { createSurfaceDrape } from '../utils/drape';
+import { useBounds } from './BoundsContext';
+
+export interface CutFillConfig {
+    vertices: { lat: number; lon: number }[];
+    design: DesignSurface;
+}
+
+interface CutFillProps {
+    terrainData: TerrainData;
+    exaggeration: number;
+    config: CutFillConfig;
+    onOverlayChange: (texture: THREE.Texture | null) => void;
+    onResult?: (result: CutFillResult | null) => void;
+}
+
+const parseColor = (hex: string) => {
+    const color = new THREE.Color(hex);
+    return [Math.round(color.r * 255), Math.round(color.g * 255), Math.round(color.b * 255)];
+};
+
+/**
+ * Earthwork between the DEM and a design surface: cut (red) and fill (blue) draped as an overlay,
+ * with the drawn polygon and the design plane points.
+ */
+export const CutFill: React.FC<CutFillProps> = ({ terrainData, exaggeration, config, onOverlayChange, onResult }) => {
+    const bounds = useBounds();
+    const { vertices, design } = config;
+
+    const result = useMemo(
+        () => vertices.length >= 3 ? computeCutFill(terrainData, bounds, vertices, design) : null,
+        [terrainData, bounds, vertices, design]
+    );
+
+    useEffect(() => {
+        onResult?.(result);
+    }, [result, onResult]);
+
+    // Color intensity grows with the cut / fill depth
+    const texture = useMemo(() => {
+        if (!result) return null;
+        const { width, height, difference, maxCut, maxFill } = result;
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return null;
+
+        const { CUT_COLOR, FILL_COLOR, OPACITY, MIN_OPACITY } = TERRAIN_CONFIG.CUT_FILL;
+        const cutRgb = parseColor(CUT_COLOR);
+        const fillRgb = parseColor(FILL_COLOR);
+        const image = ctx.createImageData(width, height);
+        for (let i = 0; i < difference.length; i++) {
+            const diff = difference[i];
+            if (Number.isNaN(diff) || diff === 0) continue;
+            const rgb = diff > 0 ? fillRgb : cutRgb;
+            const t = diff > 0 ? diff / maxFill : -diff / maxCut;
+            image.data[i * 4] = rgb[0];
+            image.data[i * 4 + 1] = rgb[1];
+            image.data[i * 4 + 2] = rgb[2];
+            image.data[i * 4 + 3] = Math.round((MIN_OPACITY + (OPACITY - MIN_OPACITY) * t) * 255);
+        }
+        ctx.putImageData(image, 0, 0);
+
+        const tex = new THREE.CanvasTexture(canvas);
+        tex.colorSpace = THREE.SRGBColorSpace;
+        return tex;
+    }, [result]);
+
+    useEffect(() => {
+        onOverlayChange(texture);
+        return () => {
+            onOverlayChange(null);
+            texture?.dispose();
+        };
+    }, [texture, onOverlayChange]);
+
+    const drape = useMemo(() => createSurfaceDrape(terrainData, exaggeration, bounds), [terrainData, exaggeration, bounds]);
+
+    // Polygon edges draped on the ground (closed once it has three vertices)
+    const outline = useMemo(() => drape.path(vertices, true), [vertices, drape]);
+
+    const markers = useMemo(() => ({
+        vertices: vertices.map(v => drape.onGround(v.lat, v.lon)),
+        // Plane points sit at their design elevation
+        planePoints: design.type === 'plane'
+            ? design.points.map(p => p.elevation === null ? drape.onGround(p.lat, p.lon) : drape.atElevation(p.lat, p.lon, p.elevation))
+            : [],
+    }), [vertices, design, drape]);
+
+    const { OUTLINE_COLOR, PLANE_POINT_COLOR } = TERRAIN_CONFIG.CUT_FILL;
+
+    return (
+        <group>
+            {outline.length > 1 && <Line points={outline} color={OUTLINE_COLOR} lineWidth={2} />}
+            {markers.vertices.map((position, i) => (
+                <mesh key={`vertex-${i}`} position={position}>
+                    <sphereGeometry args={[0.2, 12, 12]} />
+                    <meshBasicMaterial color={OUTLINE_COLOR} />
+                </mesh>
+            ))}
+            {markers.planePoints.map((position, i) => (
+                <mesh key={`plane-${i}`} position={position}>
+                    <octahedronGeometry args={[0.35]} />
+                    <meshBasicMaterial color={PLANE_POINT_COLOR} />
+                </mesh>
+            ))}
+        </group>
+    );
+};
@@ -2,9 +2,11 @@ import React, { useRef, useMemo, useEffect } from 'react';
 import { useFrame, useLoader } from '@react-three/fiber';
 import * as THREE from 'three';
 import { TERRAIN_CONFIG } from '../config';
-import { latLonToWorld, getTerrainHeight, calculateBoundsDimensions } from '../utils/terrain';
+import { getTerrainHeight, TerrainData } from '../utils/terrain';
+import { getWorldExtents, latLonToWorld } from '../utils/projection';
 
 import { SmokePlume } from './SmokePlume';
+import { useBounds } from './BoundsContext';
 
 // Define matched interfaces for Props
 interface WindLayerConfig {
@@ -44,15 +46,8 @@ interface FireConfigType {
 
 interface FireProps {
     exaggeration: number;
-    terrainData?: {
-        width: number;
-        height: number;
-        data: Float32Array;
-        minHeight: number;
-        maxHeight: number;
-    };
+    terrainData?: TerrainData;
     configs?: FireConfigType[];
-    bounds?: typeof TERRAIN_CONFIG.BOUNDS;
     windConfig?: WindConfig;
 }
 
@@ -263,8 +258,8 @@ const FireMesh: React.FC<{
     );
 };
 
-export const Fire: React.FC<FireProps> = ({ exaggeration, terrainData, configs, bounds, windConfig }) => {
-    const activeBounds = TERRAIN_CONFIG.BOUNDS; // ALWAYS use full bounds to match static geometry
+export const Fire: React.FC<FireProps> = ({ exaggeration, terrainData, configs, windConfig }) => {
+    const activeBounds = useBounds(); // ALWAYS use full bounds to match static geometry
 
     // Load fire texture
     const fireTex = useLoader(THREE.TextureLoader, TERRAIN_CONFIG.FIRE_TEXTURE_URL);
@@ -279,10 +274,8 @@ export const Fire: React.FC<FireProps> = ({ exaggeration, terrainData, configs,
     }, [fireTex]);
 
     // Calculate baseScale to match Terrain's vertical scaling
-    const baseScale = useMemo(() => {
-        const dims = calculateBoundsDimensions(TERRAIN_CONFIG.BOUNDS);
-        return 100 / dims.width;
-    }, []);
+    const world = useMemo(() => getWorldExtents(activeBounds), [activeBounds]);
+    const baseScale = world.unitsPerMeter;
 
     // Create fire instances for each location in each config
     const fireInstances = useMemo(() => {
@@ -308,7 +301,7 @@ export const Fire: React.FC<FireProps> = ({ exaggeration, terrainData, configs,
                 // Use ACTIVE bounds to calculate World Position
                 const [worldX, worldY] = latLonToWorld(loc.lat, loc.lon, activeBounds);
 
-                if (Math.abs(worldX) > 60 || Math.abs(worldY) > 60) {
+                if (Math.abs(worldX) > world.halfWidth * 1.2 || Math.abs(worldY) > world.halfHeight * 1.2) {
                     return; // Outside view
                 }
 
@@ -342,7 +335,7 @@ export const Fire: React.FC<FireProps> = ({ exaggeration, terrainData, configs,
         });
 
         return allInstances;
-    }, [configs, terrainData, exaggeration, activeBounds, baseScale]);
+    }, [configs, terrainData, exaggeration, activeBounds, world, baseScale]);
 
     if (fireInstances.length === 0 || !fireTex) return null;
 
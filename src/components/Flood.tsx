@@ -0,0 +1,152 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import { useFrame } from '@react-three/fiber';
+import { TERRAIN_CONFIG } from '../config';
+import { TerrainData } from '../utils/terrain';
+import { getWorldExtents, latLonToUV } from '../utils/projection';
+import { computeInundation } from '../utils/hydrology';
+import { useBounds } from './BoundsContext';
+
+export interface FloodConfig {
+    level: number;                          // Water elevation (m)
+    seed: { lat: number; lon: number } | null; // Bathtub fill from this point; null floods every cell below the level
+}
+
+export interface FloodSummary {
+    areaKm2: number;
+    volumeM3: number;
+    maxDepth: number;
+}
+
+interface FloodProps {
+    terrainData: TerrainData;
+    exaggeration: number;
+    shape: 'rectangle' | 'ellipse';
+    config: FloodConfig;
+    onResult?: (summary: FloodSummary | null) => void;
+}
+
+const WaterShader = {
+    vertexShader: `
+        varying vec2 vUv;
+        void main() {
+            vUv = uv;
+            gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+        }
+    `,
+    fragmentShader: `
+        uniform sampler2D mask;
+        uniform vec3 color;
+        uniform float opacity;
+        uniform float time;
+        uniform float density;
+        varying vec2 vUv;
+        void main() {
+            if (texture2D(mask, vUv).a < 0.5) discard;
+
+            // Two crossing swells bending a fine ripple pattern
+            vec2 p = vUv * density;
+            float swell = sin(p.x * 0.35 + time * 0.6) + sin(p.y * 0.45 - time * 0.8 + p.x * 0.2);
+            float ripple = 0.5 + 0.5 * sin(dot(p, vec2(0.8, 1.1)) + time * 2.0 + swell * 1.5);
+            vec3 water = mix(color, vec3(1.0), pow(ripple, 12.0) * 0.4);
+            gl_FragColor = vec4(water, opacity);
+            #include <colorspace_fragment>
+        }
+    `,
+};
+
+/**
+ * Water surface at a fixed elevation, clipped to the flooded cells of the overview DEM.
+ * The shoreline comes from the depth test against the terrain, the mask only trims the plane
+ * to the flooded basin and the area shape.
+ */
+export const Flood: React.FC<FloodProps> = ({ terrainData, exaggeration, shape, config, onResult }) => {
+    const bounds = useBounds();
+    const materialRef = useRef<THREE.ShaderMaterial>(null);
+    const { level, seed } = config;
+
+    const inundation = useMemo(() => {
+        const { width, height } = terrainData;
+        let seedIndex: number | null = null;
+        if (seed) {
+            const { u, v } = latLonToUV(seed.lat, seed.lon, bounds);
+            const x = Math.round(Math.max(0, Math.min(1, u)) * (width - 1));
+            const y = Math.round(Math.max(0, Math.min(1, v)) * (height - 1));
+            seedIndex = y * width + x;
+        }
+        return computeInundation(terrainData, bounds, level, { shape, seed: seedIndex });
+    }, [terrainData, bounds, level, seed, shape]);
+
+    useEffect(() => {
+        const { areaKm2, volumeM3, maxDepth } = inundation;
+        onResult?.({ areaKm2, volumeM3, maxDepth });
+    }, [inundation, onResult]);
+
+    useEffect(() => () => onResult?.(null), [onResult]);
+
+    // Flooded cells grown by one cell, so the plane reaches under the shoreline
+    const maskTexture = useMemo(() => {
+        const { width, height } = terrainData;
+        const { mask } = inundation;
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return null;
+
+        const image = ctx.createImageData(width, height);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                let wet = false;
+                for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1) && !wet; ny++) {
+                    for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
+                        if (mask[ny * width + nx]) {
+                            wet = true;
+                            break;
+                        }
+                    }
+                }
+                if (wet) image.data[(y * width + x) * 4 + 3] = 255;
+            }
+        }
+        ctx.putImageData(image, 0, 0);
+        return new THREE.CanvasTexture(canvas);
+    }, [inundation, terrainData]);
+
+    useEffect(() => () => maskTexture?.dispose(), [maskTexture]);
+
+    const uniforms = useMemo(() => ({
+        mask: { value: maskTexture },
+        color: { value: new THREE.Color(TERRAIN_CONFIG.FLOOD.WATER_COLOR) },
+        opacity: { value: TERRAIN_CONFIG.FLOOD.OPACITY },
+        time: { value: 0 },
+        density: { value: TERRAIN_CONFIG.FLOOD.WAVE_DENSITY },
+    }), [maskTexture]);
+
+    useFrame((state) => {
+        if (materialRef.current) {
+            materialRef.current.uniforms.time.value = state.clock.elapsedTime * TERRAIN_CONFIG.FLOOD.WAVE_SPEED;
+        }
+    });
+
+    const world = useMemo(() => getWorldExtents(bounds), [bounds]);
+    const z = (level - terrainData.minHeight) * (exaggeration / 100) * world.unitsPerMeter;
+
+    if (!maskTexture || inundation.areaKm2 === 0) return null;
+
+    return (
+        // Terrain local space: the plane lies in XY, Z is up
+        <mesh position={[0, 0, z]} renderOrder={3}>
+            <planeGeometry args={[world.width, world.height]} />
+            <shaderMaterial
+                ref={materialRef}
+                uniforms={uniforms}
+                vertexShader={WaterShader.vertexShader}
+                fragmentShader={WaterShader.fragmentShader}
+                transparent
+                depthWrite={false}
+                side={THREE.DoubleSide}
+            />
+        </mesh>
+    );
+};
@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import * as THREE from 'three';
+import { Line } from '@react-three/drei';
+import { TERRAIN_CONFIG } from '../config';
+import { TerrainData } from '../utils/terrain';
+import { latLonToUV } from '../utils/projection';
+import { delineateWatershed, extractStreams, FlowRouting, snapPourPoint } from '../utils/hydrology';
+import { getCellSize } from '../utils/terrainAnalysis';
+import { maskToPolygons } from '../utils/rasterOutline';
+import { Feature, gridToPosition, polygonsToFeature } from '../utils/geojson';
+import { terrainWorkerPool } from '../utils/workerPool';
+import { CancellationToken, CancelledError } from '../utils/cancellation';
+import { createSurfaceDrape } from '../utils/drape';
+import { useBounds } from './BoundsContext';
+
+export interface HydrologyConfig {
+    showStreams: boolean;
+    thresholdKm2: number;
+    pourPoint?: { lat: number; lon: number } | null;
+}
+
+export interface WatershedSummary {
+    outlet: { lat: number; lon: number }; // Snapped pour point
+    areaKm2: number;
+    meanSlope: number;    // Degrees
+    minElevation: number;
+    maxElevation: number;
+    feature: Feature;     // Catchment polygon for GeoJSON export
+}
+
+interface HydrologyProps {
+    terrainData: TerrainData;
+    exaggeration: number;
+    config: HydrologyConfig;
+    slope: Float32Array | null; // Degrees, from the terrain's slopeAspect worker job; the watershed summary waits for it
+    onOverlayChange?: (texture: THREE.Texture | null) => void;
+    onWatershedResult?: (summary: WatershedSummary | null) => void;
+}
+
+/**
+ * Drainage network and watershed draped on the terrain. Flow routing runs once per DEM in the worker pool,
+ * stream extraction and catchment delineation rerun on the main thread.
+ */
+export const Hydrology: React.FC<HydrologyProps> = ({ terrainData, exaggeration, config, slope, onOverlayChange, onWatershedResult }) => {
+    const bounds = useBounds();
+    const [routing, setRouting] = useState<FlowRouting | null>(null);
+    const { showStreams, thresholdKm2, pourPoint = null } = config;
+    const needsRouting = showStreams || !!pourPoint;
+
+    useEffect(() => {
+        setRouting(null);
+        if (!needsRouting) return;
+
+        const token = new CancellationToken();
+        const start = performance.now();
+        terrainWorkerPool.run<FlowRouting>({ type: 'flowRouting', terrainData, bounds }, token).then(result => {
+            console.log(`💧 Flow routing: ${result.width}x${result.height} cells in ${(performance.now() - start).toFixed(0)} ms`);
+            setRouting(result);
+        }).catch(error => {
+            if (error instanceof CancelledError) return;
+            console.error('Failed to compute flow routing:', error);
+        });
+
+        return () => token.cancel();
+    }, [terrainData, bounds, needsRouting]);
+
+    const streams = useMemo(() => routing && showStreams ? extractStreams(routing, thresholdKm2) : [], [routing, showStreams, thresholdKm2]);
+
+    // Grid (column, row) to terrain local space (Z up), on the DEM surface
+    const toLocal = useMemo(() => createSurfaceDrape(terrainData, exaggeration, bounds).atGrid, [terrainData, exaggeration, bounds]);
+
+    // One batched segment list per Strahler order
+    const linesByOrder = useMemo(() => {
+        const byOrder = new Map<number, [number, number, number][]>();
+        streams.forEach(segment => {
+            if (segment.order < TERRAIN_CONFIG.HYDROLOGY.MIN_ORDER) return;
+            let points = byOrder.get(segment.order);
+            if (!points) {
+                points = [];
+                byOrder.set(segment.order, points);
+            }
+            for (let i = 0; i < segment.points.length - 1; i++) {
+                points.push(toLocal(...segment.points[i]), toLocal(...segment.points[i + 1]));
+            }
+        });
+        return Array.from(byOrder.entries()).sort((a, b) => a[0] - b[0]);
+    }, [streams, toLocal]);
+
+    // Catchment of the snapped pour point
+    const watershed = useMemo(() => {
+        const { width, height, data } = terrainData;
+        // The slope raster may still belong to the previous DEM for one render
+        if (!routing || !pourPoint || !slope || slope.length !== data.length) return null;
+        const { dx, dy } = getCellSize(terrainData, bounds);
+        const { u, v } = latLonToUV(pourPoint.lat, pourPoint.lon, bounds);
+        const outlet = snapPourPoint(routing, u * (width - 1), v * (height - 1), TERRAIN_CONFIG.HYDROLOGY.SNAP_RADIUS_M / Math.min(dx, dy));
+        const mask = delineateWatershed(routing, outlet);
+
+        let cells = 0;
+        let slopeSum = 0;
+        let minElevation = Infinity;
+        let maxElevation = -Infinity;
+        for (let i = 0; i < mask.length; i++) {
+            if (!mask[i]) continue;
+            cells++;
+            slopeSum += slope[i];
+            minElevation = Math.min(minElevation, data[i]);
+            maxElevation = Math.max(maxElevation, data[i]);
+        }
+
+        const polygons = maskToPolygons(mask, width, height);
+        const outletX = outlet % width;
+        const outletY = Math.floor(outlet / width);
+        const [outletLon, outletLat] = gridToPosition(outletX, outletY, width, height, bounds);
+        const areaKm2 = cells * routing.cellArea / 1e6;
+        const meanSlope = slopeSum / cells;
+        const feature = polygonsToFeature(polygons, (x, y) => gridToPosition(x, y, width, height, bounds), {
+            name: 'Watershed',
+            outlet_lat: outletLat,
+            outlet_lon: outletLon,
+            area_km2: Number(areaKm2.toFixed(4)),
+            mean_slope_deg: Number(meanSlope.toFixed(2)),
+            min_elevation_m: Number(minElevation.toFixed(1)),
+            max_elevation_m: Number(maxElevation.toFixed(1)),
+        });
+        const summary: WatershedSummary = { outlet: { lat: outletLat, lon: outletLon }, areaKm2, meanSlope, minElevation, maxElevation, feature };
+        console.log(`💧 Watershed: ${summary.areaKm2.toFixed(2)} km², ${cells} cells`);
+        return { mask, polygons, outlet: [outletX, outletY] as [number, number], summary };
+    }, [routing, pourPoint, slope, terrainData, bounds]);
+
+    useEffect(() => {
+        onWatershedResult?.(watershed ? watershed.summary : null);
+    }, [watershed, onWatershedResult]);
+
+    // Translucent catchment fill handed to the terrain overlays
+    const texture = useMemo(() => {
+        if (!watershed) return null;
+        const { width, height } = terrainData;
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return null;
+
+        const color = new THREE.Color(TERRAIN_CONFIG.HYDROLOGY.WATERSHED_COLOR);
+        const alpha = Math.round(TERRAIN_CONFIG.HYDROLOGY.WATERSHED_OPACITY * 255);
+        const image = ctx.createImageData(width, height);
+        for (let i = 0; i < watershed.mask.length; i++) {
+            if (!watershed.mask[i]) continue;
+            image.data[i * 4] = Math.round(color.r * 255);
+            image.data[i * 4 + 1] = Math.round(color.g * 255);
+            image.data[i * 4 + 2] = Math.round(color.b * 255);
+            image.data[i * 4 + 3] = alpha;
+        }
+        ctx.putImageData(image, 0, 0);
+
+        const tex = new THREE.CanvasTexture(canvas);
+        tex.colorSpace = THREE.SRGBColorSpace;
+        return tex;
+    }, [watershed, terrainData]);
+
+    useEffect(() => {
+        if (!onOverlayChange) return;
+        onOverlayChange(texture);
+        return () => {
+            onOverlayChange(null);
+            texture?.dispose();
+        };
+    }, [texture, onOverlayChange]);
+
+    const outline = useMemo(() => {
+        if (!watershed) return [];
+        return watershed.polygons.flatMap(polygon => polygon.map(ring => ring.map(([x, y]) => toLocal(x, y))));
+    }, [watershed, toLocal]);
+
+    return (
+        <group>
+            {showStreams && linesByOrder.map(([order, points]) => (
+                <Line
+                    key={order}
+                    points={points}
+                    segments
+                    color={TERRAIN_CONFIG.HYDROLOGY.STREAM_COLOR}
+                    lineWidth={order * TERRAIN_CONFIG.HYDROLOGY.LINE_WIDTH_PER_ORDER}
+                />
+            ))}
+            {outline.map((points, i) => (
+                <Line key={`outline-${i}`} points={points} color={TERRAIN_CONFIG.HYDROLOGY.WATERSHED_OUTLINE_COLOR} lineWidth={2} />
+            ))}
+            {watershed && (
+                <mesh position={toLocal(...watershed.outlet)}>
+                    <sphereGeometry args={[0.3, 16, 16]} />
+                    <meshBasicMaterial color={TERRAIN_CONFIG.HYDROLOGY.WATERSHED_OUTLINE_COLOR} />
+                </mesh>
+            )}
+        </group>
+    );
+};
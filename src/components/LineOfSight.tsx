@@ -0,0 +1,91 @@
+import React, { useEffect, useMemo } from 'react';
+import { Line } from '@react-three/drei';
+import { TERRAIN_CONFIG } from '../config';
+import { TerrainData } from '../utils/terrain';
+import { computeLineOfSight, LineOfSight as LineOfSightResult, SightPoint } from '../utils/terrainAnalysis';
+import { createSurfaceDrape } from '../utils/drape';
+import { useBounds } from './BoundsContext';
+
+export interface LineOfSightConfig {
+    start: { lat: number; lon: number } | null;
+    end: { lat: number; lon: number } | null;
+    startHeight: number;
+    endHeight: number;
+}
+
+interface LineOfSightProps {
+    terrainData: TerrainData;
+    exaggeration: number;
+    config: LineOfSightConfig;
+    onResult?: (result: LineOfSightResult | null) => void;
+}
+
+/**
+ * Sight line between two picked points: green up to the first obstruction, red beyond it.
+ * Sampled on the overview DEM (one sample per cell), cheap enough to run on the main thread.
+ */
+export const LineOfSight: React.FC<LineOfSightProps> = ({ terrainData, exaggeration, config, onResult }) => {
+    const bounds = useBounds();
+    const { start, end, startHeight, endHeight } = config;
+
+    const result = useMemo(() => {
+        if (!start || !end) return null;
+        const from: SightPoint = { ...start, height: startHeight };
+        const to: SightPoint = { ...end, height: endHeight };
+        return computeLineOfSight(terrainData, bounds, from, to);
+    }, [terrainData, bounds, start, end, startHeight, endHeight]);
+
+    useEffect(() => {
+        if (result) {
+            console.log(`📡 Line of sight ${(result.distance / 1000).toFixed(2)} km: ${result.blocked ? `blocked at ${(result.obstruction!.distance / 1000).toFixed(2)} km` : 'clear'}`);
+        }
+        onResult?.(result);
+    }, [result, onResult]);
+
+    // Scene positions (terrain local space, Z up) matching the chunk heights
+    const geometry = useMemo(() => {
+        const drape = createSurfaceDrape(terrainData, exaggeration, bounds);
+
+        // End points at their height above ground
+        const markers: [number, number, number][] = [];
+        ([[start, startHeight], [end, endHeight]] as const).forEach(([point, offset]) => {
+            if (point) markers.push(drape.onGround(point.lat, point.lon, offset));
+        });
+        if (!result) return { markers, clear: null, blocked: null, obstruction: null };
+
+        const points = result.samples.map(sample => drape.atElevation(sample.lat, sample.lon, sample.sight));
+        const split = result.blocked ? result.obstructionIndex : points.length - 1;
+        const obstruction = result.obstruction ? drape.atElevation(result.obstruction.lat, result.obstruction.lon, result.obstruction.ground) : null;
+        return {
+            markers,
+            clear: points.slice(0, split + 1),
+            blocked: result.blocked ? points.slice(split) : null,
+            obstruction,
+        };
+    }, [result, start, end, startHeight, endHeight, terrainData, exaggeration, bounds]);
+
+    const { CLEAR_COLOR, BLOCKED_COLOR, LINE_WIDTH } = TERRAIN_CONFIG.LINE_OF_SIGHT;
+
+    return (
+        <group>
+            {geometry.markers.map((position, i) => (
+                <mesh key={i} position={position}>
+                    <sphereGeometry args={[0.3, 16, 16]} />
+                    <meshBasicMaterial color="#ffffff" />
+                </mesh>
+            ))}
+            {geometry.clear && geometry.clear.length > 1 && (
+                <Line points={geometry.clear} color={CLEAR_COLOR} lineWidth={LINE_WIDTH} />
+            )}
+            {geometry.blocked && geometry.blocked.length > 1 && (
+                <Line points={geometry.blocked} color={BLOCKED_COLOR} lineWidth={LINE_WIDTH} />
+            )}
+            {geometry.obstruction && (
+                <mesh position={geometry.obstruction}>
+                    <sphereGeometry args={[0.25, 16, 16]} />
+                    <meshBasicMaterial color={BLOCKED_COLOR} />
+                </mesh>
+            )}
+        </group>
+    );
+};
@@ -0,0 +1,120 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TERRAIN_CONFIG } from '../config';
+import { ElevationProfile } from '../utils/terrainAnalysis';
+
+interface ProfileChartProps {
+    profile: ElevationProfile;
+    onHover?: (index: number | null) => void;
+    height?: number;
+}
+
+const PADDING = { left: 44, right: 8, top: 8, bottom: 20 };
+
+/**
+ * Last sample whose distance is not past `distance` (samples are sorted by distance)
+ */
+const findSampleIndex = (profile: ElevationProfile, distance: number) => {
+    const { samples } = profile;
+    let lo = 0;
+    let hi = samples.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (samples[mid].distance <= distance) lo = mid;
+        else hi = mid - 1;
+    }
+    // Snap to whichever neighbour is closer
+    if (lo < samples.length - 1 && distance - samples[lo].distance > samples[lo + 1].distance - distance) lo++;
+    return lo;
+};
+
+/**
+ * 2D elevation profile (distance vs elevation) with a cursor that reports the hovered sample
+ */
+export const ProfileChart: React.FC<ProfileChartProps> = ({ profile, onHover, height = TERRAIN_CONFIG.PROFILE.CHART_HEIGHT }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [width, setWidth] = useState(0);
+    const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+    // Draw in pixels so text and markers are not stretched
+    useEffect(() => {
+        const element = containerRef.current;
+        if (!element) return;
+        const observer = new ResizeObserver(() => setWidth(element.clientWidth));
+        observer.observe(element);
+        setWidth(element.clientWidth);
+        return () => observer.disconnect();
+    }, []);
+
+    const { samples, totalDistance, minElevation, maxElevation } = profile;
+
+    // Pad the elevation axis so flat paths still get a visible line
+    const span = Math.max(maxElevation - minElevation, 10);
+    const yMin = minElevation - span * 0.05;
+    const yMax = maxElevation + span * 0.05;
+    const plotWidth = Math.max(width - PADDING.left - PADDING.right, 1);
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+    const toX = (distance: number) => PADDING.left + (totalDistance > 0 ? distance / totalDistance : 0) * plotWidth;
+    const toY = (elevation: number) => PADDING.top + (1 - (elevation - yMin) / (yMax - yMin)) * plotHeight;
+
+    const line = samples.map((s, i) => `${i === 0 ? 'M' : 'L'}${toX(s.distance).toFixed(1)},${toY(s.elevation).toFixed(1)}`).join(' ');
+    const area = `${line} L${toX(totalDistance).toFixed(1)},${PADDING.top + plotHeight} L${PADDING.left},${PADDING.top + plotHeight} Z`;
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const x = e.clientX - rect.left;
+        const t = Math.max(0, Math.min(1, (x - PADDING.left) / plotWidth));
+        const index = findSampleIndex(profile, t * totalDistance);
+        setHoverIndex(index);
+        onHover?.(index);
+    };
+
+    const handlePointerLeave = () => {
+        setHoverIndex(null);
+        onHover?.(null);
+    };
+
+    const hovered = hoverIndex !== null ? samples[hoverIndex] : null;
+    const distanceLabel = (meters: number) => meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${meters.toFixed(0)} m`;
+
+    return (
+        <div ref={containerRef} className="w-full" style={{ height }}>
+            {width > 0 && (
+                <svg
+                    width={width}
+                    height={height}
+                    className="select-none cursor-crosshair"
+                    onPointerMove={handlePointerMove}
+                    onPointerLeave={handlePointerLeave}
+                >
+                    {/* Axes labels */}
+                    <text x={PADDING.left - 4} y={toY(maxElevation) + 4} textAnchor="end" fontSize="10" fill="#9ca3af">{maxElevation.toFixed(0)}</text>
+                    <text x={PADDING.left - 4} y={toY(minElevation) + 4} textAnchor="end" fontSize="10" fill="#9ca3af">{minElevation.toFixed(0)}</text>
+                    <text x={PADDING.left} y={height - 4} fontSize="10" fill="#9ca3af">0</text>
+                    <text x={width - PADDING.right} y={height - 4} textAnchor="end" fontSize="10" fill="#9ca3af">{distanceLabel(totalDistance)}</text>
+
+                    <path d={area} fill={TERRAIN_CONFIG.PROFILE.LINE_COLOR} fillOpacity={0.15} />
+                    <path d={line} fill="none" stroke={TERRAIN_CONFIG.PROFILE.LINE_COLOR} strokeWidth={1.5} />
+
+                    {hovered && (
+                        <g>
+                            <line
+                                x1={toX(hovered.distance)} x2={toX(hovered.distance)}
+                                y1={PADDING.top} y2={PADDING.top + plotHeight}
+                                stroke={TERRAIN_CONFIG.PROFILE.HIGHLIGHT_COLOR} strokeWidth={1}
+                            />
+                            <circle cx={toX(hovered.distance)} cy={toY(hovered.elevation)} r={3} fill={TERRAIN_CONFIG.PROFILE.HIGHLIGHT_COLOR} />
+                            <text
+                                x={Math.min(toX(hovered.distance) + 6, width - 120)}
+                                y={PADDING.top + 12}
+                                fontSize="11"
+                                fill="#ffffff"
+                            >
+                                {distanceLabel(hovered.distance)} · {hovered.elevation.toFixed(1)} m
+                            </text>
+                        </g>
+                    )}
+                </svg>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,60 @@
+import React, { useEffect, useMemo } from 'react';
+import { Line } from '@react-three/drei';
+import { TERRAIN_CONFIG } from '../config';
+import { TerrainData } from '../utils/terrain';
+import { computeProfile, ElevationProfile } from '../utils/terrainAnalysis';
+import { createSurfaceDrape } from '../utils/drape';
+import { useBounds } from './BoundsContext';
+
+export interface ProfileConfig {
+    vertices: { lat: number; lon: number }[];
+    highlightIndex: number | null; // Profile sample under the chart cursor
+}
+
+interface ProfilePathProps {
+    terrainData: TerrainData;
+    exaggeration: number;
+    config: ProfileConfig;
+    onResult?: (profile: ElevationProfile | null) => void;
+}
+
+/**
+ * Drawn profile path draped on the terrain, its vertices and the sample highlighted on the chart
+ */
+export const ProfilePath: React.FC<ProfilePathProps> = ({ terrainData, exaggeration, config, onResult }) => {
+    const bounds = useBounds();
+    const { vertices, highlightIndex } = config;
+
+    const profile = useMemo(() => vertices.length >= 2 ? computeProfile(terrainData, bounds, vertices) : null, [terrainData, bounds, vertices]);
+
+    useEffect(() => {
+        onResult?.(profile);
+    }, [profile, onResult]);
+
+    const drape = useMemo(() => createSurfaceDrape(terrainData, exaggeration, bounds), [terrainData, exaggeration, bounds]);
+
+    const points = useMemo(() => profile ? profile.samples.map(s => drape.atElevation(s.lat, s.lon, s.elevation)) : [], [profile, drape]);
+
+    const markers = useMemo(() => vertices.map(v => drape.onGround(v.lat, v.lon)), [vertices, drape]);
+
+    const { LINE_COLOR, LINE_WIDTH, HIGHLIGHT_COLOR } = TERRAIN_CONFIG.PROFILE;
+    const highlight = highlightIndex !== null ? points[highlightIndex] : null;
+
+    return (
+        <group>
+            {points.length > 1 && <Line points={points} color={LINE_COLOR} lineWidth={LINE_WIDTH} />}
+            {markers.map((position, i) => (
+                <mesh key={i} position={position}>
+                    <sphereGeometry args={[0.2, 12, 12]} />
+                    <meshBasicMaterial color={LINE_COLOR} />
+                </mesh>
+            ))}
+            {highlight && (
+                <mesh position={highlight}>
+                    <sphereGeometry args={[0.35, 16, 16]} />
+                    <meshBasicMaterial color={HIGHLIGHT_COLOR} />
+                </mesh>
+            )}
+        </group>
+    );
+};
@@ -0,0 +1,55 @@
+import React, { useEffect, useMemo } from 'react';
+import { Line } from '@react-three/drei';
+import { TERRAIN_CONFIG } from '../config';
+import { TerrainData } from '../utils/terrain';
+import { TerrainStatistics } from '../utils/terrainAnalysis';
+import { createSurfaceDrape } from '../utils/drape';
+import { terrainWorkerPool } from '../utils/workerPool';
+import { CancellationToken, CancelledError } from '../utils/cancellation';
+import { useBounds } from './BoundsContext';
+
+export interface StatisticsConfig {
+    polygon: { lat: number; lon: number }[]; // Fewer than three vertices = the whole terrain shape
+}
+
+interface StatisticsProps {
+    terrainData: TerrainData;
+    exaggeration: number;
+    shape: 'rectangle' | 'ellipse';
+    config: StatisticsConfig;
+    onResult?: (statistics: TerrainStatistics | null) => void;
+}
+
+/**
+ * Elevation statistics of the terrain shape or a drawn polygon, recomputed in the worker pool
+ * whenever the overview DEM changes. Draws the polygon while it is being edited.
+ */
+export const Statistics: React.FC<StatisticsProps> = ({ terrainData, exaggeration, shape, config, onResult }) => {
+    const bounds = useBounds();
+    const { polygon } = config;
+
+    useEffect(() => {
+        const token = new CancellationToken();
+        const region = { shape, polygon: polygon.length >= 3 ? polygon : null };
+        terrainWorkerPool.run<TerrainStatistics | null>({ type: 'statistics', terrainData, bounds, region }, token).then(statistics => {
+            if (statistics) console.log(`📊 Statistics: ${statistics.cellCount} cells, mean ${statistics.mean.toFixed(1)} m`);
+            onResult?.(statistics);
+        }).catch(error => {
+            if (error instanceof CancelledError) return;
+            console.error('Failed to compute terrain statistics:', error);
+        });
+
+        return () => token.cancel();
+    }, [terrainData, bounds, shape, polygon, onResult]);
+
+    useEffect(() => () => onResult?.(null), [onResult]);
+
+    const outline = useMemo(
+        () => createSurfaceDrape(terrainData, exaggeration, bounds).path(polygon, true),
+        [polygon, terrainData, exaggeration, bounds]
+    );
+
+    if (outline.length < 2) return null;
+
+    return <Line points={outline} color={TERRAIN_CONFIG.STATISTICS.OUTLINE_COLOR} lineWidth={2} />;
+};
@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TERRAIN_CONFIG } from '../config';
+import { TerrainStatistics } from '../utils/terrainAnalysis';
+
+const PADDING = { left: 36, right: 8, top: 8, bottom: 18 };
+
+/**
+ * Container width in pixels, so charts draw text and strokes unstretched
+ */
+const useWidth = () => {
+    const ref = useRef<HTMLDivElement>(null);
+    const [width, setWidth] = useState(0);
+    useEffect(() => {
+        const element = ref.current;
+        if (!element) return;
+        const observer = new ResizeObserver(() => setWidth(element.clientWidth));
+        observer.observe(element);
+        setWidth(element.clientWidth);
+        return () => observer.disconnect();
+    }, []);
+    return [ref, width] as const;
+};
+
+/**
+ * Elevation histogram: share of the cells per elevation band
+ */
+export const HistogramChart: React.FC<{ statistics: TerrainStatistics; height?: number }> = ({ statistics, height = TERRAIN_CONFIG.STATISTICS.CHART_HEIGHT }) => {
+    const [ref, width] = useWidth();
+    const { histogram, min, max, mean } = statistics;
+    const peak = Math.max(...histogram.counts, 1);
+    const plotWidth = Math.max(width - PADDING.left - PADDING.right, 1);
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+    const barWidth = plotWidth / histogram.counts.length;
+    const meanX = PADDING.left + (max > min ? (mean - min) / (max - min) : 0.5) * plotWidth;
+
+    return (
+        <div ref={ref} className="w-full" style={{ height }}>
+            {width > 0 && (
+                <svg width={width} height={height} className="select-none">
+                    <text x={PADDING.left - 4} y={PADDING.top + 8} textAnchor="end" fontSize="10" fill="#9ca3af">{(peak / statistics.cellCount * 100).toFixed(0)}%</text>
+                    <text x={PADDING.left} y={height - 4} fontSize="10" fill="#9ca3af">{min.toFixed(0)}</text>
+                    <text x={width - PADDING.right} y={height - 4} textAnchor="end" fontSize="10" fill="#9ca3af">{max.toFixed(0)} m</text>
+
+                    {histogram.counts.map((count, i) => {
+                        const barHeight = (count / peak) * plotHeight;
+                        return (
+                            <rect
+                                key={i}
+                                x={PADDING.left + i * barWidth + 0.5}
+                                y={PADDING.top + plotHeight - barHeight}
+                                width={Math.max(barWidth - 1, 1)}
+                                height={barHeight}
+                                fill={TERRAIN_CONFIG.STATISTICS.BAR_COLOR}
+                                fillOpacity={0.7}
+                            />
+                        );
+                    })}
+                    <line x1={meanX} x2={meanX} y1={PADDING.top} y2={PADDING.top + plotHeight} stroke="#ffffff" strokeDasharray="3 3" strokeWidth={1} />
+                </svg>
+            )}
+        </div>
+    );
+};
+
+/**
+ * Hypsometric curve: relative area (x) lying above each relative height (y)
+ */
+export const HypsometricChart: React.FC<{ statistics: TerrainStatistics; height?: number }> = ({ statistics, height = TERRAIN_CONFIG.STATISTICS.CHART_HEIGHT }) => {
+    const [ref, width] = useWidth();
+    const plotWidth = Math.max(width - PADDING.left - PADDING.right, 1);
+    const plotHeight = height - PADDING.top - PADDING.bottom;
+    const toX = (area: number) => PADDING.left + area * plotWidth;
+    const toY = (relativeHeight: number) => PADDING.top + (1 - relativeHeight) * plotHeight;
+
+    const line = statistics.hypsometricCurve.map((p, i) => `${i === 0 ? 'M' : 'L'}${toX(p.area).toFixed(1)},${toY(p.height).toFixed(1)}`).join(' ');
+    const area = `${line} L${toX(0).toFixed(1)},${toY(0).toFixed(1)} Z`;
+
+    return (
+        <div ref={ref} className="w-full" style={{ height }}>
+            {width > 0 && (
+                <svg width={width} height={height} className="select-none">
+                    <text x={PADDING.left - 4} y={toY(1) + 4} textAnchor="end" fontSize="10" fill="#9ca3af">h/H 1</text>
+                    <text x={PADDING.left - 4} y={toY(0) + 4} textAnchor="end" fontSize="10" fill="#9ca3af">0</text>
+                    <text x={width - PADDING.right} y={height - 4} textAnchor="end" fontSize="10" fill="#9ca3af">a/A 1</text>
+
+                    <path d={area} fill={TERRAIN_CONFIG.STATISTICS.CURVE_COLOR} fillOpacity={0.15} />
+                    <path d={line} fill="none" stroke={TERRAIN_CONFIG.STATISTICS.CURVE_COLOR} strokeWidth={1.5} />
+                    <text x={toX(0.5)} y={toY(0.5)} textAnchor="middle" fontSize="11" fill="#ffffff">
+                        HI = {statistics.hypsometricIntegral.toFixed(3)}
+                    </text>
+                </svg>
+            )}
+        </div>
+    );
+};
@@ -1,11 +1,28 @@
-import React, { useEffect, useState, useMemo, useRef } from 'react';
+import React, { useEffect, useState, useMemo, useRef, useCallback } from 'react';
 import * as THREE from 'three';
-import { fetchTerrainTile, calculateBoundsDimensions, calculateOptimalZoom } from '../utils/terrain';
-import { useThree, useFrame } from '@react-three/fiber';
+import { calculateOptimalZoom, TerrainData } from '../utils/terrain';
+import { calculateBoundsDimensions, getTileXYZ, getWorldExtents, latLonToPixel, worldToLatLon } from '../utils/projection';
+import { buffersToGeometry, GeometryBuffers } from '../utils/terrainGeometry';
+import { buildChunkBuffers, ChunkBuffers, ChunkExtent, ChunkNode, getChunkDemZoom, getChunkExtent, selectChunks, updateChunkNormals } from '../utils/terrainChunks';
+import { terrainWorkerPool } from '../utils/workerPool';
+import { CancellationToken, CancelledError } from '../utils/cancellation';
+import { classifyAspect, classifySlope, CutFill as CutFillResult, ElevationProfile, LineOfSight as LineOfSightResult, SlopeAspect, TerrainStatistics } from '../utils/terrainAnalysis';
+import { ContourLevel, ContourMode, ContourSmoothing } from '../utils/contours';
+import { createContourShaderHook, createContourUniforms, updateContourUniforms } from '../utils/contourShader';
+import { useThree, useFrame, ThreeEvent } from '@react-three/fiber';
 import { TERRAIN_CONFIG } from '../config';
+import { loadCachedImageTile } from '../utils/tileCache';
 import { Clouds } from './Clouds';
 import { Contours } from './Contours';
+import { useBounds } from './BoundsContext';
 import { Fire } from './Fire';
+import { Viewshed, ViewshedConfig, ViewshedSummary } from './Viewshed';
+import { LineOfSight, LineOfSightConfig } from './LineOfSight';
+import { ProfileConfig, ProfilePath } from './ProfilePath';
+import { Hydrology, HydrologyConfig, WatershedSummary } from './Hydrology';
+import { Flood, FloodConfig, FloodSummary } from './Flood';
+import { CutFill, CutFillConfig } from './CutFill';
+import { Statistics, StatisticsConfig } from './Statistics';
 
 interface CloudLayerConfig {
     minAlt: number;
@@ -41,6 +58,19 @@ interface ContourConfig {
     showLabels: boolean;
     minorOpacity: number;
     majorOpacity: number;
+    smoothing?: ContourSmoothing;
+    mode?: ContourMode;
+    showDepressions?: boolean;
+    showSpotHeights?: boolean;
+    spotHeightProminence?: number;
+}
+
+interface HillshadeConfig {
+    enabled: boolean;
+    azimuth: number;
+    altitude: number;
+    multidirectional: boolean;
+    strength: number;
 }
 
 interface FireConfig {
@@ -81,12 +111,67 @@ interface TerrainProps {
     cloudConfig?: CloudConfig;
     windConfig?: WindConfig;
     contourConfig?: ContourConfig;
+    onContourLevelsChange?: (levels: ContourLevel[]) => void;
     fireConfigs?: FireConfig[];
+    demOverride?: TerrainData | null; // Local DEM (e.g. dropped GeoTIFF) used instead of remote tiles
+    surfaceMode?: SurfaceMode; // Palette coloring: elevation, or a classified slope / aspect raster
+    slopeUnit?: 'degrees' | 'percent';
+    hillshade?: HillshadeConfig; // Baked relief shading multiplied into palette colors and base maps
+    viewshed?: ViewshedConfig;
+    onViewshedResult?: (summary: ViewshedSummary | null) => void;
+    lineOfSight?: LineOfSightConfig;
+    onLineOfSightResult?: (result: LineOfSightResult | null) => void;
+    profile?: ProfileConfig;
+    onProfileResult?: (profile: ElevationProfile | null) => void;
+    hydrology?: HydrologyConfig;
+    onWatershedResult?: (summary: WatershedSummary | null) => void;
+    flood?: FloodConfig; // Water plane at a given elevation
+    onFloodResult?: (summary: FloodSummary | null) => void;
+    cutFill?: CutFillConfig;
+    onCutFillResult?: (result: CutFillResult | null) => void;
+    statistics?: StatisticsConfig; // Elevation statistics of the shape or a drawn polygon
+    onStatisticsResult?: (statistics: TerrainStatistics | null) => void;
+}
+
+export type SurfaceMode = 'elevation' | 'slope' | 'aspect';
+
+// A quadtree chunk that finished loading (see terrainChunks.ts)
+interface LoadedChunk {
+    node: ChunkNode;
+    extent: ChunkExtent;
+    data: ChunkBuffers;
+    geometry: THREE.BufferGeometry;
+    lastUsed: number;
+    appearanceVersion: number;
 }
 
 // Helper to interpolate between pre-parsed colors
 interface RGB { r: number; g: number; b: number; }
 
+const parseHexColor = (hex: string): RGB => {
+    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})/i.exec(hex);
+    return result ? {
+        r: parseInt(result[1], 16) / 255,
+        g: parseInt(result[2], 16) / 255,
+        b: parseInt(result[3], 16) / 255
+    } : { r: 0, g: 0, b: 0 };
+};
+
+// Tint for surface areas whose DEM cells were voids filled by interpolation
+const FILLED_RGB = parseHexColor(TERRAIN_CONFIG.NODATA.FILLED_COLOR);
+
+// Bilinear sample of a row-major raster (row 0 = North) at chunk uv (uv.y = 1 is North)
+const sampleRaster = (raster: Float32Array, width: number, height: number, u: number, uvY: number) => {
+    const fx = Math.max(0, Math.min(1, u)) * (width - 1);
+    const fy = Math.max(0, Math.min(1, 1 - uvY)) * (height - 1);
+    const x0 = Math.floor(fx), y0 = Math.floor(fy);
+    const x1 = Math.min(x0 + 1, width - 1), y1 = Math.min(y0 + 1, height - 1);
+    const tx = fx - x0, ty = fy - y0;
+    const top = raster[y0 * width + x0] * (1 - tx) + raster[y0 * width + x1] * tx;
+    const bottom = raster[y1 * width + x0] * (1 - tx) + raster[y1 * width + x1] * tx;
+    return top * (1 - ty) + bottom * ty;
+};
+
 const getColorFromScaleParsed = (t: number, rgbColors: RGB[]) => {
     if (t <= 0) {
         const c = rgbColors[0];
@@ -145,105 +230,207 @@ const createSedimentTexture = () => {
     return tex;
 };
 
-const TerrainComponent: React.FC<TerrainProps & { onHeightRangeChange?: (min: number, max: number) => void }> = ({ shape, exaggeration = 100, paletteColors, onHeightRangeChange, showSoilProfile = true, baseMapName = null, onHover, onDoubleClick, disableHover = false, enableMicroDisplacement = true, cloudConfig, windConfig, contourConfig, fireConfigs }) => {
-    const [terrainData, setTerrainData] = useState<{ width: number; height: number; data: Float32Array; minHeight: number; maxHeight: number } | null>(null);
+const TerrainComponent: React.FC<TerrainProps & { onHeightRangeChange?: (min: number, max: number) => void }> = ({ shape, exaggeration = 100, paletteColors, onHeightRangeChange, showSoilProfile = true, baseMapName = null, onHover, onDoubleClick, disableHover = false, enableMicroDisplacement = true, cloudConfig, windConfig, contourConfig, onContourLevelsChange, fireConfigs, demOverride = null, surfaceMode = 'elevation', slopeUnit = 'degrees', hillshade, viewshed, onViewshedResult, lineOfSight, onLineOfSightResult, profile, onProfileResult, hydrology, onWatershedResult, flood, onFloodResult, cutFill, onCutFillResult, statistics, onStatisticsResult }) => {
+    const [terrainData, setTerrainData] = useState<TerrainData | null>(null);
     const [previousTerrainData, setPreviousTerrainData] = useState<typeof terrainData>(null);
     const [isLoadingTerrain, setIsLoadingTerrain] = useState(false);
     const meshRef = useRef<THREE.Group>(null);
     const sedimentTexture = useMemo(() => createSedimentTexture(), []);
     const lastHoverUpdate = useRef(0);
-    const { camera } = useThree();
-
-    // LOD State with optimized update frequency
-    const [lodZoom, setLodZoom] = useState<number>(() => calculateOptimalZoom(TERRAIN_CONFIG.BOUNDS, 1024, 12));
-    const lastLodCheck = useRef(0);
-    const currentLodZoom = useRef(lodZoom);
-    const [isLodTransitioning, setIsLodTransitioning] = useState(false);
+    const { camera, size } = useThree();
+    const bounds = useBounds();
+
+    // Scene scale: the plane follows the real aspect ratio (longest side 100 units),
+    // heights are meters scaled by baseScale (see mesh scale below)
+    const dimensions = useMemo(() => calculateBoundsDimensions(bounds), [bounds]);
+    const world = useMemo(() => getWorldExtents(bounds), [bounds]);
+    const baseScale = world.unitsPerMeter;
+
+    // Quadtree surface chunks (replaces the single LOD plane)
+    const chunkStore = useRef(new Map<string, LoadedChunk>());
+    const chunkLoads = useRef(new Map<string, CancellationToken>());
+    const failedChunks = useRef(new Set<string>());
+    const lastChunkUpdate = useRef(0);
+    const visibleChunkKey = useRef('');
+    const appearanceVersion = useRef(0);
+    const applyAppearanceRef = useRef<(chunk: LoadedChunk) => void>(() => { });
+    const [visibleChunks, setVisibleChunks] = useState<LoadedChunk[]>([]);
+
+    // Camera distance (meters, rounded) drives the base map zoom
+    const lastDistanceCheck = useRef(0);
+    const [cameraDistanceMeters, setCameraDistanceMeters] = useState(() =>
+        Math.round(camera.position.length() / world.unitsPerMeter / 250) * 250
+    );
 
     // Smart Texture Loading: Use partial bounds for high zoom to prevent 40k+ tile loads
-    const [activeTextureBounds, setActiveTextureBounds] = useState(TERRAIN_CONFIG.BOUNDS);
+    const [activeTextureBounds, setActiveTextureBounds] = useState(bounds);
     const lastTextureCenter = useRef(new THREE.Vector3(99999, 99999, 99999)); // Force update on first close approach
 
-    // Dynamic LOD Monitoring - Optimized for performance
+    // New area of interest: start over from the full-extent texture
+    useEffect(() => {
+        setActiveTextureBounds(bounds);
+        lastTextureCenter.current.set(99999, 99999, 99999);
+    }, [bounds]);
+
+    // Vertex spacing of a chunk in meters
+    const getChunkSpacing = (extent: ChunkExtent) => Math.max(
+        dimensions.width * (extent.u1 - extent.u0),
+        dimensions.height * (extent.v1 - extent.v0)
+    ) / (TERRAIN_CONFIG.TERRAIN_LOD.CHUNK_RESOLUTION - 1);
+
+    const loadChunk = (node: ChunkNode) => {
+        const token = new CancellationToken();
+        chunkLoads.current.set(node.id, token);
+
+        const { CHUNK_RESOLUTION, SKIRT_DEPTH } = TERRAIN_CONFIG.TERRAIN_LOD;
+        const extent = getChunkExtent(node);
+        const spacing = getChunkSpacing(extent);
+        const latMid = (bounds.latMin + bounds.latMax) / 2;
+
+        // A local DEM is already in memory: cut the chunk out of it directly
+        const request = demOverride
+            ? Promise.resolve(buildChunkBuffers(demOverride, { u0: 0, u1: 1, v0: 0, v1: 1 }, extent, CHUNK_RESOLUTION, spacing * SKIRT_DEPTH, TERRAIN_CONFIG.DEM_MAX_LEVEL, world))
+            : terrainWorkerPool.run<ChunkBuffers>({
+                type: 'loadChunk',
+                bounds: bounds,
+                extent,
+                zoom: getChunkDemZoom(spacing, latMid),
+                resolution: CHUNK_RESOLUTION,
+                skirtDepth: spacing * SKIRT_DEPTH,
+            }, token);
+
+        request.then(data => {
+            if (token.cancelled) return;
+            const chunk: LoadedChunk = { node, extent, data, geometry: buffersToGeometry(data.geometry), lastUsed: performance.now(), appearanceVersion: -1 };
+            applyAppearanceRef.current(chunk);
+            chunkStore.current.set(node.id, chunk);
+            lastChunkUpdate.current = 0; // Re-select on the next frame
+        }).catch(error => {
+            if (error instanceof CancelledError) return;
+            console.error(`Failed to load terrain chunk ${node.id}:`, error);
+            failedChunks.current.add(node.id);
+        }).finally(() => {
+            if (chunkLoads.current.get(node.id) === token) chunkLoads.current.delete(node.id);
+        });
+    };
+
+    // Chunk Selection - split chunks whose vertex spacing is too coarse on screen
     useFrame(() => {
-        const now = Date.now();
-        // Increased check interval to 2 seconds to reduce frequent updates
-        if (now - lastLodCheck.current < 2000) return;
-        lastLodCheck.current = now;
-
-        // Calculate distance to center (approx) or altitude
-        // Camera is at [50, 40, 80] initially. Center is 0,0,0.
-        // Simple altitude check: camera.position.y (assuming Y-up world, but controls orbit)
-        // Better: Distance to origin (0,0,0) which is center of map
-        const dist = camera.position.distanceTo(new THREE.Vector3(0, 0, 0));
+        const now = performance.now();
+        if (now - lastChunkUpdate.current < TERRAIN_CONFIG.TERRAIN_LOD.UPDATE_INTERVAL_MS) return;
+        lastChunkUpdate.current = now;
+
+        const { MAX_DEPTH, MAX_SCREEN_ERROR, MAX_CONCURRENT_LOADS, MAX_CACHED_CHUNKS } = TERRAIN_CONFIG.TERRAIN_LOD;
+        const store = chunkStore.current;
+
+        // Camera in terrain-local space (group is rotated -90deg around X)
+        const camX = camera.position.x;
+        const camY = -camera.position.z;
+        const camZ = camera.position.y;
+        const fov = (camera as THREE.PerspectiveCamera).fov ?? 50;
+        const pixelsPerUnit = size.height / (2 * Math.tan(THREE.MathUtils.degToRad(fov) / 2));
+        const reliefTop = terrainData ? (terrainData.maxHeight - terrainData.minHeight) * (exaggeration / 100) * baseScale : 0;
+
+        // Below this spacing there is no more DEM detail to show
+        const latMid = (bounds.latMin + bounds.latMax) / 2;
+        const finestSpacing = demOverride
+            ? dimensions.width / demOverride.width
+            : 156543.03 * Math.cos(latMid * Math.PI / 180) / Math.pow(2, TERRAIN_CONFIG.DEM_MAX_LEVEL);
+
+        const shouldSplit = (node: ChunkNode) => {
+            if (node.level >= MAX_DEPTH) return false;
+            const extent = getChunkExtent(node);
+            const spacing = getChunkSpacing(extent);
+            if (spacing / 2 < finestSpacing) return false;
+
+            // Distance from the camera to the chunk's bounding box
+            const dx = Math.max((extent.u0 - 0.5) * world.width - camX, 0, camX - (extent.u1 - 0.5) * world.width);
+            const dy = Math.max((0.5 - extent.v1) * world.height - camY, 0, camY - (0.5 - extent.v0) * world.height);
+            const dz = Math.max(-camZ, 0, camZ - reliefTop);
+            const dist = Math.max(Math.sqrt(dx * dx + dy * dy + dz * dz), 0.001);
+
+            const screenError = (spacing * baseScale * pixelsPerUnit) / dist;
+            return screenError > MAX_SCREEN_ERROR;
+        };
 
-        // Mapping Distance to Zoom
-        // Dist 200 (Far) -> Zoom 8
-        // Dist 20 (Close) -> Zoom 15
+        const isReady = (node: ChunkNode) => {
+            const chunk = store.get(node.id);
+            if (chunk) chunk.lastUsed = now;
+            return !!chunk;
+        };
 
-        // Base scale impact: The world is scaled to 100 units wide.
-        // Map width in meters:
-        const mapWidthMeters = calculateBoundsDimensions(TERRAIN_CONFIG.BOUNDS).width;
-        // Scale ratio: 100 units = mapWidthMeters
-        // 1 unit = mapWidthMeters / 100
-        const metersPerUnit = mapWidthMeters / 100;
-        const distMeters = dist * metersPerUnit;
+        const { render, wanted } = selectChunks(isReady, shouldSplit);
 
-        // Calculate target zoom based on distance
-        // Rule of thumb: Pixel size ~ Distance * 0.0003 (FOV dependent)
-        // Zoom Level Z resolution ~ 156543 / 2^Z meters/pixel
-        // Desired Meters/Pixel = DistanceMeters * 0.001 (approx for visual fidelity)
-
-        let targetZ = 12;
-        // Shifted Thresholds for Higher Resolution (approx 2x previous detail)
-        if (distMeters < 1000) targetZ = 16;      // Was < 500
-        else if (distMeters < 2000) targetZ = 15; // Was < 1000
-        else if (distMeters < 5000) targetZ = 14; // Was < 2500
-        else if (distMeters < 10000) targetZ = 13; // Was < 5000
-        else if (distMeters < 20000) targetZ = 12; // Was < 10000
-        else targetZ = 11;                         // Was 10
-
-        // Clamp to Max DEM Level
-        targetZ = Math.min(targetZ, TERRAIN_CONFIG.DEM_MAX_LEVEL);
-
-        // Add hysteresis: Only update if zoom changes by at least 2 levels to prevent flickering
-        const zoomDiff = Math.abs(targetZ - currentLodZoom.current);
-        if (zoomDiff >= 2) {
-            currentLodZoom.current = targetZ;
-            setIsLodTransitioning(true);
-            setLodZoom(targetZ);
-
-            // Calculate visible bounds based on distance
-            // When close (dist < 100), use smaller bounds
-            // When far (dist > 150), use full bounds
-            let newVisibleBounds = TERRAIN_CONFIG.BOUNDS;
-
-            if (distMeters < 5000) {
-                // Close up: use only center portion
-                const { latMin, latMax, lonMin, lonMax } = TERRAIN_CONFIG.BOUNDS;
-                const centerLat = (latMin + latMax) / 2;
-                const centerLon = (lonMin + lonMax) / 2;
-
-                // Calculate visible fraction (20% to 100%)
-                const fraction = Math.min(1.0, Math.max(0.15, distMeters / 5000));
-
-                const latRange = (latMax - latMin) * fraction;
-                const lonRange = (lonMax - lonMin) * fraction;
-
-                // newVisibleBounds = {
-                //     latMin: centerLat - latRange / 2,
-                //     latMax: centerLat + latRange / 2,
-                //     lonMin: centerLon - lonRange / 2,
-                //     lonMax: centerLon + lonRange / 2
-                // };
+        // Cancel loads that are no longer needed, then start new ones
+        const wantedIds = new Set(wanted.map(node => node.id));
+        chunkLoads.current.forEach((token, id) => {
+            if (!wantedIds.has(id)) {
+                token.cancel();
+                chunkLoads.current.delete(id);
             }
+        });
+        for (const node of wanted) {
+            if (chunkLoads.current.size >= MAX_CONCURRENT_LOADS) break;
+            if (chunkLoads.current.has(node.id) || failedChunks.current.has(node.id)) continue;
+            loadChunk(node);
+        }
 
-            // setVisibleBounds(newVisibleBounds); // DISABLED
+        const rendered = render.map(node => store.get(node.id)!);
+        rendered.forEach(chunk => {
+            if (chunk.appearanceVersion !== appearanceVersion.current) applyAppearanceRef.current(chunk);
+        });
 
-            // Reset transition flag after a delay
-            setTimeout(() => setIsLodTransitioning(false), 1000);
+        const key = render.map(node => node.id).join(',');
+        if (key !== visibleChunkKey.current) {
+            visibleChunkKey.current = key;
+            setVisibleChunks(rendered);
         }
 
+        // Drop least recently used chunks that were not touched by this selection
+        if (store.size > MAX_CACHED_CHUNKS) {
+            const stale = [...store.values()].filter(chunk => chunk.lastUsed < now).sort((a, b) => a.lastUsed - b.lastUsed);
+            for (const chunk of stale) {
+                if (store.size <= MAX_CACHED_CHUNKS) break;
+                chunk.geometry.dispose();
+                store.delete(chunk.node.id);
+            }
+        }
+    });
+
+    // Drop all chunks when the elevation source changes
+    useEffect(() => {
+        const store = chunkStore.current;
+        const loads = chunkLoads.current;
+        return () => {
+            loads.forEach(token => token.cancel());
+            loads.clear();
+            store.forEach(chunk => chunk.geometry.dispose());
+            store.clear();
+            failedChunks.current.clear();
+            visibleChunkKey.current = '';
+            lastChunkUpdate.current = 0;
+            setVisibleChunks([]);
+        };
+    }, [demOverride, bounds]);
+
+    // Camera Distance Monitoring (base map zoom and partial texture bounds)
+    useFrame(() => {
+        const now = Date.now();
+        if (now - lastDistanceCheck.current < 2000) return;
+        lastDistanceCheck.current = now;
+
+        // Distance to origin (0,0,0) which is center of map
+        const dist = camera.position.distanceTo(new THREE.Vector3(0, 0, 0));
+
+        // Base scale impact: The longest side of the world is 100 units.
+        // Map width in meters:
+        const mapWidthMeters = dimensions.width;
+        // 1 unit = 1 / unitsPerMeter meters (same on both axes)
+        const metersPerUnit = 1 / world.unitsPerMeter;
+        const distMeters = dist * metersPerUnit;
+
+        setCameraDistanceMeters(Math.round(distMeters / 250) * 250);
+
         // --- Smart Texture Update Logic ---
         // Dynamically update texture bounds when zoomed in (BaseMap Zoom >= 16 approx 15km)
         // If close to ground (< 15000m), use partial texture bounds to allow high zoom (18-19)
@@ -253,19 +440,12 @@ const TerrainComponent: React.FC<TerrainProps & { onHeightRangeChange?: (min: nu
 
             // Only update if moved significantly (> 500m) to prevent frequent reloading
             if (distMetersToLast > 500) {
-                const fullLatRange = TERRAIN_CONFIG.BOUNDS.latMax - TERRAIN_CONFIG.BOUNDS.latMin;
-                const fullLonRange = TERRAIN_CONFIG.BOUNDS.lonMax - TERRAIN_CONFIG.BOUNDS.lonMin;
-                const centerLat = (TERRAIN_CONFIG.BOUNDS.latMin + TERRAIN_CONFIG.BOUNDS.latMax) / 2;
-                const centerLon = (TERRAIN_CONFIG.BOUNDS.lonMin + TERRAIN_CONFIG.BOUNDS.lonMax) / 2;
-
-                // Map Camera Pos (-50 to 50) to Lat/Lon offsets
-                // World X+ is East (+Lon)
-                // World Z+ is South (-Lat) (Assuming Camera looks down Z and Z is inverted Mesh Y)
-                const lonOffset = (camera.position.x / 100) * fullLonRange;
-                const latOffset = (-camera.position.z / 100) * fullLatRange;
+                const fullLatRange = bounds.latMax - bounds.latMin;
+                const fullLonRange = bounds.lonMax - bounds.lonMin;
 
-                const targetCenterLat = centerLat + latOffset;
-                const targetCenterLon = centerLon + lonOffset;
+                // Map Camera Pos to Lat/Lon
+                // World X+ is East, World Z+ is South (Z is the inverted plane Y)
+                const { lat: targetCenterLat, lon: targetCenterLon } = worldToLatLon(camera.position.x, -camera.position.z, bounds);
 
                 // View Size: ~3000m buffer box (covers Zoom 16 view with margin)
                 const viewSizeMeters = 3000;
@@ -275,47 +455,35 @@ const TerrainComponent: React.FC<TerrainProps & { onHeightRangeChange?: (min: nu
                 const lonSize = fullLonRange * viewFraction;
 
                 const newBounds = {
-                    latMin: Math.max(TERRAIN_CONFIG.BOUNDS.latMin, targetCenterLat - latSize / 2),
-                    latMax: Math.min(TERRAIN_CONFIG.BOUNDS.latMax, targetCenterLat + latSize / 2),
-                    lonMin: Math.max(TERRAIN_CONFIG.BOUNDS.lonMin, targetCenterLon - lonSize / 2),
-                    lonMax: Math.min(TERRAIN_CONFIG.BOUNDS.lonMax, targetCenterLon + lonSize / 2)
+                    latMin: Math.max(bounds.latMin, targetCenterLat - latSize / 2),
+                    latMax: Math.min(bounds.latMax, targetCenterLat + latSize / 2),
+                    lonMin: Math.max(bounds.lonMin, targetCenterLon - lonSize / 2),
+                    lonMax: Math.min(bounds.lonMax, targetCenterLon + lonSize / 2)
                 };
 
                 setActiveTextureBounds(newBounds);
                 lastTextureCenter.current.copy(camera.position);
                 console.log(`🖼️ Smart Bounds Update: Moved ${Math.round(distMetersToLast)}m -> Reloading Partial Texture`);
             }
-        } else if (activeTextureBounds !== TERRAIN_CONFIG.BOUNDS) {
+        } else if (activeTextureBounds !== bounds) {
             // Zoomed out: Reset to full bounds
-            setActiveTextureBounds(TERRAIN_CONFIG.BOUNDS);
+            setActiveTextureBounds(bounds);
             lastTextureCenter.current.set(99999, 99999, 99999);
             console.log(`🖼️ Smart Bounds Reset: Full Map Mode`);
         }
     });
 
-    // Helper function to convert lat/lon to tile coordinates
-    const latLonToTile = (lat: number, lon: number, zoom: number) => {
-        const x = Math.floor((lon + 180) / 360 * Math.pow(2, zoom));
-        const y = Math.floor((1 - Math.log(Math.tan(lat * Math.PI / 180) + 1 / Math.cos(lat * Math.PI / 180)) / Math.PI) / 2 * Math.pow(2, zoom));
-        return { x, y, z: zoom };
-    };
-
     // Load base map texture
     const [baseMapTexture, setBaseMapTexture] = useState<THREE.Texture | null>(null);
     const [detailMapTexture, setDetailMapTexture] = useState<THREE.Texture | null>(null);
 
-    // Memoize zoom calculation based on BOTH lodZoom AND camera distance
+    // Memoize zoom calculation based on camera distance
     // Closer to camera = higher zoom (more detail), farther = lower zoom (less detail)
     const baseMapZoom = useMemo(() => {
         if (!baseMapName) return 0;
 
-        // Calculate camera distance to terrain center
-        const dist = camera.position.distanceTo(new THREE.Vector3(0, 0, 0));
-
-        // Calculate distance in meters (approximate)
-        const mapWidthMeters = calculateBoundsDimensions(TERRAIN_CONFIG.BOUNDS).width;
-        const metersPerUnit = mapWidthMeters / 100;
-        const distMeters = dist * metersPerUnit;
+        // Distance-based zoom (updated by the camera distance monitor)
+        const distMeters = cameraDistanceMeters;
 
         // Adjusted visibility range to be 10 levels with distMeters conditions
         // Increasing Z level by +1 at same viewing distances
@@ -353,13 +521,13 @@ const TerrainComponent: React.FC<TerrainProps & { onHeightRangeChange?: (min: nu
         // If we are using valid full bounds, we CANNOT load zoom > 16 (40k+ tiles).
         // Only allow > 16 if activeTextureBounds is partial (different from full bounds)
         // Note: Object comparison needs reference check.
-        if (activeTextureBounds === TERRAIN_CONFIG.BOUNDS && finalZoom > 16) {
+        if (activeTextureBounds === bounds && finalZoom > 16) {
             console.warn(`⚠️ Cap zoom to 16 because using Full Bounds (prevent crash)`);
             return 16;
         }
 
         return finalZoom;
-    }, [baseMapName, lodZoom, activeTextureBounds]); // Re-calculate when LOD changes or bounds change
+    }, [baseMapName, cameraDistanceMeters, activeTextureBounds]); // Re-calculate when camera distance or bounds change
 
     // Properly dispose of texture when it changes to prevent memory leaks
     useEffect(() => {
@@ -379,12 +547,11 @@ const TerrainComponent: React.FC<TerrainProps & { onHeightRangeChange?: (min: nu
 
             // Fixed Zoom for Background (16 gives better clarity ~ 2m/pixel)
             const zoom = 16;
-            const bounds = TERRAIN_CONFIG.BOUNDS;
 
             console.log(`🌍 Base Layer Loading: Zoom ${zoom} (Fixed)`);
 
-            const minTile = latLonToTile(bounds.latMax, bounds.lonMin, zoom);
-            const maxTile = latLonToTile(bounds.latMin, bounds.lonMax, zoom);
+            const minTile = getTileXYZ(bounds.latMax, bounds.lonMin, zoom);
+            const maxTile = getTileXYZ(bounds.latMin, bounds.lonMax, zoom);
 
             const tilesX = maxTile.x - minTile.x + 1;
             const tilesY = maxTile.y - minTile.y + 1;
@@ -406,14 +573,6 @@ const TerrainComponent: React.FC<TerrainProps & { onHeightRangeChange?: (min: nu
             const finishBaseTexture = () => {
                 if (!active) return;
 
-                // Helper functions are simpler here since we use Full Bounds
-                const latLonToPixel = (lat: number, lon: number, zoom: number) => {
-                    const scale = Math.pow(2, zoom);
-                    const worldX = (lon + 180) / 360 * scale;
-                    const worldY = (1 - Math.log(Math.tan(lat * Math.PI / 180) + 1 / Math.cos(lat * Math.PI / 180)) / Math.PI) / 2 * scale;
-                    return { x: worldX * 256, y: worldY * 256 };
-                };
-
                 const minPixel = latLonToPixel(bounds.latMax, bounds.lonMin, zoom);
                 const maxPixel = latLonToPixel(bounds.latMin, bounds.lonMax, zoom);
                 const minTilePixelX = minTile.x * 256;
@@ -443,23 +602,22 @@ const TerrainComponent: React.FC<TerrainProps & { onHeightRangeChange?: (min: nu
                     const tileY = minTile.y + ty;
                     const tileUrl = urlTemplate.replace('{x}', tileX.toString()).replace('{y}', tileY.toString()).replace('{z}', zoom.toString());
 
-                    const img = new Image();
-                    img.crossOrigin = 'Anonymous';
-                    img.onload = () => {
+                    loadCachedImageTile(tileUrl).then(img => {
                         if (!active) return;
-                        ctx.drawImage(img, tx * tileSize, ty * tileSize);
+                        if (img) {
+                            ctx.drawImage(img, tx * tileSize, ty * tileSize);
+                            img.close();
+                        }
                         loadedCount++;
                         if (loadedCount === totalTiles) finishBaseTexture();
-                    };
-                    img.onerror = () => { loadedCount++; if (loadedCount === totalTiles) finishBaseTexture(); };
-                    img.src = tileUrl;
+                    });
                 }
             }
         } else {
             setBaseMapTexture(null);
         }
         return () => { active = false; };
-    }, [baseMapName]);
+    }, [baseMapName, bounds]);
 
     // EFFECT 2: Load DETAIL MAP (High-Res, Partial Extent, Overlay)
     useEffect(() => {
@@ -467,10 +625,10 @@ const TerrainComponent: React.FC<TerrainProps & { onHeightRangeChange?: (min: nu
 
         if (baseMapName && TERRAIN_CONFIG.BASE_MAPS[baseMapName as keyof typeof TERRAIN_CONFIG.BASE_MAPS]) {
             const urlTemplate = TERRAIN_CONFIG.BASE_MAPS[baseMapName as keyof typeof TERRAIN_CONFIG.BASE_MAPS];
-            const bounds = activeTextureBounds;
+            const textureBounds = activeTextureBounds;
 
             // If using FULL bounds, we don't need Detail Layer (Base Layer handles it)
-            if (bounds === TERRAIN_CONFIG.BOUNDS) {
+            if (textureBounds === bounds) {
                 setDetailMapTexture(null);
                 return;
             }
@@ -478,8 +636,8 @@ const TerrainComponent: React.FC<TerrainProps & { onHeightRangeChange?: (min: nu
             const zoom = baseMapZoom; // High Res (18-19)
             console.log(`🔎 Detail Layer Loading: Zoom ${zoom} (Partial)`);
 
-            const minTile = latLonToTile(bounds.latMax, bounds.lonMin, zoom);
-            const maxTile = latLonToTile(bounds.latMin, bounds.lonMax, zoom);
+            const minTile = getTileXYZ(textureBounds.latMax, textureBounds.lonMin, zoom);
+            const maxTile = getTileXYZ(textureBounds.latMin, textureBounds.lonMax, zoom);
 
             const tilesX = maxTile.x - minTile.x + 1;
             const tilesY = maxTile.y - minTile.y + 1;
@@ -504,15 +662,8 @@ const TerrainComponent: React.FC<TerrainProps & { onHeightRangeChange?: (min: nu
             const finishDetailTexture = () => {
                 if (!active) return;
 
-                const latLonToPixel = (lat: number, lon: number, zoom: number) => {
-                    const scale = Math.pow(2, zoom);
-                    const worldX = (lon + 180) / 360 * scale;
-                    const worldY = (1 - Math.log(Math.tan(lat * Math.PI / 180) + 1 / Math.cos(lat * Math.PI / 180)) / Math.PI) / 2 * scale;
-                    return { x: worldX * 256, y: worldY * 256 };
-                };
-
-                const minPixel = latLonToPixel(TERRAIN_CONFIG.BOUNDS.latMax, TERRAIN_CONFIG.BOUNDS.lonMin, zoom);
-                const maxPixel = latLonToPixel(TERRAIN_CONFIG.BOUNDS.latMin, TERRAIN_CONFIG.BOUNDS.lonMax, zoom);
+                const minPixel = latLonToPixel(bounds.latMax, bounds.lonMin, zoom);
+                const maxPixel = latLonToPixel(bounds.latMin, bounds.lonMax, zoom);
                 const minTilePixelX = minTile.x * 256;
                 const minTilePixelY = minTile.y * 256;
 
@@ -540,49 +691,65 @@ const TerrainComponent: React.FC<TerrainProps & { onHeightRangeChange?: (min: nu
                     const tileY = minTile.y + ty;
                     const tileUrl = urlTemplate.replace('{x}', tileX.toString()).replace('{y}', tileY.toString()).replace('{z}', zoom.toString());
 
-                    const img = new Image();
-                    img.crossOrigin = 'Anonymous';
-                    img.onload = () => {
+                    loadCachedImageTile(tileUrl).then(img => {
                         if (!active) return;
-                        ctx.drawImage(img, tx * tileSize + padding, ty * tileSize + padding);
+                        if (img) {
+                            ctx.drawImage(img, tx * tileSize + padding, ty * tileSize + padding);
+                            img.close();
+                        }
                         loadedCount++;
                         if (loadedCount === totalTiles) finishDetailTexture();
-                    };
-                    img.onerror = () => { loadedCount++; if (loadedCount === totalTiles) finishDetailTexture(); };
-                    img.src = tileUrl;
+                    });
                 }
             }
         } else {
             setDetailMapTexture(null);
         }
         return () => { active = false; };
-    }, [baseMapName, baseMapZoom, activeTextureBounds]);
+    }, [baseMapName, baseMapZoom, activeTextureBounds, bounds]);
 
+    // A new area invalidates everything derived from the old overview DEM
+    const loadedBounds = useRef(bounds);
     useEffect(() => {
-        // Fetch DEM with dynamic LOD - using FULL bounds (not visibleBounds)
-        // Progressive Loading: Keep previous data while loading new data
-        console.log(`DEM LOD Update: Zoom ${lodZoom}, using full TERRAIN_CONFIG.BOUNDS`);
+        if (loadedBounds.current === bounds) return;
+        loadedBounds.current = bounds;
+        setPreviousTerrainData(null);
+        setTerrainData(null);
+    }, [bounds]);
+
+    useEffect(() => {
+        // Local DEM replaces remote tiles entirely (surface chunks are cut from it as well)
+        if (demOverride) {
+            setPreviousTerrainData(terrainData);
+            setTerrainData(demOverride);
+        }
+    }, [demOverride]);
+
+    useEffect(() => {
+        if (demOverride) return;
+
+        // Overview DEM for the whole area at a fixed zoom (contours, walls, hover, analysis).
+        // Surface detail comes from the quadtree chunks instead.
+        const overviewZoom = calculateOptimalZoom(bounds, TERRAIN_CONFIG.TERRAIN_LOD.OVERVIEW_RESOLUTION);
+        console.log(`DEM Overview: Zoom ${overviewZoom}, using the full area bounds`);
 
         setIsLoadingTerrain(true);
-        let active = true;
+        const token = new CancellationToken();
 
-        fetchTerrainTile(lodZoom, TERRAIN_CONFIG.BOUNDS).then(data => {
-            if (active) {
-                // Save previous data before updating
-                setPreviousTerrainData(terrainData);
-                setTerrainData(data);
-                setIsLoadingTerrain(false);
-            }
+        terrainWorkerPool.run<TerrainData>({ type: 'loadDem', zoom: overviewZoom, bounds: bounds }, token).then(data => {
+            // Save previous data before updating
+            setPreviousTerrainData(terrainData);
+            setTerrainData(data);
+            setIsLoadingTerrain(false);
         }).catch(error => {
+            if (error instanceof CancelledError) return;
             console.error('Failed to load terrain:', error);
-            if (active) {
-                setIsLoadingTerrain(false);
-                // Keep previous data on error
-            }
+            setIsLoadingTerrain(false);
+            // Keep previous data on error
         });
 
-        return () => { active = false; };
-    }, [lodZoom]); // Only reload when lodZoom changes (not on pan!)
+        return () => token.cancel();
+    }, [demOverride, bounds]);
 
     // Calculate visible range based on shape
     const visibleRange = useMemo(() => {
@@ -623,527 +790,278 @@ const TerrainComponent: React.FC<TerrainProps & { onHeightRangeChange?: (min: nu
         }
     }, [visibleRange, onHeightRangeChange]);
 
-    const { topGeometry, sideGeometries } = useMemo(() => {
-        if (!terrainData || !visibleRange) return { topGeometry: null, sideGeometries: [] };
-        const { width, height, data, minHeight } = terrainData;
-        const { min: visibleMin, max: visibleMax } = visibleRange;
-
-        // --- Top Surface ---
-        // PERFORMANCE OPTIMIZATION: Limit geometry resolution to prevent slowdowns
-        // High zoom levels can have 256x256+ DEM data = 65k+ vertices = VERY SLOW!
-        // Solution: Downsample geometry while keeping texture quality
-
-        const MAX_GEOMETRY_RES = 128; // Limit to 128x128 = 16,384 vertices max
-        const actualWidth = Math.min(width, MAX_GEOMETRY_RES);
-        const actualHeight = Math.min(height, MAX_GEOMETRY_RES);
-
-        const geo = new THREE.PlaneGeometry(100, 100, actualWidth - 1, actualHeight - 1);
-
-        console.log(`🔺 Geometry: ${actualWidth}x${actualHeight} (${actualWidth * actualHeight} vertices) from DEM ${width}x${height}`);
-
-        const count = geo.attributes.position.count;
-        const arr = geo.attributes.position.array;
-
-        // Downsample DEM data to match geometry resolution if needed
-        let sampledData: Float32Array;
-        if (actualWidth < width || actualHeight < height) {
-            // Need to downsample DEM data
-            sampledData = new Float32Array(actualWidth * actualHeight);
-
-            for (let gy = 0; gy < actualHeight; gy++) {
-                for (let gx = 0; gx < actualWidth; gx++) {
-                    // Map geometry coordinate to DEM coordinate
-                    const demX = Math.floor((gx / (actualWidth - 1)) * (width - 1));
-                    const demY = Math.floor((gy / (actualHeight - 1)) * (height - 1));
-                    const demIdx = demY * width + demX;
-                    const geoIdx = gy * actualWidth + gx;
-
-                    sampledData[geoIdx] = data[demIdx] || minHeight;
-                }
-            }
-        } else {
-            // No downsampling needed
-            sampledData = data;
-        }
-
-        // Initialize vertex colors buffer (allocated but not computed yet)
-        const colors = new Float32Array(count * 3);
-        geo.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-
-        // Store original height data as custom attribute
-        const heightData = new Float32Array(geo.attributes.position.count);
-        for (let i = 0; i < heightData.length; i++) {
-            heightData[i] = sampledData[i] || minHeight;
-        }
-        geo.setAttribute('heightData', new THREE.BufferAttribute(heightData, 1));
-
-        const heightRange = visibleMax - visibleMin || 1;
-        // Apply exaggeration directly to vertices to separate it from soil depth
-        const currentMultiplier = exaggeration / 100;
-
-        for (let i = 0; i < count; i++) {
-            // Use downsampled DEM data
-            const rawHeight = sampledData[i] || minHeight;
-            const relativeHeight = rawHeight - minHeight;
-            arr[i * 3 + 2] = relativeHeight * currentMultiplier;
-
-            // Initial UVs are standard 0..1 from PlaneGeometry, which is fine for start.
-            // We will update them in the useEffect below if needed.
-        }
-
-        geo.computeVertexNormals();
-
-        // Calculate Soil Depth
-        const dimensions = calculateBoundsDimensions(TERRAIN_CONFIG.BOUNDS);
-        const soilDepthMeters = TERRAIN_CONFIG.SOIL_DEPTH_UNIT === 'percent'
-            ? dimensions.minDimension * (TERRAIN_CONFIG.SOIL_DEPTH_VALUE / 100)
-            : TERRAIN_CONFIG.SOIL_DEPTH_VALUE;
+    // Soil walls are built in the terrain worker from the overview DEM
+    const [sideGeometries, setSideGeometries] = useState<THREE.BufferGeometry[]>([]);
 
-        // Base depth is fixed relative to map width (1:1 scale), unaffected by exaggeration
-        const baseDepth = -soilDepthMeters;
-
-        const sides: THREE.BufferGeometry[] = [];
-
-        if (shape === 'rectangle') {
-            const halfSize = 50;
-
-            const generateWall = (edge: 'N' | 'S' | 'W' | 'E') => {
-                const isHorizontal = edge === 'N' || edge === 'S';
-                const segmentCount = isHorizontal ? width - 1 : height - 1;
-
-                const positions = new Float32Array(segmentCount * 6 * 3); // 6 vertices per quad, 3 components per vertex
-                const uvs = new Float32Array(segmentCount * 6 * 2);       // 6 vertices per quad, 2 components per UV
-                const normals = new Float32Array(segmentCount * 6 * 3);  // 6 vertices per quad, 3 components per normal
-
-                const stepX = 100 / (width - 1);
-                const stepY = 100 / (height - 1);
-
-                let idx = 0; // Index for the positions, uvs, normals arrays
-
-                // Determine normal direction for the wall
-                const nx = edge === 'W' ? -1 : (edge === 'E' ? 1 : 0);
-                const ny = edge === 'N' ? 1 : (edge === 'S' ? -1 : 0);
-                const nz = 0; // Normals are in XY plane (local to group, which is world XY after rotation)
-
-                // Helper to get coordinates and height for a point along the edge
-                const getProps = (k: number) => {
-                    let x = 0, y = 0, hIndex = 0;
-                    if (edge === 'N') { // North edge (top row of data, y = +50)
-                        x = -halfSize + k * stepX;
-                        y = halfSize;
-                        hIndex = k; // Row 0
-                    } else if (edge === 'S') { // South edge (bottom row of data, y = -50)
-                        x = -halfSize + k * stepX;
-                        y = -halfSize;
-                        hIndex = (height - 1) * width + k; // Row Max
-                    } else if (edge === 'W') { // West edge (left column of data, x = -50)
-                        x = -halfSize;
-                        y = halfSize - k * stepY; // Iterate from top (N) to bottom (S)
-                        hIndex = k * width; // Col 0, Row k
-                    } else if (edge === 'E') { // East edge (right column of data, x = +50)
-                        x = halfSize;
-                        y = halfSize - k * stepY; // Iterate from top (N) to bottom (S)
-                        hIndex = k * width + (width - 1); // Col Max, Row k
-                    }
-
-                    const rawH = data[hIndex] || minHeight;
-                    const z = (rawH - minHeight) * currentMultiplier;
-                    return { x, y, z };
-                };
-
-                // Helper to push a vertex's data
-                const pushVert = (v: { x: number, y: number, z: number }, u: number, v_coord: number) => {
-                    positions[idx * 3] = v.x;
-                    positions[idx * 3 + 1] = v.y;
-                    positions[idx * 3 + 2] = v.z;
+    useEffect(() => {
+        if (!terrainData) return;
+
+        const token = new CancellationToken();
+        terrainWorkerPool.run<GeometryBuffers[]>({
+            type: 'buildWalls',
+            terrainData,
+            options: { shape, exaggeration, bounds: bounds },
+        }, token).then(walls => {
+            setSideGeometries(walls.map(buffersToGeometry));
+        }).catch(error => {
+            if (error instanceof CancelledError) return;
+            console.error('Failed to build soil walls:', error);
+        });
 
-                    normals[idx * 3] = nx;
-                    normals[idx * 3 + 1] = ny;
-                    normals[idx * 3 + 2] = nz;
+        return () => token.cancel();
+    }, [terrainData, shape, exaggeration, bounds]);
 
-                    uvs[idx * 2] = u;
-                    uvs[idx * 2 + 1] = v_coord; // V=0 at top, V=1 at bottom for texture
+    // Free GPU buffers of replaced geometries
+    useEffect(() => () => {
+        sideGeometries.forEach(geo => geo.dispose());
+    }, [sideGeometries]);
 
-                    idx++;
-                };
+    // Slope / aspect rasters are only computed once an analysis coloring or a watershed summary needs them
+    const [slopeAspect, setSlopeAspect] = useState<SlopeAspect | null>(null);
+    const needsSlopeAspect = surfaceMode !== 'elevation' || !!hydrology?.pourPoint;
 
-                for (let i = 0; i < segmentCount; i++) {
-                    const p1 = getProps(i);     // Current point on the top edge
-                    const p2 = getProps(i + 1);   // Next point on the top edge
-
-                    // Define the four corners of the quad for this segment
-                    const TL = { x: p1.x, y: p1.y, z: p1.z };         // Top-Left (current segment's top)
-                    const BL = { x: p1.x, y: p1.y, z: baseDepth };    // Bottom-Left (current segment's base)
-                    const TR = { x: p2.x, y: p2.y, z: p2.z };         // Top-Right (next segment's top)
-                    const BR = { x: p2.x, y: p2.y, z: baseDepth };    // Bottom-Right (next segment's base)
-
-                    // UV mapping for horizontal (U) and vertical (V) texture coordinates
-                    const u1 = i / segmentCount;
-                    const u2 = (i + 1) / segmentCount;
-
-                    // Vertices for the two triangles forming the quad
-                    // Winding order is crucial for correct face culling and normal direction.
-                    // We want the normal to point outwards from the terrain block.
-                    // The group is rotated [-Math.PI / 2, 0, 0], so local Y is world Z, local Z is world -Y.
-                    // The normals (nx, ny, nz) are defined in the group's local XY plane.
-                    // After group rotation, (nx, ny, 0) becomes (nx, 0, ny) in world space.
-                    // So, for North wall (ny=1), normal is (0,0,1) in world Z.
-                    // For South wall (ny=-1), normal is (0,0,-1) in world Z.
-                    // For West wall (nx=-1), normal is (-1,0,0) in world X.
-                    // For East wall (nx=1), normal is (1,0,0) in world X.
-
-                    if (edge === 'N') { // Normal (0,1,0) in local space. Points "up" in world Z.
-                        // Tri 1: BL, TR, TL (CCW when looking from +Y local, which is +Z world)
-                        pushVert(BL, u1, 1); pushVert(TR, u2, 0); pushVert(TL, u1, 0);
-                        // Tri 2: BL, BR, TR
-                        pushVert(BL, u1, 1); pushVert(BR, u2, 1); pushVert(TR, u2, 0);
-                    } else if (edge === 'S') { // Normal (0,-1,0) in local space. Points "down" in world Z.
-                        // Tri 1: TL, TR, BL (CCW when looking from -Y local, which is -Z world)
-                        pushVert(TL, u1, 0); pushVert(TR, u2, 0); pushVert(BL, u1, 1);
-                        // Tri 2: TR, BR, BL
-                        pushVert(TR, u2, 0); pushVert(BR, u2, 1); pushVert(BL, u1, 1);
-                    } else if (edge === 'W') { // Normal (-1,0,0) in local space. Points "left" in world X.
-                        // Tri 1: TL, TR, BL (CCW when looking from -X local, which is -X world)
-                        pushVert(TL, u1, 0); pushVert(TR, u2, 0); pushVert(BL, u1, 1);
-                        // Tri 2: TR, BR, BL
-                        pushVert(TR, u2, 0); pushVert(BR, u2, 1); pushVert(BL, u1, 1);
-                    } else { // E (Normal (1,0,0) in local space. Points "right" in world X.)
-                        // Tri 1: BL, TR, TL (CCW when looking from +X local, which is +X world)
-                        pushVert(BL, u1, 1); pushVert(TR, u2, 0); pushVert(TL, u1, 0);
-                        // Tri 2: BL, BR, TR
-                        pushVert(BL, u1, 1); pushVert(BR, u2, 1); pushVert(TR, u2, 0);
-                    }
-                }
+    useEffect(() => {
+        setSlopeAspect(null);
+        if (!terrainData || !needsSlopeAspect) return;
 
-                const geo = new THREE.BufferGeometry();
-                geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-                geo.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
-                geo.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
-                return geo;
-            };
+        const token = new CancellationToken();
+        terrainWorkerPool.run<SlopeAspect>({ type: 'slopeAspect', terrainData, bounds }, token).then(setSlopeAspect).catch(error => {
+            if (error instanceof CancelledError) return;
+            console.error('Failed to compute slope/aspect:', error);
+        });
 
-            sides.push(generateWall('N'));
-            sides.push(generateWall('S'));
-            sides.push(generateWall('W'));
-            sides.push(generateWall('E'));
-        } else if (shape === 'ellipse') {
-            const R = 49.6; // Slightly less than 50 to match mask (254/512 approx)
-            const segments = 128; // Smoothness
-
-            // Helper for bilinear interpolation
-            const getHeight = (x: number, y: number) => {
-                // x, y in -50..50 range
-                // Map to grid coordinates
-                // Grid X: -50 -> 0, +50 -> width-1
-                const gx = ((x + 50) / 100) * (width - 1);
-                // Grid Y: +50 -> 0, -50 -> height-1 (Row 0 is Top/+50)
-                const gy = ((50 - y) / 100) * (height - 1);
-
-                const ix = Math.floor(gx);
-                const iy = Math.floor(gy);
-                const fx = gx - ix;
-                const fy = gy - iy;
-
-                // Clamp indices
-                const c = (v: number, max: number) => Math.max(0, Math.min(max, v));
-                const idx = (cX: number, cY: number) => c(cY, height - 1) * width + c(cX, width - 1);
-
-                const h00 = data[idx(ix, iy)] || minHeight;
-                const h10 = data[idx(ix + 1, iy)] || minHeight;
-                const h01 = data[idx(ix, iy + 1)] || minHeight;
-                const h11 = data[idx(ix + 1, iy + 1)] || minHeight;
-
-                // Bilinear
-                const hTop = h00 * (1 - fx) + h10 * fx;
-                const hBot = h01 * (1 - fx) + h11 * fx;
-                const h = hTop * (1 - fy) + hBot * fy;
-
-                return (h - minHeight) * currentMultiplier;
+        return () => token.cancel();
+    }, [terrainData, bounds, needsSlopeAspect]);
+
+    // Classified raster + class colors used instead of the elevation palette
+    const surfaceClasses = useMemo(() => {
+        if (!slopeAspect || surfaceMode === 'elevation') return null;
+        const { SLOPE_CLASSES_DEGREES, SLOPE_CLASSES_PERCENT, ASPECT_CLASSES, ASPECT_FLAT_COLOR } = TERRAIN_CONFIG.SURFACE_ANALYSIS;
+
+        if (surfaceMode === 'slope') {
+            const classes = slopeUnit === 'percent' ? SLOPE_CLASSES_PERCENT : SLOPE_CLASSES_DEGREES;
+            return {
+                width: slopeAspect.width,
+                height: slopeAspect.height,
+                classes: classifySlope(slopeAspect.slope, slopeUnit, classes),
+                colors: classes.map(c => parseHexColor(c.color)),
             };
-
-            const positions: number[] = [];
-            const normals: number[] = [];
-            const uvs: number[] = [];
-
-            for (let i = 0; i < segments; i++) {
-                // Current Angle
-                const theta1 = (i / segments) * 2 * Math.PI;
-                const x1 = R * Math.cos(theta1);
-                const y1 = R * Math.sin(theta1);
-                const z1 = getHeight(x1, y1);
-
-                // Next Angle
-                const theta2 = ((i + 1) / segments) * 2 * Math.PI;
-                const x2 = R * Math.cos(theta2);
-                const y2 = R * Math.sin(theta2);
-                const z2 = getHeight(x2, y2);
-
-                // Vertices
-                // TL: p1 top
-                // BL: p1 base
-                // TR: p2 top
-                // BR: p2 base
-                // Normal? Outward radial.
-                // N1 = (cos t1, sin t1, 0)
-                // N2 = (cos t2, sin t2, 0)
-
-                const addVert = (x: number, y: number, z: number, th: number, u: number, v: number) => {
-                    positions.push(x, y, z);
-                    // Normal points out from center in XY plane
-                    normals.push(Math.cos(th), Math.sin(th), 0);
-                    uvs.push(u, v);
-                };
-
-                const u1 = i / segments;
-                const u2 = (i + 1) / segments;
-
-                // Tri 1: BL, TR, TL (Outward CCW??)
-                // Let's check winding. Center (0,0).
-                // Theta goes 0 -> 2PI (CCW in XY).
-                // 1 is Angle 0. 2 is Angle Small+.
-                // 1 is Right. 2 is Slightly Up-Right.
-                // Looking from Outside (Right):
-                // TL(1), TR(2).
-                // Triangle BL, TR, TL.
-                // BL(1, base) -> TR(2, top) -> TL(1, top).
-                // Vector BL->TR (up-ish, left-ish). BL->TL (up-ish).
-                // Cross product...
-                // Let's stick to standard counter-clockwise definition.
-                // 1 is "Left" in the sequence if we walk CCW?
-                // No, if we walk CCW, 1 is 'previous', 2 is 'next'.
-                // So 1 is Left, 2 is Right (if looking from center).
-                // But we look from OUTSIDE.
-                // Looking from outside, 1 (Angle 0) is Right?? No.
-                // Angle 0 is East. Angle small is North-East.
-                // If I stand East and look West (at terrain):
-                // 0 is Center-ish. Small is Right-ish.
-                // Wait. Standard CCW 2D plane.
-                // Let's just create Quad p1(Left), p2(Right).
-                // p1 is Angle i. p2 is Angle i+1.
-                // From outside?
-                // Tangent is (-sin, cos).
-                // Normal (cos, sin).
-                // If we move along tangent, we move CCW.
-                // So p1 is "behind", p2 is "ahead".
-                // If we face the wall (looking inward -Normal), Left is p2, Right is p1.
-                // If we face OUTWARD (looking along Normal):
-                // Left is p1. Right is p2.
-                // So p1=Left, p2=Right.
-                // TL=Top1, TR=Top2.
-                // Quad: TL, BL, TR, BR.
-                // Tri 1: BL, TR, TL.
-                // Tri 2: BL, BR, TR.
-
-                // BL
-                addVert(x1, y1, baseDepth, theta1, u1, 1);
-                // TR
-                addVert(x2, y2, z2, theta2, u2, 0);
-                // TL
-                addVert(x1, y1, z1, theta1, u1, 0);
-
-                // BL
-                addVert(x1, y1, baseDepth, theta1, u1, 1);
-                // BR
-                addVert(x2, y2, baseDepth, theta2, u2, 1);
-                // TR
-                addVert(x2, y2, z2, theta2, u2, 0);
-            }
-
-            const geo = new THREE.BufferGeometry();
-            geo.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
-            geo.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
-            geo.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
-            sides.push(geo);
         }
+        return {
+            width: slopeAspect.width,
+            height: slopeAspect.height,
+            classes: classifyAspect(slopeAspect.aspect),
+            colors: [...ASPECT_CLASSES.map(c => parseHexColor(c.color)), parseHexColor(ASPECT_FLAT_COLOR)],
+        };
+    }, [slopeAspect, surfaceMode, slopeUnit]);
 
-        return { topGeometry: geo, sideGeometries: sides };
-    }, [terrainData, visibleRange, shape, exaggeration]); // Exaggeration dependency added
+    // Baked hillshade raster on the overview DEM, recomputed when the sun settings change
+    const [hillshadeRaster, setHillshadeRaster] = useState<{ width: number; height: number; shade: Float32Array } | null>(null);
+    const hillshadeEnabled = !!hillshade?.enabled;
+    const hillshadeAzimuth = hillshade?.azimuth ?? TERRAIN_CONFIG.HILLSHADE.AZIMUTH;
+    const hillshadeAltitude = hillshade?.altitude ?? TERRAIN_CONFIG.HILLSHADE.ALTITUDE;
+    const hillshadeMultidirectional = hillshade?.multidirectional ?? TERRAIN_CONFIG.HILLSHADE.MULTIDIRECTIONAL;
 
-    // Effect to handle Appearance Updates (Colors & UVs) directly on the geometry
     useEffect(() => {
-        if (!topGeometry || !visibleRange) return;
-
-        const geo = topGeometry;
-        const count = geo.attributes.position.count;
-        const heightDataAttr = geo.getAttribute('heightData');
-        const colorAttr = geo.getAttribute('color');
-        const uvAttr = geo.getAttribute('uv');
-
-        if (!heightDataAttr || !colorAttr || !uvAttr) return;
-
-        // 1. Ensure UVs are standard 0..1 (PlaneGeometry defaults)
-        // This is crucial for alphaMap (ellipse) to work correctly.
-        // We no longer modify UVs for the Base Map; we modify the texture offset/repeat instead.
-        // However, since we previously mutated UVs, we must reset them here to be safe.
-        const uvArray = uvAttr.array as Float32Array;
-        // Logic must match geometry generation (MAX_GEOMETRY_RES = 128)
-        const MAX_GEOMETRY_RES = 128;
-        const tWidth = terrainData?.width || 2;
-        const tHeight = terrainData?.height || 2;
-        // Use the actual geometry resolution for UV mapping to match vertex topology
-        const widthSegments = Math.min(tWidth, MAX_GEOMETRY_RES) - 1;
-        const heightSegments = Math.min(tHeight, MAX_GEOMETRY_RES) - 1;
-
-        for (let i = 0; i < count; i++) {
-            const ix = i % (widthSegments + 1);
-            const iy = Math.floor(i / (widthSegments + 1));
-            const u = ix / widthSegments;
-            const v = 1 - (iy / heightSegments);
-            uvArray[i * 2] = u;
-            uvArray[i * 2 + 1] = v;
+        if (!terrainData || !hillshadeEnabled) {
+            setHillshadeRaster(null);
+            return;
         }
-        uvAttr.needsUpdate = true;
-
 
-        // 2. Handle Color Updates (Palette)
-        // Optimization: Even if using Base Map, we update colors so switching back is fast.
-        // OR: Only update if !baseMapTexture to save CPU? 
-        // Let's update always to keep state consistent, but optimize the loop 
-        // Update: optimizing the loop with pre-parsed colors.
+        const token = new CancellationToken();
+        const options = { azimuth: hillshadeAzimuth, altitude: hillshadeAltitude, multidirectional: hillshadeMultidirectional, zFactor: TERRAIN_CONFIG.HILLSHADE.Z_FACTOR };
+        terrainWorkerPool.run<Float32Array>({ type: 'hillshade', terrainData, bounds, options }, token).then(shade => {
+            setHillshadeRaster({ width: terrainData.width, height: terrainData.height, shade });
+        }).catch(error => {
+            if (error instanceof CancelledError) return;
+            console.error('Failed to compute hillshade:', error);
+        });
 
-        const heightData = heightDataAttr.array as Float32Array;
-        const colorArray = colorAttr.array as Float32Array;
+        return () => token.cancel();
+    }, [terrainData, bounds, hillshadeEnabled, hillshadeAzimuth, hillshadeAltitude, hillshadeMultidirectional]);
+
+    // Shading factors are normalized so flat ground keeps its color: lit slopes brighten, shaded ones darken
+    const hillshadeBlend = useMemo(() => {
+        if (!hillshadeRaster || !hillshade?.enabled) return null;
+        const flat = Math.max(Math.sin(hillshadeAltitude * Math.PI / 180), 0.05);
+        return { ...hillshadeRaster, flat, strength: hillshade.strength };
+    }, [hillshadeRaster, hillshade?.enabled, hillshade?.strength, hillshadeAltitude]);
+
+    // Translucent analysis layers draped over every chunk (whole-area textures, keyed by layer)
+    const [overlays, setOverlays] = useState<Record<string, THREE.Texture>>({});
+    const setOverlay = useCallback((name: string, texture: THREE.Texture | null) => {
+        setOverlays(prev => {
+            const next = { ...prev };
+            if (texture) next[name] = texture;
+            else delete next[name];
+            return next;
+        });
+    }, []);
+    const setViewshedOverlay = useCallback((texture: THREE.Texture | null) => setOverlay('viewshed', texture), [setOverlay]);
+    const setWatershedOverlay = useCallback((texture: THREE.Texture | null) => setOverlay('watershed', texture), [setOverlay]);
+    const setCutFillOverlay = useCallback((texture: THREE.Texture | null) => setOverlay('cutFill', texture), [setOverlay]);
+
+    // Shader contours: one uniform set shared by all surface materials, so config changes cost nothing
+    const contourUniforms = useMemo(() => createContourUniforms(), []);
+    const contourShaderHook = useMemo(() => createContourShaderHook(contourUniforms), [contourUniforms]);
+    useEffect(() => {
+        const defaults = TERRAIN_CONFIG.CONTOURS;
+        updateContourUniforms(contourUniforms, {
+            enabled: (contourConfig?.enabled ?? defaults.ENABLED) && (contourConfig?.mode ?? defaults.MODE) === 'shader',
+            interval: contourConfig?.interval ?? defaults.INTERVAL,
+            majorInterval: contourConfig?.majorInterval ?? defaults.MAJOR_INTERVAL,
+            minorOpacity: contourConfig?.minorOpacity ?? defaults.MINOR_LINE_OPACITY,
+            majorOpacity: contourConfig?.majorOpacity ?? defaults.MAJOR_LINE_OPACITY,
+        });
+    }, [contourConfig, contourUniforms]);
 
-        const { min: visibleMin, max: visibleMax } = visibleRange;
-        const heightRange = visibleMax - visibleMin || 1;
+    // Pre-parse colors to avoid thousands of regex calls inside the appearance loop
+    const rgbPalette = useMemo(() => {
         const safePalette = paletteColors && paletteColors.length > 0 ? paletteColors : ['#000000', '#ffffff'];
-
-        // --- MICRO-DISPLACEMENT LOGIC ---
-        // Enhanced detail from texture for Satellite maps at high zoom
-        // Disabled during LOD transitions for better performance
-        let displacementData: Float32Array | null = null;
-
-        const applyDisplacement = enableMicroDisplacement && !isLodTransitioning && !disableHover && baseMapName === 'Google Satellite' && lodZoom >= TERRAIN_CONFIG.DEM_MAX_LEVEL && baseMapTexture && baseMapTexture.image;
-
-        if (applyDisplacement) {
-            try {
-                const img = baseMapTexture.image;
-                // Create a temporary canvas to read pixels if image is not already a canvas
-                let ctx: CanvasRenderingContext2D | null = null;
-                if (img instanceof HTMLCanvasElement) {
-                    ctx = img.getContext('2d');
-                } else {
-                    const canvas = document.createElement('canvas');
-                    canvas.width = img.width;
-                    canvas.height = img.height;
-                    const c = canvas.getContext('2d');
-                    if (c) {
-                        c.drawImage(img, 0, 0);
-                        ctx = c;
-                    }
+        return safePalette.map(parseHexColor);
+    }, [paletteColors]);
+
+    // --- MICRO-DISPLACEMENT SOURCE ---
+    // Satellite pixels used for artificial roughness, read back once per base map texture
+    const displacementSource = useMemo(() => {
+        const enabled = enableMicroDisplacement && !disableHover && baseMapName === 'Google Satellite' && baseMapTexture && baseMapTexture.image;
+        if (!enabled) return null;
+
+        try {
+            const img = baseMapTexture.image;
+            // Create a temporary canvas to read pixels if image is not already a canvas
+            let ctx: CanvasRenderingContext2D | null = null;
+            if (img instanceof HTMLCanvasElement) {
+                ctx = img.getContext('2d');
+            } else {
+                const canvas = document.createElement('canvas');
+                canvas.width = img.width;
+                canvas.height = img.height;
+                const c = canvas.getContext('2d');
+                if (c) {
+                    c.drawImage(img, 0, 0);
+                    ctx = c;
                 }
-
-                if (ctx) {
-                    const w = img.width;
-                    const h = img.height;
-                    const imgData = ctx.getImageData(0, 0, w, h).data;
-                    displacementData = new Float32Array(count);
-
-                    // Strength of displacement (meters)
-                    // At zoom 16+ each pixel is <2m. Trees are 5-20m.
-                    const detailStrength = TERRAIN_CONFIG.MICRO_DISPLACEMENT_INTENSITY * (exaggeration / 100);
-
-                    // We compute roughness/luminance at each vertex UV
-                    const uvArr = uvAttr.array as Float32Array;
-
-                    for (let i = 0; i < count; i++) {
-                        const u = uvArr[i * 2];
-                        const v = uvArr[i * 2 + 1]; // v is 0..1 (bottom to top? or top to bottom? Standard Plane is 0 bottom 1 top? No top-left usually)
-                        // In our UV generation: v = 1 - (iy / heightSegments). iy=0 (top) -> v=1. iy=max -> v=0.
-                        // Texture image Y: 0 is top.
-                        // So imageY = (1 - v) * h.
-
-                        // Clamp UV
-                        const tx = Math.floor(Math.max(0, Math.min(1, u)) * (w - 1));
-                        const ty = Math.floor(Math.max(0, Math.min(1, 1 - v)) * (h - 1));
-
-                        const idx = (ty * w + tx) * 4;
-                        const r = imgData[idx];
-                        const g = imgData[idx + 1];
-                        const b = imgData[idx + 2];
-
-                        // Luminance
-                        const lum = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
-
-                        // High-pass filter approximation? 
-                        // Just use straight luminance as height offset for now (Leaves/Roofs often brighter than gaps/shadows)
-                        // Shift range to -0.5..0.5 so we don't just raise everything.
-                        displacementData[i] = (lum - 0.5) * detailStrength;
-                    }
-                }
-            } catch (e) {
-                console.warn("Failed to calculate displacement", e);
             }
+            if (!ctx) return null;
+            return { data: ctx.getImageData(0, 0, img.width, img.height).data, width: img.width as number, height: img.height as number };
+        } catch (e) {
+            console.warn("Failed to calculate displacement", e);
+            return null;
         }
+    }, [enableMicroDisplacement, disableHover, baseMapName, baseMapTexture]);
 
-        // --- END DISPLACEMENT LOGIC ---
+    // Appearance pass for one chunk: heights with exaggeration (+ displacement), normals and palette colors
+    const applyChunkAppearance = (chunk: LoadedChunk) => {
+        if (!visibleRange) return;
 
+        const geo = chunk.geometry;
+        const count = geo.attributes.position.count;
+        const heightData = geo.getAttribute('heightData').array as Float32Array;
+        const skirt = geo.getAttribute('skirt').array as Float32Array;
+        const uvArr = geo.getAttribute('uv').array as Float32Array;
+        const colorAttr = geo.getAttribute('color');
+        const colorArray = colorAttr.array as Float32Array;
         const positionAttr = geo.attributes.position;
         const posArray = positionAttr.array as Float32Array;
+        const filledAttr = geo.getAttribute('filled');
+        const filled = TERRAIN_CONFIG.NODATA.SHOW_FILLED && filledAttr ? filledAttr.array as Float32Array : null;
+        const updateColors = !baseMapTexture || !!filled || !!hillshadeBlend;
 
-        // Pre-parse colors to avoid thousands of regex calls inside loop
-        const rgbPalette = safePalette.map(hex => {
-            const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})/i.exec(hex);
-            return result ? {
-                r: parseInt(result[1], 16) / 255,
-                g: parseInt(result[2], 16) / 255,
-                b: parseInt(result[3], 16) / 255
-            } : { r: 0, g: 0, b: 0 };
-        });
-
-        // Current multiplier from geometry generation logic
+        const { min: visibleMin, max: visibleMax } = visibleRange;
+        const heightRange = visibleMax - visibleMin || 1;
         const currentMultiplier = exaggeration / 100;
 
+        // Displacement only where the DEM itself is at full resolution
+        const displacement = chunk.data.zoom >= TERRAIN_CONFIG.DEM_MAX_LEVEL ? displacementSource : null;
+        // Strength of displacement (meters)
+        // At zoom 16+ each pixel is <2m. Trees are 5-20m.
+        const detailStrength = TERRAIN_CONFIG.MICRO_DISPLACEMENT_INTENSITY * (exaggeration / 100);
+
         for (let i = 0; i < count; i++) {
             const hRaw = heightData[i];
 
-            // Re-apply height with exaggeration + displacement
-            const relativeHeight = hRaw - visibleMin;
-            let finalZ = relativeHeight * currentMultiplier;
-
-            if (displacementData) {
-                finalZ += displacementData[i];
+            // Re-apply height with exaggeration (skirts hang below the surface)
+            let finalZ = (hRaw - visibleMin - skirt[i]) * currentMultiplier;
+
+            if (displacement) {
+                // Texture image Y: 0 is top, v = 1 is North
+                const tx = Math.floor(Math.max(0, Math.min(1, uvArr[i * 2])) * (displacement.width - 1));
+                const ty = Math.floor(Math.max(0, Math.min(1, 1 - uvArr[i * 2 + 1])) * (displacement.height - 1));
+                const idx = (ty * displacement.width + tx) * 4;
+                // Luminance, shifted to -0.5..0.5 so we don't just raise everything
+                const lum = (0.299 * displacement.data[idx] + 0.587 * displacement.data[idx + 1] + 0.114 * displacement.data[idx + 2]) / 255;
+                finalZ += (lum - 0.5) * detailStrength;
             }
 
             posArray[i * 3 + 2] = finalZ;
 
             // Color update
-            if (!baseMapTexture) { // Only update colors if no base map, save CPU
-                const hNormalized = (hRaw - visibleMin) / heightRange;
-                const h = Math.min(Math.max(hNormalized, 0), 1);
-
-                const [r, g, b] = getColorFromScaleParsed(h, rgbPalette);
+            if (updateColors) { // Skipped with a base map unless voids need marking, save CPU
+                // White leaves the base map texture untouched
+                let r = 1, g = 1, b = 1;
+                if (!baseMapTexture && surfaceClasses) {
+                    // Nearest analysis cell (uv.y = 1 - v, rows run North -> South)
+                    const col = Math.round(Math.max(0, Math.min(1, uvArr[i * 2])) * (surfaceClasses.width - 1));
+                    const row = Math.round(Math.max(0, Math.min(1, 1 - uvArr[i * 2 + 1])) * (surfaceClasses.height - 1));
+                    const c = surfaceClasses.colors[surfaceClasses.classes[row * surfaceClasses.width + col]];
+                    r = c.r; g = c.g; b = c.b;
+                } else if (!baseMapTexture) {
+                    const hNormalized = (hRaw - visibleMin) / heightRange;
+                    const h = Math.min(Math.max(hNormalized, 0), 1);
+                    [r, g, b] = getColorFromScaleParsed(h, rgbPalette);
+                }
+                if (hillshadeBlend) {
+                    const shade = sampleRaster(hillshadeBlend.shade, hillshadeBlend.width, hillshadeBlend.height, uvArr[i * 2], uvArr[i * 2 + 1]);
+                    const factor = Math.max(0, 1 + hillshadeBlend.strength * (shade / hillshadeBlend.flat - 1));
+                    r *= factor;
+                    g *= factor;
+                    b *= factor;
+                }
+                if (filled && filled[i] > 0) {
+                    const t = filled[i] * TERRAIN_CONFIG.NODATA.FILLED_TINT;
+                    r += (FILLED_RGB.r - r) * t;
+                    g += (FILLED_RGB.g - g) * t;
+                    b += (FILLED_RGB.b - b) * t;
+                }
                 colorArray[i * 3] = r;
                 colorArray[i * 3 + 1] = g;
                 colorArray[i * 3 + 2] = b;
             }
         }
 
-        if (displacementData) {
-            positionAttr.needsUpdate = true;
+        positionAttr.needsUpdate = true;
+        if (displacement) {
             geo.computeVertexNormals();
+        } else {
+            updateChunkNormals(geo, chunk.data, chunk.extent, currentMultiplier, world);
         }
+        // Heights changed: keep culling and raycasting bounds in sync
+        geo.computeBoundingBox();
+        geo.computeBoundingSphere();
 
-        if (!baseMapTexture) {
+        if (updateColors) {
             colorAttr.needsUpdate = true;
         }
+        chunk.appearanceVersion = appearanceVersion.current;
+    };
+    applyAppearanceRef.current = applyChunkAppearance;
 
-        if (!baseMapTexture) {
-            colorAttr.needsUpdate = true;
-        }
+    // Base map meshes only use the color attribute for hillshade or filled-void tinting
+    const baseMapVertexColors = (chunk: LoadedChunk) =>
+        !!hillshadeBlend || (TERRAIN_CONFIG.NODATA.SHOW_FILLED && !!chunk.geometry.getAttribute('filled'));
 
-    }, [topGeometry, visibleRange, paletteColors, baseMapTexture, terrainData?.width, terrainData?.height, lodZoom, exaggeration, baseMapName, enableMicroDisplacement]);
+    // Re-apply appearance to the visible chunks; cached ones are refreshed when they become visible again
+    useEffect(() => {
+        appearanceVersion.current++;
+        visibleChunks.forEach(applyChunkAppearance);
+    }, [visibleRange, rgbPalette, baseMapTexture, exaggeration, displacementSource, surfaceClasses, hillshadeBlend]);
 
     // Calculate dynamic Z-scale based on real-world dimensions
     // User requirement: Height (meters) should match X/Y (meters).
-    // Mesh is 100 units wide. Real world is N meters wide.
-    // Scale X = 100 / RealWidth.
+    // Mesh is W units wide for N meters (W = 100 on the longest side).
+    // Scale X = W / N (baseScale = world.unitsPerMeter).
     // We apply this scale to Z to ensure 1:1 proportion at 100% exaggeration.
-    const dimensions = useMemo(() => calculateBoundsDimensions(TERRAIN_CONFIG.BOUNDS), []);
-    // We use width (X) as the reference for scaling Z to match.
-    // Ideally, the mesh should also respect aspect ratio, but assuming 100x100:
-    const baseScale = 100 / dimensions.width;
-
     const zScale = baseScale * (exaggeration / 100);
 
     const handlePointerMove = (e: THREE.Intersection) => {
@@ -1161,23 +1079,13 @@ const TerrainComponent: React.FC<TerrainProps & { onHeightRangeChange?: (min: nu
         const realHeight = (worldY / zScale) + terrainData.minHeight;
 
         // Calculate Lat/Lon based on World X/Z
-        // Plane is 100x100 (-50 to 50)
-        // X: -50 (LonMin) -> +50 (LonMax)
-        // Z: -50 (Top/North/LatMax) -> +50 (Bottom/South/LatMin)
+        // Plane is world.width x world.height, centered at the origin
+        // X: -halfWidth (LonMin) -> +halfWidth (LonMax)
+        // Z: -halfHeight (Top/North/LatMax) -> +halfHeight (Bottom/South/LatMin)
 
+        // Latitude follows Web Mercator Y, like the DEM rows and the base map
         const { x, z } = e.point;
-        const { latMin, latMax, lonMin, lonMax } = TERRAIN_CONFIG.BOUNDS;
-
-        // Normalize X from -50..50 to 0..1
-        const u = (x + 50) / 100;
-        const lon = lonMin + u * (lonMax - lonMin);
-
-        // Normalize Z from -50..50 to 0..1
-        // Z=-50 -> v=0 (Top) -> LatMax
-        // Z=50 -> v=1 (Bottom) -> LatMin
-        const v = (z + 50) / 100;
-        // Linear interpolation: LatMax -> LatMin
-        const lat = latMax + v * (latMin - latMax);
+        const { lat, lon } = worldToLatLon(x, -z, bounds);
 
         onHover({ height: realHeight, lat, lon });
     };
@@ -1204,106 +1112,123 @@ const TerrainComponent: React.FC<TerrainProps & { onHeightRangeChange?: (min: nu
         return tex;
     }, [shape]);
 
-    if (!topGeometry) return (
+    if (visibleChunks.length === 0) return (
         <mesh>
             <boxGeometry args={[10, 1, 10]} />
             <meshStandardMaterial color="gray" wireframe />
         </mesh>
     );
 
+    const surfaceEvents = {
+        onPointerMove: onHover ? (e: ThreeEvent<PointerEvent>) => {
+            e.stopPropagation();
+            handlePointerMove(e);
+        } : undefined,
+        onPointerOut: onHover ? () => onHover(null) : undefined,
+        onDoubleClick: (e: ThreeEvent<MouseEvent>) => {
+            e.stopPropagation();
+            if (onDoubleClick) onDoubleClick(e.point);
+        },
+    };
+
     return (
         <group ref={meshRef} rotation={[-Math.PI / 2, 0, 0]}>
-            {/* Top Surface */}
-            {/* Top Surface - Palette Mode (Vertex Colors) */}
-            <mesh
-                name="terrain"
-                geometry={topGeometry}
-                receiveShadow
-                castShadow
-                scale={[1, 1, baseScale]}
-                visible={!baseMapTexture}
-                onPointerMove={onHover ? (e) => {
-                    e.stopPropagation();
-                    handlePointerMove(e);
-                } : undefined}
-                onPointerOut={onHover ? () => onHover(null) : undefined}
-                onDoubleClick={(e) => {
-                    e.stopPropagation();
-                    if (onDoubleClick) onDoubleClick(e.point);
-                }}
-            >
-                <meshStandardMaterial
-                    vertexColors={true}
-                    roughness={0.8}
-                    metalness={0.1}
-                    side={THREE.DoubleSide}
-                    alphaMap={alphaMap}
-                    transparent={shape === 'ellipse'}
-                    alphaTest={shape === 'ellipse' ? 0.1 : 0}
-                />
-            </mesh>
-
-            {/* Top Surface - Base Map Mode (Background) */}
-            <mesh
-                name="terrain"
-                geometry={topGeometry}
-                receiveShadow
-                castShadow
-                scale={[1, 1, baseScale]}
-                visible={!!baseMapTexture}
-                onPointerMove={onHover ? (e) => {
-                    e.stopPropagation();
-                    handlePointerMove(e);
-                } : undefined}
-                onPointerOut={onHover ? () => onHover(null) : undefined}
-                onDoubleClick={(e) => {
-                    e.stopPropagation();
-                    if (onDoubleClick) onDoubleClick(e.point);
-                }}
-            >
-                <meshStandardMaterial
-                    map={baseMapTexture}
-                    vertexColors={false}
-                    roughness={0.9}
-                    metalness={0.0}
-                    side={THREE.DoubleSide}
-                    alphaMap={alphaMap}
-                    transparent={shape === 'ellipse'}
-                    alphaTest={shape === 'ellipse' ? 0.1 : 0}
-                />
-            </mesh>
-
-            {/* Top Surface - Detail Map Mode (High Res Overlay) */}
-            <mesh
-                name="terrain"
-                geometry={topGeometry}
-                // No shadows for overlay
-                scale={[1, 1, baseScale]}
-                visible={!!detailMapTexture}
-                renderOrder={1}
-                onPointerMove={onHover ? (e) => {
-                    e.stopPropagation();
-                    handlePointerMove(e);
-                } : undefined}
-                onPointerOut={onHover ? () => onHover(null) : undefined}
-                onDoubleClick={(e) => {
-                    e.stopPropagation();
-                    if (onDoubleClick) onDoubleClick(e.point);
-                }}
-            >
-                <meshStandardMaterial
-                    map={detailMapTexture}
-                    vertexColors={false}
-                    roughness={0.8}
-                    metalness={0.1}
-                    side={THREE.DoubleSide}
-                    alphaMap={alphaMap}
-                    transparent={true}
-                    polygonOffset={true}
-                    polygonOffsetFactor={-1}
-                    alphaTest={shape === 'ellipse' ? 0.1 : 0}
-                />
-            </mesh>
+            {/* Top Surface - one set of meshes per quadtree chunk */}
+            {visibleChunks.map(chunk => (
+                <group key={chunk.node.id}>
+                    {/* Top Surface - Palette Mode (Vertex Colors) */}
+                    <mesh
+                        name="terrain"
+                        geometry={chunk.geometry}
+                        receiveShadow
+                        castShadow
+                        scale={[1, 1, baseScale]}
+                        visible={!baseMapTexture}
+                        {...surfaceEvents}
+                    >
+                        <meshStandardMaterial
+                            vertexColors={true}
+                            roughness={0.8}
+                            onBeforeCompile={contourShaderHook}
+                            metalness={0.1}
+                            side={THREE.DoubleSide}
+                            alphaMap={alphaMap}
+                            transparent={shape === 'ellipse'}
+                            alphaTest={shape === 'ellipse' ? 0.1 : 0}
+                        />
+                    </mesh>
+
+                    {/* Top Surface - Base Map Mode (Background) */}
+                    <mesh
+                        name="terrain"
+                        geometry={chunk.geometry}
+                        receiveShadow
+                        castShadow
+                        scale={[1, 1, baseScale]}
+                        visible={!!baseMapTexture}
+                        {...surfaceEvents}
+                    >
+                        <meshStandardMaterial
+                            // Remount when vertex colors toggle so the shader is recompiled
+                            key={baseMapVertexColors(chunk) ? 'shaded' : 'plain'}
+                            map={baseMapTexture}
+                            vertexColors={baseMapVertexColors(chunk)}
+                            roughness={0.9}
+                            onBeforeCompile={contourShaderHook}
+                            metalness={0.0}
+                            side={THREE.DoubleSide}
+                            alphaMap={alphaMap}
+                            transparent={shape === 'ellipse'}
+                            alphaTest={shape === 'ellipse' ? 0.1 : 0}
+                        />
+                    </mesh>
+
+                    {/* Top Surface - Detail Map Mode (High Res Overlay) */}
+                    <mesh
+                        name="terrain"
+                        geometry={chunk.geometry}
+                        // No shadows for overlay
+                        scale={[1, 1, baseScale]}
+                        visible={!!detailMapTexture}
+                        renderOrder={1}
+                        {...surfaceEvents}
+                    >
+                        <meshStandardMaterial
+                            map={detailMapTexture}
+                            vertexColors={false}
+                            onBeforeCompile={contourShaderHook}
+                            roughness={0.8}
+                            metalness={0.1}
+                            side={THREE.DoubleSide}
+                            alphaMap={alphaMap}
+                            transparent={true}
+                            polygonOffset={true}
+                            polygonOffsetFactor={-1}
+                            alphaTest={shape === 'ellipse' ? 0.1 : 0}
+                        />
+                    </mesh>
+
+                    {/* Analysis Overlays (unlit so class colors stay readable) */}
+                    {Object.entries(overlays).map(([name, texture]) => (
+                        <mesh
+                            key={name}
+                            geometry={chunk.geometry}
+                            scale={[1, 1, baseScale]}
+                            renderOrder={2}
+                        >
+                            <meshBasicMaterial
+                                map={texture}
+                                side={THREE.DoubleSide}
+                                alphaMap={alphaMap}
+                                transparent={true}
+                                depthWrite={false}
+                                polygonOffset={true}
+                                polygonOffsetFactor={-2}
+                            />
+                        </mesh>
+                    ))}
+                </group>
+            ))}
 
             {/* Side Walls */}
             {showSoilProfile && (shape === 'rectangle' || shape === 'ellipse') && sideGeometries.length > 0 && (
@@ -1315,8 +1240,29 @@ const TerrainComponent: React.FC<TerrainProps & { onHeightRangeChange?: (min: nu
                     ))}
                 </>
             )}
-            {terrainData && <Contours terrainData={terrainData} exaggeration={exaggeration} shape={shape} config={contourConfig} />}
-            {terrainData && <Fire exaggeration={exaggeration} terrainData={terrainData} configs={fireConfigs} bounds={activeTextureBounds} windConfig={windConfig} />}
+            {terrainData && <Contours terrainData={terrainData} exaggeration={exaggeration} shape={shape} config={contourConfig} onLevelsChange={onContourLevelsChange} />}
+            {terrainData && hydrology && (
+                <Hydrology terrainData={terrainData} exaggeration={exaggeration} config={hydrology} slope={slopeAspect?.slope ?? null} onOverlayChange={setWatershedOverlay} onWatershedResult={onWatershedResult} />
+            )}
+            {terrainData && flood && (
+                <Flood terrainData={terrainData} exaggeration={exaggeration} shape={shape} config={flood} onResult={onFloodResult} />
+            )}
+            {terrainData && viewshed && (
+                <Viewshed terrainData={terrainData} exaggeration={exaggeration} config={viewshed} onOverlayChange={setViewshedOverlay} onResult={onViewshedResult} />
+            )}
+            {terrainData && lineOfSight && (
+                <LineOfSight terrainData={terrainData} exaggeration={exaggeration} config={lineOfSight} onResult={onLineOfSightResult} />
+            )}
+            {terrainData && profile && (
+                <ProfilePath terrainData={terrainData} exaggeration={exaggeration} config={profile} onResult={onProfileResult} />
+            )}
+            {terrainData && statistics && (
+                <Statistics terrainData={terrainData} exaggeration={exaggeration} shape={shape} config={statistics} onResult={onStatisticsResult} />
+            )}
+            {terrainData && cutFill && (
+                <CutFill terrainData={terrainData} exaggeration={exaggeration} config={cutFill} onOverlayChange={setCutFillOverlay} onResult={onCutFillResult} />
+            )}
+            {terrainData && <Fire exaggeration={exaggeration} terrainData={terrainData} configs={fireConfigs} windConfig={windConfig} />}
             <Clouds exaggeration={exaggeration} cloudConfig={cloudConfig} windConfig={windConfig} />
         </group>
     );
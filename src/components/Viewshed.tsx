@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import * as THREE from 'three';
+import { TERRAIN_CONFIG } from '../config';
+import { TerrainData } from '../utils/terrain';
+import { Viewshed as ViewshedResult, VIEWSHED_HIDDEN, VIEWSHED_VISIBLE } from '../utils/terrainAnalysis';
+import { createSurfaceDrape } from '../utils/drape';
+import { terrainWorkerPool } from '../utils/workerPool';
+import { CancellationToken, CancelledError } from '../utils/cancellation';
+import { useBounds } from './BoundsContext';
+
+export interface ViewshedConfig {
+    observer: { lat: number; lon: number } | null;
+    observerHeight: number;
+    targetHeight: number;
+    maxRadiusKm: number;
+}
+
+export interface ViewshedSummary {
+    visibleAreaKm2: number;
+    observerElevation: number;
+}
+
+interface ViewshedProps {
+    terrainData: TerrainData;
+    exaggeration: number;
+    config: ViewshedConfig;
+    onOverlayChange: (texture: THREE.Texture | null) => void;
+    onResult?: (summary: ViewshedSummary | null) => void;
+}
+
+const parseColor = (hex: string) => {
+    const color = new THREE.Color(hex);
+    return [Math.round(color.r * 255), Math.round(color.g * 255), Math.round(color.b * 255)];
+};
+
+/**
+ * Viewshed from a single observer: computed on the overview DEM in the worker pool, handed to the
+ * terrain as a translucent overlay texture, with a mast marking the observer position.
+ */
+export const Viewshed: React.FC<ViewshedProps> = ({ terrainData, exaggeration, config, onOverlayChange, onResult }) => {
+    const bounds = useBounds();
+    const [result, setResult] = useState<ViewshedResult | null>(null);
+    const { observer, observerHeight, targetHeight, maxRadiusKm } = config;
+
+    useEffect(() => {
+        setResult(null);
+        if (!observer) return;
+
+        const token = new CancellationToken();
+        const options = { lat: observer.lat, lon: observer.lon, observerHeight, targetHeight, maxRadius: maxRadiusKm * 1000 };
+        terrainWorkerPool.run<ViewshedResult>({ type: 'viewshed', terrainData, bounds, options }, token).then(viewshed => {
+            console.log(`👁️ Viewshed: ${viewshed.visibleAreaKm2.toFixed(2)} km² visible`);
+            setResult(viewshed);
+        }).catch(error => {
+            if (error instanceof CancelledError) return;
+            console.error('Failed to compute viewshed:', error);
+        });
+
+        return () => token.cancel();
+    }, [terrainData, bounds, observer, observerHeight, targetHeight, maxRadiusKm]);
+
+    useEffect(() => {
+        onResult?.(result ? { visibleAreaKm2: result.visibleAreaKm2, observerElevation: result.observerElevation } : null);
+    }, [result, onResult]);
+
+    // Visible / hidden cells painted into a texture covering the whole area
+    const texture = useMemo(() => {
+        if (!result) return null;
+        const { width, height, visible } = result;
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return null;
+
+        const { VISIBLE_COLOR, HIDDEN_COLOR, OPACITY } = TERRAIN_CONFIG.VIEWSHED;
+        const visibleRgb = parseColor(VISIBLE_COLOR);
+        const hiddenRgb = parseColor(HIDDEN_COLOR);
+        const alpha = Math.round(OPACITY * 255);
+        const image = ctx.createImageData(width, height);
+        for (let i = 0; i < visible.length; i++) {
+            const rgb = visible[i] === VIEWSHED_VISIBLE ? visibleRgb : hiddenRgb;
+            image.data[i * 4] = rgb[0];
+            image.data[i * 4 + 1] = rgb[1];
+            image.data[i * 4 + 2] = rgb[2];
+            image.data[i * 4 + 3] = visible[i] === VIEWSHED_VISIBLE || visible[i] === VIEWSHED_HIDDEN ? alpha : 0;
+        }
+        ctx.putImageData(image, 0, 0);
+
+        const tex = new THREE.CanvasTexture(canvas);
+        tex.colorSpace = THREE.SRGBColorSpace;
+        return tex;
+    }, [result]);
+
+    useEffect(() => {
+        onOverlayChange(texture);
+        return () => {
+            onOverlayChange(null);
+            texture?.dispose();
+        };
+    }, [texture, onOverlayChange]);
+
+    // Observer mast from the ground to eye height
+    const mast = useMemo(() => {
+        if (!observer) return null;
+        const drape = createSurfaceDrape(terrainData, exaggeration, bounds);
+        const [x, y, ground] = drape.onGround(observer.lat, observer.lon);
+        const eye = drape.onGround(observer.lat, observer.lon, observerHeight)[2];
+        return { x, y, ground, length: Math.max(eye - ground, 0.3) };
+    }, [observer, observerHeight, terrainData, exaggeration, bounds]);
+
+    if (!mast) return null;
+
+    return (
+        <group position={[mast.x, mast.y, mast.ground]}>
+            {/* Terrain local Z is up, cylinders are built along Y */}
+            <mesh position={[0, 0, mast.length / 2]} rotation={[Math.PI / 2, 0, 0]}>
+                <cylinderGeometry args={[0.08, 0.08, mast.length, 8]} />
+                <meshBasicMaterial color="#ffffff" />
+            </mesh>
+            <mesh position={[0, 0, mast.length]}>
+                <sphereGeometry args={[0.3, 16, 16]} />
+                <meshBasicMaterial color={TERRAIN_CONFIG.VIEWSHED.VISIBLE_COLOR} />
+            </mesh>
+        </group>
+    );
+};
@@ -1,32 +1,84 @@
 export const TERRAIN_CONFIG = {
 
-    // Map Extent: Latitude and Longitude bounds of the target area
-    /*
-    BOUNDS: {
-        latMin: 14.397022,
-        lonMin: 101.013221,
-        latMax: 14.403549,
-        lonMax: 101.022433
-    },
-    /**/
-    //*
+    // Map Extent: Latitude and Longitude bounds of the initial target area
+    // (can be changed at runtime from the Area of Interest dialog)
     BOUNDS: {
         latMin: 16.828773,
         lonMin: 101.676558,
         latMax: 16.955233,
         lonMax: 101.843331,
     },
-    /**/
+    // Quick picks in the Area of Interest dialog
+    AREA_PRESETS: [
+        {
+            name: 'Default Area',
+            bounds: { latMin: 16.828773, lonMin: 101.676558, latMax: 16.955233, lonMax: 101.843331 },
+        },
+        {
+            name: 'Small Test Area',
+            bounds: { latMin: 14.397022, lonMin: 101.013221, latMax: 14.403549, lonMax: 101.022433 },
+        },
+    ],
+    MAX_AREA_SPAN_DEG: 1.0, // Largest lat/lon span accepted for a new area (keeps DEM tile counts sane)
+    AREA_PICKER_MAP: 'OpenStreetMap', // BASE_MAPS entry used by the 2D overview map in the Area dialog
 
     // Camera & Navigation
     CAMERA: {
         MOVE_SPEED: 0.5,        // Speed of smoothing to target on double-click (Higher = Faster)
     },
 
-    // elevation = (r * 256 + g + b / 256) - 32768
     DEM_SRC_NAME: "AWS Terrain Tiles (SRTM)",
     DEM_TILE_URL: 'https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png',
     DEM_MAX_LEVEL: 15, // For elevation data (max 15 for AWS SRTM)
+    // DEM tile encoding (see src/utils/demDecoders.ts)
+    // 'terrarium' : elevation = (r * 256 + g + b / 256) - 32768
+    // 'mapbox'    : elevation = -10000 + (r * 65536 + g * 256 + b) * 0.1
+    // 'maptiler'  : same packing as mapbox (terrain-rgb / terrain-rgb-v2)
+    // 'gray16'    : 16-bit grayscale PNG, elevation = value * SCALE + OFFSET
+    DEM_ENCODING: 'terrarium',
+    DEM_GRAY16: {
+        SCALE: 1.0,
+        OFFSET: 0.0,
+    },
+    // Local GeoTIFF DEMs (drag & drop) are resampled to at most this many cells on the long side
+    LOCAL_DEM_MAX_RESOLUTION: 1024,
+    // Nodata / voids in elevation data (see src/utils/nodata.ts)
+    NODATA: {
+        MIN_VALID: -10000,          // At or below = void (black pixels decode to -32768 / -10000 m)
+        MAX_VALID: 9000,            // Above = void
+        FILL_METHOD: 'laplacian' as 'idw' | 'laplacian', // 'idw': inverse distance only, 'laplacian': IDW + smooth relaxation
+        LAPLACIAN_ITERATIONS: 200,
+        SHOW_FILLED: true,          // Tint interpolated areas on the terrain surface
+        FILLED_COLOR: '#ff2bd6',
+        FILLED_TINT: 0.55,          // 0..1 strength of the tint
+    },
+    // Offline Tile Cache (IndexedDB, shared by DEM and base map tiles)
+    TILE_CACHE: {
+        ENABLED: true,
+        MAX_SIZE_MB: 500,             // LRU eviction above this size (can be changed in the UI)
+        PREFETCH_DEM_ZOOMS: [11, 12, 13, 14, 15],
+        PREFETCH_IMAGERY_ZOOMS: [14, 15, 16],
+        PREFETCH_MAX_TILES: 5000,     // Safety cap for "prefetch this area"
+        PREFETCH_CONCURRENCY: 6,
+    },
+    // Terrain Surface LOD (quadtree chunks, see src/utils/terrainChunks.ts)
+    TERRAIN_LOD: {
+        OVERVIEW_RESOLUTION: 1024,  // Whole-area DEM used for contours, walls, hover and analysis
+        CHUNK_RESOLUTION: 65,       // Vertices per chunk side (2^k + 1 for RTIN meshing)
+        MAX_SCREEN_ERROR: 4,        // Split a chunk when its vertex spacing covers more pixels than this
+        MAX_DEPTH: 10,              // Deepest quadtree level
+        SKIRT_DEPTH: 2,             // Skirt length in chunk vertex spacings (hides cracks between levels)
+        MAX_CACHED_CHUNKS: 256,     // Loaded chunks kept in memory (least recently used are dropped)
+        MAX_CONCURRENT_LOADS: 6,
+        UPDATE_INTERVAL_MS: 250,    // How often the chunk selection is re-evaluated
+    },
+    // Surface Meshing (per chunk)
+    // 'grid' : regular CHUNK_RESOLUTION x CHUNK_RESOLUTION grid
+    // 'rtin' : adaptive right-triangulated irregular network (CHUNK_RESOLUTION must be 2^k + 1)
+    MESH: {
+        MODE: 'rtin',
+        RTIN_MAX_ERROR: 1.0,        // Maximum vertical error in meters when 'rtin' drops vertices
+    },
     // Exaggeration Settings
     EXAGGERATION: {
         DEFAULT: 200,
@@ -69,6 +121,125 @@ export const TERRAIN_CONFIG = {
         'Oceanic': ['#000080', '#0000cd', '#20b2aa', '#e0ffff'],
     },
 
+    // Surface Analysis Coloring (see src/utils/terrainAnalysis.ts)
+    SURFACE_ANALYSIS: {
+        SLOPE_KERNEL: 'horn' as 'horn' | 'zevenbergen-thorne', // 3x3 Horn (smoother) or 4-neighbour Zevenbergen-Thorne
+        FLAT_SLOPE_DEG: 1,          // Below this slope the aspect is reported as flat
+        // Classification breaks: a cell belongs to the first class whose `max` it is below
+        SLOPE_CLASSES_DEGREES: [
+            { max: 5, color: '#1a9641', label: '0 - 5°' },
+            { max: 15, color: '#a6d96a', label: '5 - 15°' },
+            { max: 25, color: '#ffffbf', label: '15 - 25°' },
+            { max: 35, color: '#fdae61', label: '25 - 35°' },
+            { max: 45, color: '#d7191c', label: '35 - 45°' },
+            { max: Infinity, color: '#7b0d0f', label: '> 45°' },
+        ],
+        SLOPE_CLASSES_PERCENT: [
+            { max: 3, color: '#1a9641', label: '0 - 3%' },
+            { max: 8, color: '#a6d96a', label: '3 - 8%' },
+            { max: 15, color: '#ffffbf', label: '8 - 15%' },
+            { max: 30, color: '#fdae61', label: '15 - 30%' },
+            { max: 60, color: '#d7191c', label: '30 - 60%' },
+            { max: Infinity, color: '#7b0d0f', label: '> 60%' },
+        ],
+        // Eight compass sectors clockwise from North, then flat
+        ASPECT_CLASSES: [
+            { color: '#e41a1c', label: 'N' },
+            { color: '#ff7f00', label: 'NE' },
+            { color: '#ffff33', label: 'E' },
+            { color: '#4daf4a', label: 'SE' },
+            { color: '#00c5c5', label: 'S' },
+            { color: '#377eb8', label: 'SW' },
+            { color: '#3b2fbf', label: 'W' },
+            { color: '#c51b8a', label: 'NW' },
+        ],
+        ASPECT_FLAT_COLOR: '#bdbdbd',
+    },
+
+    // Baked hillshade blended into palette colors and base maps (independent of the scene lights)
+    HILLSHADE: {
+        ENABLED: false,
+        AZIMUTH: 315,               // Sun direction in degrees clockwise from North (315 = NW, cartographic default)
+        ALTITUDE: 45,               // Sun elevation above the horizon in degrees
+        MULTIDIRECTIONAL: false,    // Light from 225°, 270°, 315° and 360° weighted by slope direction
+        STRENGTH: 0.6,              // 0 = no shading, 1 = full hillshade
+        Z_FACTOR: 1.5,              // Relief exaggeration used for shading only
+    },
+
+    // Lift of paths and markers draped on the terrain (scene units), so finer chunk meshes don't swallow them
+    SURFACE_LIFT: 0.15,
+
+    // Viewshed tool (double-click an observer point while the tool is active)
+    VIEWSHED: {
+        OBSERVER_HEIGHT: 15,        // Meters above ground (e.g. lookout tower cabin)
+        TARGET_HEIGHT: 0,           // Meters above ground that must be visible (0 = the ground itself)
+        MAX_RADIUS_KM: 10,          // Analysis radius, 0 = whole area
+        EARTH_CURVATURE: true,      // Lower distant terrain by the Earth's curvature
+        REFRACTION_COEFFICIENT: 0.13, // Standard atmospheric refraction, partly offsets the curvature
+        VISIBLE_COLOR: '#22c55e',
+        HIDDEN_COLOR: '#ef4444',
+        OPACITY: 0.45,
+    },
+
+    // Line-of-sight tool (double-click start, then end point); uses the viewshed curvature settings
+    LINE_OF_SIGHT: {
+        START_HEIGHT: 30,           // Antenna / mast height above ground at the start point (m)
+        END_HEIGHT: 30,             // Height above ground at the end point (m)
+        CLEAR_COLOR: '#22c55e',     // Sight line up to the first obstruction
+        BLOCKED_COLOR: '#ef4444',   // Sight line beyond the first obstruction
+        LINE_WIDTH: 3,
+    },
+
+    // Elevation profile tool (double-click to add path vertices)
+    PROFILE: {
+        LINE_COLOR: '#facc15',
+        LINE_WIDTH: 3,
+        HIGHLIGHT_COLOR: '#f97316', // Marker following the cursor on the profile chart
+        CHART_HEIGHT: 160,          // Profile chart height in pixels
+    },
+
+    // Terrain statistics panel
+    STATISTICS: {
+        HISTOGRAM_BINS: 24,
+        CHART_HEIGHT: 120,          // Histogram / hypsometric curve height in pixels
+        BAR_COLOR: '#34d399',
+        CURVE_COLOR: '#60a5fa',
+        OUTLINE_COLOR: '#34d399',   // Drawn statistics polygon
+    },
+
+    // Cut/fill calculator (double-click to draw the polygon or pick design plane points)
+    CUT_FILL: {
+        OUTLINE_COLOR: '#facc15',
+        CUT_COLOR: '#dc2626',
+        FILL_COLOR: '#2563eb',
+        OPACITY: 0.6,               // Overlay opacity at the deepest cut / highest fill
+        MIN_OPACITY: 0.2,           // ... and for cells barely off the design surface
+        PLANE_POINT_COLOR: '#f97316',
+    },
+
+    // Drainage network from D8 flow routing on the overview DEM
+    HYDROLOGY: {
+        SHOW_STREAMS: false,
+        STREAM_THRESHOLD_KM2: 0.5,  // Minimum contributing area for a cell to be part of a stream
+        STREAM_COLOR: '#1e88e5',
+        LINE_WIDTH_PER_ORDER: 0.8,  // Line width (px) = order * this, so main rivers stand out
+        MIN_ORDER: 1,               // Hide streams below this Strahler order
+        // Watershed tool (double-click a pour point while the tool is active)
+        SNAP_RADIUS_M: 150,         // Pour point snaps to the highest accumulation within this distance
+        WATERSHED_COLOR: '#38bdf8',
+        WATERSHED_OPACITY: 0.35,
+        WATERSHED_OUTLINE_COLOR: '#0284c7',
+    },
+
+    // Flood simulation: water plane at a chosen elevation
+    FLOOD: {
+        WATER_COLOR: '#1d6fb8',
+        OPACITY: 0.7,
+        WAVE_DENSITY: 80,           // Ripple crests across the area
+        WAVE_SPEED: 1.5,
+        LEVEL_STEP: 0.5,            // Slider step (m)
+    },
+
     // Base Map Tile Servers (XYZ Tiled)
     BASE_MAPS: {
         'Google Satellite': 'https://mt1.google.com/vt/lyrs=s&x={x}&y={y}&z={z}',
@@ -106,6 +277,7 @@ export const TERRAIN_CONFIG = {
     // Contour Lines Settings
     CONTOURS: {
         ENABLED: true,              // Show/hide contour lines
+        MODE: 'geometry' as 'geometry' | 'shader', // Line geometry from marching squares, or drawn per pixel in the terrain shader
         INTERVAL: 20,               // Minor contour interval in meters
         MAJOR_INTERVAL: 100,        // Major contour interval (every 5 minor = 100m)
         // Minor contours (every 20m)
@@ -120,6 +292,24 @@ export const TERRAIN_CONFIG = {
         SHOW_LABELS: true,          // Show elevation labels
         LABEL_COLOR: '#222222',     // Dark color for labels
         LABEL_BASE_SIZE: 0.5,       // Base size of labels
+        LABEL_SPACING: 25,          // Distance between labels along a line (scene units)
+        LABEL_PADDING: 0.15,        // Gap left in the line on each side of a label
+        LABEL_CHAR_WIDTH: 0.6,      // Approximate glyph width relative to the font size
+        LABEL_MAX_COUNT: 80,
+        // Line shaping after stitching
+        SMOOTHING: 'chaikin' as 'none' | 'chaikin' | 'douglas-peucker', // Chaikin rounds corners, Douglas-Peucker drops redundant points
+        CHAIKIN_ITERATIONS: 2,
+        SIMPLIFY_TOLERANCE: 0.3,    // Douglas-Peucker tolerance in DEM cells
+        // Depressions: closed contours around lower ground get downhill ticks
+        SHOW_DEPRESSIONS: true,
+        HACHURE_SPACING: 1.2,       // Distance between ticks along the line (scene units)
+        HACHURE_LENGTH: 0.3,        // Tick length (scene units)
+        // Spot heights at local peaks and pits
+        SHOW_SPOT_HEIGHTS: true,
+        SPOT_HEIGHT_PROMINENCE: 30, // Minimum rise above (or drop below) the surrounding terrain in meters
+        SPOT_HEIGHT_MAX_COUNT: 40,
+        SPOT_HEIGHT_COLOR: '#111111',
+        SPOT_HEIGHT_SIZE: 0.4,      // Label font size (scene units)
     },
 
     // Fire Effect Settings
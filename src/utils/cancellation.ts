@@ -0,0 +1,37 @@
+/**
+ * Thrown (or rejected with) when a CancellationToken is cancelled before the work finished
+ */
+export class CancelledError extends Error {
+    constructor() {
+        super('Cancelled');
+        this.name = 'CancelledError';
+    }
+}
+
+/**
+ * Lets an effect drop stale async work (e.g. a DEM request for an LOD that is no longer wanted)
+ */
+export class CancellationToken {
+    private _cancelled = false;
+    private listeners: (() => void)[] = [];
+
+    get cancelled() {
+        return this._cancelled;
+    }
+
+    cancel() {
+        if (this._cancelled) return;
+        this._cancelled = true;
+        this.listeners.forEach(listener => listener());
+        this.listeners = [];
+    }
+
+    onCancel(listener: () => void) {
+        if (this._cancelled) listener();
+        else this.listeners.push(listener);
+    }
+
+    throwIfCancelled() {
+        if (this._cancelled) throw new CancelledError();
+    }
+}
@@ -0,0 +1,128 @@
+import { TERRAIN_CONFIG } from '../config';
+import { ContourLevel } from './contours';
+import { Feature, Position, toFeatureCollection } from './geojson';
+import { createUtmConverter, getUtmZone, getWorldExtents, worldToLatLon } from './projection';
+
+/**
+ * Writers for the displayed contour lines (see ContourLevel): GeoJSON in WGS84 or UTM,
+ * SVG for print layout and DXF (R12, 3D polylines in UTM meters) for CAD.
+ */
+
+type Bounds = typeof TERRAIN_CONFIG.BOUNDS;
+
+export type ContourCrs = 'wgs84' | 'utm';
+
+// Printed width of the SVG; the height follows the area's aspect ratio
+const SVG_WIDTH_MM = 400;
+
+/**
+ * One MultiLineString feature per elevation with `elevation` and `type` (major / minor) properties
+ */
+export const contoursToGeoJson = (levels: ContourLevel[], bounds: Bounds, crs: ContourCrs = 'wgs84') => {
+    const latLonToUtm = crs === 'utm' ? createUtmConverter(bounds) : null;
+    const toPosition = (x: number, y: number): Position => {
+        const { lat, lon } = worldToLatLon(x, y, bounds);
+        if (!latLonToUtm) return [Math.round(lon * 1e7) / 1e7, Math.round(lat * 1e7) / 1e7];
+        const [easting, northing] = latLonToUtm(lat, lon);
+        return [Math.round(easting * 100) / 100, Math.round(northing * 100) / 100];
+    };
+
+    const features: Feature[] = levels.map(level => ({
+        type: 'Feature',
+        geometry: { type: 'MultiLineString', coordinates: level.segments.map(line => line.map(([x, y]) => toPosition(x, y))) },
+        properties: { elevation: level.elevation, type: level.isMajor ? 'major' : 'minor' },
+    }));
+    return toFeatureCollection(features, crs === 'utm' ? `urn:ogc:def:crs:EPSG::${getUtmZone(bounds).epsg}` : undefined);
+};
+
+/**
+ * Plain SVG in terrain plane coordinates (North up), one group per elevation
+ */
+export const contoursToSvg = (levels: ContourLevel[], bounds: Bounds) => {
+    const world = getWorldExtents(bounds);
+    const { MINOR_LINE_COLOR, MAJOR_LINE_COLOR } = TERRAIN_CONFIG.CONTOURS;
+    // Stroke widths in scene units (the longest side is 100 units)
+    const minorWidth = 0.08;
+    const majorWidth = 0.2;
+
+    const groups = levels.map(level => {
+        const paths = level.segments.map(line =>
+            `<path d="${line.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(3)},${(-y).toFixed(3)}`).join(' ')}"/>`
+        );
+        const stroke = level.isMajor ? MAJOR_LINE_COLOR : MINOR_LINE_COLOR;
+        const width = level.isMajor ? majorWidth : minorWidth;
+        return `  <g id="contour-${level.elevation}" data-elevation="${level.elevation}" class="${level.isMajor ? 'major' : 'minor'}" stroke="${stroke}" stroke-width="${width}">\n`
+            + `    <title>${level.elevation} m</title>\n    ${paths.join('\n    ')}\n  </g>`;
+    });
+
+    const heightMm = SVG_WIDTH_MM * world.height / world.width;
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${SVG_WIDTH_MM}mm" height="${heightMm.toFixed(1)}mm" `
+        + `viewBox="${-world.halfWidth} ${-world.halfHeight} ${world.width} ${world.height}" fill="none" stroke-linejoin="round" stroke-linecap="round">`,
+        ...groups,
+        `</svg>`,
+    ].join('\n');
+};
+
+/**
+ * DXF R12 with one 3D polyline per line (Z = elevation) on CONTOUR_MAJOR / CONTOUR_MINOR layers
+ */
+export const contoursToDxf = (levels: ContourLevel[], bounds: Bounds) => {
+    const latLonToUtm = createUtmConverter(bounds);
+    const out: string[] = [];
+    const group = (code: number, value: string | number) => out.push(String(code), String(value));
+
+    group(0, 'SECTION');
+    group(2, 'HEADER');
+    group(9, '$ACADVER');
+    group(1, 'AC1009');
+    group(0, 'ENDSEC');
+
+    const layers: [string, number][] = [['CONTOUR_MAJOR', 1], ['CONTOUR_MINOR', 8]]; // AutoCAD color index: red, gray
+    group(0, 'SECTION');
+    group(2, 'TABLES');
+    group(0, 'TABLE');
+    group(2, 'LAYER');
+    group(70, layers.length);
+    layers.forEach(([name, color]) => {
+        group(0, 'LAYER');
+        group(2, name);
+        group(70, 0);
+        group(62, color);
+        group(6, 'CONTINUOUS');
+    });
+    group(0, 'ENDTAB');
+    group(0, 'ENDSEC');
+
+    group(0, 'SECTION');
+    group(2, 'ENTITIES');
+    levels.forEach(level => {
+        const layer = level.isMajor ? 'CONTOUR_MAJOR' : 'CONTOUR_MINOR';
+        level.segments.forEach(line => {
+            group(0, 'POLYLINE');
+            group(8, layer);
+            group(66, 1);
+            group(10, 0);
+            group(20, 0);
+            group(30, 0);
+            group(70, 8); // 3D polyline
+            line.forEach(([x, y]) => {
+                const { lat, lon } = worldToLatLon(x, y, bounds);
+                const [easting, northing] = latLonToUtm(lat, lon);
+                group(0, 'VERTEX');
+                group(8, layer);
+                group(10, easting.toFixed(3));
+                group(20, northing.toFixed(3));
+                group(30, level.elevation);
+                group(70, 32); // 3D polyline vertex
+            });
+            group(0, 'SEQEND');
+            group(8, layer);
+        });
+    });
+    group(0, 'ENDSEC');
+    group(0, 'EOF');
+
+    return out.join('\n');
+};
@@ -0,0 +1,97 @@
+import * as THREE from 'three';
+import { TERRAIN_CONFIG } from '../config';
+
+/**
+ * Contour lines drawn per fragment from the `heightData` attribute (raw meters), injected into the
+ * terrain's standard materials. Everything is driven by uniforms, so changing intervals, colors or
+ * opacity never regenerates geometry or recompiles the program.
+ */
+
+export type ContourUniforms = ReturnType<typeof createContourUniforms>;
+
+export interface ContourShaderSettings {
+    enabled: boolean;
+    interval: number;
+    majorInterval: number;
+    minorOpacity: number;
+    majorOpacity: number;
+}
+
+/**
+ * One uniform set shared by every terrain material, updated in place
+ */
+export const createContourUniforms = () => {
+    const { MINOR_LINE_COLOR, MAJOR_LINE_COLOR, MINOR_LINE_WIDTH, MAJOR_LINE_WIDTH } = TERRAIN_CONFIG.CONTOURS;
+    return {
+        contourInterval: { value: TERRAIN_CONFIG.CONTOURS.INTERVAL },
+        contourMajorInterval: { value: TERRAIN_CONFIG.CONTOURS.MAJOR_INTERVAL },
+        contourMinorColor: { value: new THREE.Color(MINOR_LINE_COLOR) },
+        contourMajorColor: { value: new THREE.Color(MAJOR_LINE_COLOR) },
+        contourMinorOpacity: { value: 0 },
+        contourMajorOpacity: { value: 0 },
+        contourMinorWidth: { value: MINOR_LINE_WIDTH }, // Pixels
+        contourMajorWidth: { value: MAJOR_LINE_WIDTH },
+    };
+};
+
+export const updateContourUniforms = (uniforms: ContourUniforms, settings: ContourShaderSettings) => {
+    const on = settings.enabled && settings.interval > 0;
+    uniforms.contourInterval.value = Math.max(settings.interval, 0.01);
+    uniforms.contourMajorInterval.value = Math.max(settings.majorInterval, 0.01);
+    uniforms.contourMinorOpacity.value = on ? settings.minorOpacity : 0;
+    uniforms.contourMajorOpacity.value = on && settings.majorInterval > 0 ? settings.majorOpacity : 0;
+};
+
+const VERTEX_DECLARATIONS = /* glsl */ `
+attribute float heightData;
+attribute float skirt;
+varying float vContourHeight;
+varying float vContourSkirt;
+`;
+
+const FRAGMENT_DECLARATIONS = /* glsl */ `
+uniform float contourInterval;
+uniform float contourMajorInterval;
+uniform vec3 contourMinorColor;
+uniform vec3 contourMajorColor;
+uniform float contourMinorOpacity;
+uniform float contourMajorOpacity;
+uniform float contourMinorWidth;
+uniform float contourMajorWidth;
+varying float vContourHeight;
+varying float vContourSkirt;
+
+// Coverage of a line at every multiple of 'interval', 'width' pixels wide and anti-aliased over one pixel
+float contourCoverage(float height, float interval, float width) {
+    float level = height / interval;
+    float pixels = max(fwidth(level), 1e-6);
+    float distance = abs(fract(level - 0.5) - 0.5) / pixels;
+    // Fade out once lines get closer than a few pixels instead of turning into noise
+    float density = 1.0 - smoothstep(0.15, 0.35, pixels);
+    return (1.0 - smoothstep(width * 0.5 - 0.5, width * 0.5 + 0.5, distance)) * density;
+}
+`;
+
+const FRAGMENT_APPLY = /* glsl */ `
+if (contourMinorOpacity > 0.0 || contourMajorOpacity > 0.0) {
+    // No lines down the skirts
+    float onSurface = 1.0 - step(1e-3, vContourSkirt);
+    float minor = contourCoverage(vContourHeight, contourInterval, contourMinorWidth) * contourMinorOpacity * onSurface;
+    float major = contourCoverage(vContourHeight, contourMajorInterval, contourMajorWidth) * contourMajorOpacity * onSurface;
+    gl_FragColor.rgb = mix(gl_FragColor.rgb, contourMinorColor, minor);
+    gl_FragColor.rgb = mix(gl_FragColor.rgb, contourMajorColor, major);
+}
+`;
+
+/**
+ * onBeforeCompile hook adding the contour lines after lighting, before tone mapping / color space output
+ */
+export const createContourShaderHook = (uniforms: ContourUniforms) => (shader: THREE.WebGLProgramParametersWithUniforms) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `#include <common>\n${VERTEX_DECLARATIONS}`)
+        .replace('#include <begin_vertex>', '#include <begin_vertex>\nvContourHeight = heightData;\nvContourSkirt = skirt;');
+    shader.fragmentShader = shader.fragmentShader
+        .replace('#include <common>', `#include <common>\n${FRAGMENT_DECLARATIONS}`)
+        .replace('#include <opaque_fragment>', `#include <opaque_fragment>\n${FRAGMENT_APPLY}`);
+};
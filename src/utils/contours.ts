@@ -0,0 +1,387 @@
+import { TERRAIN_CONFIG } from '../config';
+import { TerrainData } from './terrain';
+
+/**
+ * Contour extraction on the overview DEM: marching squares per level, stitched into continuous
+ * polylines, plus spot heights. Points are grid coordinates (x = column, y = row, row 0 = North).
+ */
+
+export type ContourSmoothing = 'none' | 'chaikin' | 'douglas-peucker';
+
+// Line geometry from this module, or lines drawn per pixel by the terrain shader (see contourShader.ts)
+export type ContourMode = 'geometry' | 'shader';
+
+export interface ContourLine {
+    elevation: number;
+    points: [number, number][];
+    closed: boolean; // Ring, first point repeated at the end
+    isMajor: boolean;
+    isDepression: boolean; // Ring around ground lower than its elevation
+}
+
+export interface SpotHeight {
+    x: number; // Grid column
+    y: number; // Grid row
+    elevation: number;
+    prominence: number; // Meters above the highest col to higher ground (peaks) or below the lowest spill to lower ground (pits)
+    type: 'peak' | 'pit';
+}
+
+/**
+ * Displayed contours of one elevation: lines in terrain plane coordinates (scene units, Y = North),
+ * already clipped to the area shape
+ */
+export interface ContourLevel {
+    elevation: number;
+    isMajor: boolean;
+    segments: [number, number][][];
+}
+
+export interface ContourOptions {
+    interval: number;
+    majorInterval: number;
+    smoothing?: ContourSmoothing;
+}
+
+/**
+ * Marching squares for one level. Crossings are identified by the grid edge they lie on
+ * (2 * node index, +1 for the edge running South), so neighbouring cells share them exactly.
+ * Returns the crossing positions and the segments as pairs of edge ids.
+ */
+const traceLevel = (data: Float32Array, width: number, height: number, level: number) => {
+    const crossings = new Map<number, [number, number]>();
+    const segments: [number, number][] = [];
+
+    const crossing = (id: number, x1: number, y1: number, v1: number, x2: number, y2: number, v2: number) => {
+        if (!crossings.has(id)) {
+            const t = Math.abs(v2 - v1) < 0.0001 ? 0.5 : (level - v1) / (v2 - v1);
+            crossings.set(id, [x1 + t * (x2 - x1), y1 + t * (y2 - y1)]);
+        }
+        return id;
+    };
+
+    for (let y = 0; y < height - 1; y++) {
+        for (let x = 0; x < width - 1; x++) {
+            const v00 = data[y * width + x];
+            const v10 = data[y * width + x + 1];
+            const v11 = data[(y + 1) * width + x + 1];
+            const v01 = data[(y + 1) * width + x];
+            const a00 = v00 >= level, a10 = v10 >= level, a11 = v11 >= level, a01 = v01 >= level;
+            if (a00 === a10 && a10 === a11 && a11 === a01) continue;
+
+            const bottom = a00 !== a10 ? crossing(2 * (y * width + x), x, y, v00, x + 1, y, v10) : -1;
+            const right = a10 !== a11 ? crossing(2 * (y * width + x + 1) + 1, x + 1, y, v10, x + 1, y + 1, v11) : -1;
+            const top = a01 !== a11 ? crossing(2 * ((y + 1) * width + x), x, y + 1, v01, x + 1, y + 1, v11) : -1;
+            const left = a00 !== a01 ? crossing(2 * (y * width + x) + 1, x, y, v00, x, y + 1, v01) : -1;
+
+            const edges = [bottom, right, top, left].filter(id => id >= 0);
+            if (edges.length === 2) {
+                segments.push([edges[0], edges[1]]);
+            } else if (edges.length === 4) {
+                // Saddle: the cell mean decides which corners connect
+                if ((v00 + v10 + v11 + v01) / 4 >= level) {
+                    segments.push([bottom, left], [top, right]);
+                } else {
+                    segments.push([bottom, right], [top, left]);
+                }
+            }
+        }
+    }
+
+    return { crossings, segments };
+};
+
+/**
+ * Join segments sharing a crossing into polylines: open lines run between grid-border crossings,
+ * everything left over forms closed rings
+ */
+const stitchSegments = (crossings: Map<number, [number, number]>, segments: [number, number][]) => {
+    const neighbours = new Map<number, number[]>();
+    const link = (a: number, b: number) => {
+        const list = neighbours.get(a);
+        if (list) list.push(b);
+        else neighbours.set(a, [b]);
+    };
+    segments.forEach(([a, b]) => {
+        link(a, b);
+        link(b, a);
+    });
+
+    const lines: { points: [number, number][]; closed: boolean }[] = [];
+    const walk = (start: number) => {
+        const ids = [start];
+        let current = start;
+        for (; ;) {
+            const next = neighbours.get(current)?.pop();
+            if (next === undefined) break;
+            const back = neighbours.get(next)!;
+            back.splice(back.indexOf(current), 1);
+            ids.push(next);
+            current = next;
+            if (current === start) break;
+        }
+        return ids;
+    };
+
+    // Open lines first, from their loose ends
+    neighbours.forEach((list, id) => {
+        if (list.length === 1) {
+            const ids = walk(id);
+            lines.push({ points: ids.map(i => crossings.get(i)!), closed: false });
+        }
+    });
+    neighbours.forEach((list, id) => {
+        while (list.length > 0) {
+            const ids = walk(id);
+            lines.push({ points: ids.map(i => crossings.get(i)!), closed: ids[0] === ids[ids.length - 1] });
+        }
+    });
+
+    return lines.filter(line => line.points.length >= 2);
+};
+
+/**
+ * Even-odd point in polygon test
+ */
+const isInsideRing = (x: number, y: number, ring: [number, number][]) => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+};
+
+/**
+ * Whether a raw (unsmoothed) ring encloses ground below its level. Every crossing lies on a grid edge
+ * whose two nodes are on opposite sides of the ring, so the node inside tells. The crossing nearest
+ * its edge midpoint is used, keeping clear of nodes sitting exactly on the level.
+ */
+const enclosesLowerGround = (ring: [number, number][], data: Float32Array, width: number, level: number) => {
+    let edge: [number, number][] | null = null;
+    let bestOffset = 0.5;
+    for (const [x, y] of ring) {
+        const fx = x - Math.floor(x);
+        const fy = y - Math.floor(y);
+        if (fx > 0 && fy === 0 && Math.abs(fx - 0.5) < bestOffset) {
+            bestOffset = Math.abs(fx - 0.5);
+            edge = [[Math.floor(x), y], [Math.floor(x) + 1, y]];
+        } else if (fy > 0 && fx === 0 && Math.abs(fy - 0.5) < bestOffset) {
+            bestOffset = Math.abs(fy - 0.5);
+            edge = [[x, Math.floor(y)], [x, Math.floor(y) + 1]];
+        }
+    }
+    if (!edge) return false;
+    const [nx, ny] = isInsideRing(edge[0][0], edge[0][1], ring) ? edge[0] : edge[1];
+    return data[ny * width + nx] < level;
+};
+
+/**
+ * Chaikin corner cutting. Open lines keep their end points, rings stay closed.
+ */
+export const smoothChaikin = (points: [number, number][], closed: boolean, iterations: number = TERRAIN_CONFIG.CONTOURS.CHAIKIN_ITERATIONS) => {
+    let current = points;
+    for (let k = 0; k < iterations && current.length >= 3; k++) {
+        const next: [number, number][] = closed ? [] : [current[0]];
+        for (let i = 0; i < current.length - 1; i++) {
+            const [x0, y0] = current[i];
+            const [x1, y1] = current[i + 1];
+            next.push([0.75 * x0 + 0.25 * x1, 0.75 * y0 + 0.25 * y1], [0.25 * x0 + 0.75 * x1, 0.25 * y0 + 0.75 * y1]);
+        }
+        if (closed) next.push(next[0]);
+        else next.push(current[current.length - 1]);
+        current = next;
+    }
+    return current;
+};
+
+/**
+ * Douglas-Peucker simplification with a tolerance in grid cells. End points (the seam of a ring) are kept.
+ */
+export const simplifyDouglasPeucker = (points: [number, number][], tolerance: number = TERRAIN_CONFIG.CONTOURS.SIMPLIFY_TOLERANCE) => {
+    if (points.length < 3) return points;
+    const keep = new Uint8Array(points.length);
+    keep[0] = keep[points.length - 1] = 1;
+
+    const stack: [number, number][] = [[0, points.length - 1]];
+    while (stack.length > 0) {
+        const [first, last] = stack.pop()!;
+        const [ax, ay] = points[first];
+        const [bx, by] = points[last];
+        const length = Math.hypot(bx - ax, by - ay);
+        let farthest = -1;
+        let maxDistance = tolerance;
+        for (let i = first + 1; i < last; i++) {
+            const [px, py] = points[i];
+            // Distance to the chord, or to its start when a ring folds back onto itself
+            const distance = length > 0
+                ? Math.abs((bx - ax) * (ay - py) - (ax - px) * (by - ay)) / length
+                : Math.hypot(px - ax, py - ay);
+            if (distance > maxDistance) {
+                maxDistance = distance;
+                farthest = i;
+            }
+        }
+        if (farthest >= 0) {
+            keep[farthest] = 1;
+            stack.push([first, farthest], [farthest, last]);
+        }
+    }
+    return points.filter((_, i) => keep[i]);
+};
+
+/**
+ * All contour lines of the DEM at multiples of `interval`
+ */
+export const generateContours = (terrainData: Pick<TerrainData, 'width' | 'height' | 'data' | 'minHeight' | 'maxHeight'>, options: ContourOptions): ContourLine[] => {
+    const { width, height, data, minHeight, maxHeight } = terrainData;
+    const { interval, majorInterval, smoothing = 'none' } = options;
+    const contours: ContourLine[] = [];
+    if (interval <= 0) return contours;
+
+    // Levels as integer multiples, so fractional intervals don't accumulate rounding errors
+    const first = Math.ceil(minHeight / interval);
+    const last = Math.floor(maxHeight / interval);
+    for (let k = first; k <= last; k++) {
+        const elevation = Number((k * interval).toFixed(6));
+        const { crossings, segments } = traceLevel(data, width, height, elevation);
+        const ratio = elevation / majorInterval;
+        const isMajor = Math.abs(ratio - Math.round(ratio)) < 1e-6;
+        stitchSegments(crossings, segments).forEach(({ points, closed }) => {
+            const isDepression = closed && enclosesLowerGround(points, data, width, elevation);
+            const smoothed = smoothing === 'chaikin'
+                ? smoothChaikin(points, closed)
+                : smoothing === 'douglas-peucker' ? simplifyDouglasPeucker(points) : points;
+            // Simplification can collapse tiny rings
+            if (closed && smoothed.length < 4) return;
+            contours.push({ elevation, points: smoothed, closed, isMajor, isDepression });
+        });
+    }
+    return contours;
+};
+
+/**
+ * Cumulative length at every vertex of a polyline
+ */
+export const measureLine = (points: [number, number][]) => {
+    const lengths = new Float64Array(points.length);
+    for (let i = 1; i < points.length; i++) {
+        lengths[i] = lengths[i - 1] + Math.hypot(points[i][0] - points[i - 1][0], points[i][1] - points[i - 1][1]);
+    }
+    return lengths;
+};
+
+/**
+ * Point at distance `s` along a polyline (clamped to its ends), with the index of the vertex before it
+ */
+export const pointAlong = (points: [number, number][], lengths: Float64Array, s: number) => {
+    const last = points.length - 1;
+    if (s <= 0) return { point: points[0], index: 0 };
+    if (s >= lengths[last]) return { point: points[last], index: last };
+    let i = 1;
+    while (lengths[i] < s) i++;
+    const t = (s - lengths[i - 1]) / (lengths[i] - lengths[i - 1] || 1);
+    const [x0, y0] = points[i - 1];
+    const [x1, y1] = points[i];
+    return { point: [x0 + (x1 - x0) * t, y0 + (y1 - y0) * t] as [number, number], index: i - 1 };
+};
+
+/**
+ * Remove the [from, to] stretches (sorted, by length along the line) from a polyline, returning the pieces left
+ */
+export const cutLine = (points: [number, number][], lengths: Float64Array, gaps: [number, number][]) => {
+    const pieces: [number, number][][] = [];
+    let start = 0;
+    [...gaps, [lengths[points.length - 1], Infinity] as [number, number]].forEach(([from, to]) => {
+        if (from > start) {
+            const a = pointAlong(points, lengths, start);
+            const b = pointAlong(points, lengths, from);
+            const piece = [a.point, ...points.slice(a.index + 1, b.index + 1), b.point];
+            if (piece.length >= 2) pieces.push(piece);
+        }
+        start = Math.max(start, to);
+    });
+    return pieces;
+};
+
+/**
+ * Summits (or, with `sign` = -1, pits) with their prominence, by flooding the DEM from the top down:
+ * every local maximum starts a region, and where two regions meet the lower summit's prominence is
+ * its drop to that col. The last region standing belongs to the highest summit, measured to the lowest cell.
+ */
+const findExtrema = (data: Float32Array, width: number, height: number, sign: 1 | -1) => {
+    const count = width * height;
+    const value = (i: number) => sign * data[i];
+    const order = new Uint32Array(count);
+    for (let i = 0; i < count; i++) order[i] = i;
+    order.sort((a, b) => value(b) - value(a));
+
+    const parent = new Int32Array(count).fill(-1);
+    const summit = new Int32Array(count); // Per region root: its highest cell
+    const find = (i: number) => {
+        while (parent[i] !== i) {
+            parent[i] = parent[parent[i]];
+            i = parent[i];
+        }
+        return i;
+    };
+
+    const extrema: { index: number; prominence: number }[] = [];
+    order.forEach(i => {
+        parent[i] = i;
+        summit[i] = i;
+        const x = i % width;
+        const y = Math.floor(i / width);
+        for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+                const nx = x + dx, ny = y + dy;
+                if ((dx === 0 && dy === 0) || nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+                const n = ny * width + nx;
+                if (parent[n] < 0) continue;
+                const a = find(i);
+                const b = find(n);
+                if (a === b) continue;
+                if (summit[a] === i) {
+                    // The cell itself joins higher ground, it is no summit
+                    parent[a] = b;
+                    continue;
+                }
+                // Two summits meet at this col: the lower one ends here
+                const [low, high] = value(summit[a]) < value(summit[b]) ? [a, b] : [b, a];
+                extrema.push({ index: summit[low], prominence: value(summit[low]) - value(i) });
+                parent[low] = high;
+            }
+        }
+    });
+
+    for (let i = 0; i < count; i++) {
+        if (parent[i] === i) extrema.push({ index: summit[i], prominence: value(summit[i]) - value(order[count - 1]) });
+    }
+    return extrema;
+};
+
+/**
+ * Local peaks and pits standing out by at least `minProminence` meters, most prominent first.
+ * Extrema on the DEM border are skipped: the terrain beyond is unknown. `include` (grid column, row)
+ * limits the result to the displayed area before the `maxCount` most prominent are kept.
+ */
+export const findSpotHeights = (
+    terrainData: Pick<TerrainData, 'width' | 'height' | 'data'>,
+    minProminence: number = TERRAIN_CONFIG.CONTOURS.SPOT_HEIGHT_PROMINENCE,
+    maxCount: number = TERRAIN_CONFIG.CONTOURS.SPOT_HEIGHT_MAX_COUNT,
+    include?: (x: number, y: number) => boolean
+): SpotHeight[] => {
+    const { width, height, data } = terrainData;
+    const spots: SpotHeight[] = [];
+    ([[1, 'peak'], [-1, 'pit']] as const).forEach(([sign, type]) => {
+        findExtrema(data, width, height, sign).forEach(({ index, prominence }) => {
+            const x = index % width;
+            const y = Math.floor(index / width);
+            if (prominence < minProminence || x === 0 || y === 0 || x === width - 1 || y === height - 1) return;
+            if (include && !include(x, y)) return;
+            spots.push({ x, y, elevation: data[index], prominence, type });
+        });
+    });
+    return spots.sort((a, b) => b.prominence - a.prominence).slice(0, maxCount);
+};
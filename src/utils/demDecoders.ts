@@ -0,0 +1,197 @@
+import { TERRAIN_CONFIG } from '../config';
+
+/**
+ * A single decoded DEM tile: row-major elevations in meters (row 0 = North)
+ */
+export interface DemTile {
+    width: number;
+    height: number;
+    heights: Float32Array;
+}
+
+/**
+ * Turns a tile URL into elevations.
+ * RGB encodings go through the browser image decoder, raw encodings (16-bit PNG)
+ * parse the bytes themselves because canvas drops everything below 8 bits.
+ */
+export interface DemDecoder {
+    label: string;
+    loadTile: (url: string) => Promise<DemTile | null>;
+}
+
+/**
+ * Fetch an image tile and read back its raw pixels.
+ * Uses createImageBitmap + OffscreenCanvas so it also runs inside the terrain worker.
+ * Colour management is disabled: any conversion would corrupt the packed elevations.
+ */
+const loadImagePixels = async (url: string): Promise<ImageData | null> => {
+    try {
+        const response = await fetch(url, { mode: 'cors' });
+        if (!response.ok) return null;
+        const bitmap = await createImageBitmap(await response.blob(), {
+            premultiplyAlpha: 'none',
+            colorSpaceConversion: 'none',
+        });
+        const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return null;
+        ctx.drawImage(bitmap, 0, 0);
+        bitmap.close();
+        return ctx.getImageData(0, 0, canvas.width, canvas.height);
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Build a decoder for any encoding that packs elevation into the RGB channels
+ */
+export const createRgbDecoder = (label: string, toMeters: (r: number, g: number, b: number) => number): DemDecoder => ({
+    label,
+    loadTile: async (url) => {
+        const pixels = await loadImagePixels(url);
+        if (!pixels) return null;
+
+        const { width, height, data } = pixels;
+        const heights = new Float32Array(width * height);
+        for (let i = 0; i < heights.length; i++) {
+            heights[i] = toMeters(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+        }
+        return { width, height, heights };
+    }
+});
+
+/**
+ * Minimal PNG reader for non-interlaced grayscale (colour type 0) images, 8 or 16 bit.
+ * Returns the raw sample values (0..65535 for 16 bit).
+ */
+export const decodeGrayscalePng = async (buffer: ArrayBuffer) => {
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+
+    if (bytes[0] !== 0x89 || bytes[1] !== 0x50 || bytes[2] !== 0x4e || bytes[3] !== 0x47) {
+        throw new Error('Not a PNG file');
+    }
+
+    let offset = 8;
+    let width = 0, height = 0, bitDepth = 0, colorType = 0, interlace = 0;
+    const idat: BlobPart[] = [];
+
+    while (offset < bytes.length) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(bytes[offset + 4], bytes[offset + 5], bytes[offset + 6], bytes[offset + 7]);
+        const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+
+        if (type === 'IHDR') {
+            width = view.getUint32(offset + 8);
+            height = view.getUint32(offset + 12);
+            bitDepth = chunk[8];
+            colorType = chunk[9];
+            interlace = chunk[12];
+        } else if (type === 'IDAT') {
+            idat.push(chunk.slice());
+        } else if (type === 'IEND') {
+            break;
+        }
+        offset += 12 + length; // length + type + data + crc
+    }
+
+    if (colorType !== 0 || (bitDepth !== 8 && bitDepth !== 16) || interlace !== 0) {
+        throw new Error(`Unsupported PNG (colour type ${colorType}, ${bitDepth} bit, interlace ${interlace})`);
+    }
+
+    // zlib stream -> 'deflate' in the Compression Streams API
+    const stream = new Blob(idat).stream().pipeThrough(new DecompressionStream('deflate'));
+    const inflated = new Uint8Array(await new Response(stream).arrayBuffer());
+
+    const bpp = bitDepth / 8;
+    const stride = width * bpp;
+    const raw = new Uint8Array(stride * height);
+
+    // Undo per-scanline filters (PNG spec section 9)
+    for (let y = 0; y < height; y++) {
+        const filter = inflated[y * (stride + 1)];
+        const line = inflated.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+        const rowStart = y * stride;
+        const prevStart = rowStart - stride;
+
+        for (let i = 0; i < stride; i++) {
+            const a = i >= bpp ? raw[rowStart + i - bpp] : 0;
+            const b = y > 0 ? raw[prevStart + i] : 0;
+            const c = (i >= bpp && y > 0) ? raw[prevStart + i - bpp] : 0;
+
+            let value = line[i];
+            switch (filter) {
+                case 1: value += a; break;
+                case 2: value += b; break;
+                case 3: value += (a + b) >> 1; break;
+                case 4: {
+                    const p = a + b - c;
+                    const pa = Math.abs(p - a);
+                    const pb = Math.abs(p - b);
+                    const pc = Math.abs(p - c);
+                    value += (pa <= pb && pa <= pc) ? a : (pb <= pc ? b : c);
+                    break;
+                }
+            }
+            raw[rowStart + i] = value & 0xff;
+        }
+    }
+
+    const samples = new Uint16Array(width * height);
+    for (let i = 0; i < samples.length; i++) {
+        samples[i] = bitDepth === 16 ? (raw[i * 2] << 8) | raw[i * 2 + 1] : raw[i];
+    }
+
+    return { width, height, samples };
+};
+
+const grayscale16Decoder: DemDecoder = {
+    label: '16-bit Grayscale PNG',
+    loadTile: async (url) => {
+        try {
+            const response = await fetch(url);
+            if (!response.ok) return null;
+            const { width, height, samples } = await decodeGrayscalePng(await response.arrayBuffer());
+
+            const { SCALE, OFFSET } = TERRAIN_CONFIG.DEM_GRAY16;
+            const heights = new Float32Array(samples.length);
+            for (let i = 0; i < samples.length; i++) {
+                heights[i] = samples[i] * SCALE + OFFSET;
+            }
+            return { width, height, heights };
+        } catch (error) {
+            console.error(`Failed to decode grayscale DEM tile ${url}`, error);
+            return null;
+        }
+    }
+};
+
+// Mapbox Terrain-RGB and MapTiler terrain-rgb share the same packing
+const terrainRgbToMeters = (r: number, g: number, b: number) => -10000 + (r * 65536 + g * 256 + b) * 0.1;
+
+const DEM_DECODERS: Record<string, DemDecoder> = {
+    // Mapzen / AWS Terrain Tiles: (r * 256 + g + b / 256) - 32768
+    terrarium: createRgbDecoder('Terrarium', (r, g, b) => (r * 256 + g + b / 256) - 32768),
+    // Mapbox Terrain-RGB v1: -10000 + (r * 65536 + g * 256 + b) * 0.1
+    mapbox: createRgbDecoder('Mapbox Terrain-RGB', terrainRgbToMeters),
+    // MapTiler terrain-rgb / terrain-rgb-v2
+    maptiler: createRgbDecoder('MapTiler Terrain-RGB', terrainRgbToMeters),
+    // Single channel heightmaps (value * SCALE + OFFSET)
+    gray16: grayscale16Decoder,
+};
+
+/**
+ * Register an additional vendor encoding so it can be selected with TERRAIN_CONFIG.DEM_ENCODING
+ */
+export const registerDemDecoder = (key: string, decoder: DemDecoder) => {
+    DEM_DECODERS[key] = decoder;
+};
+
+export const getDemDecoder = (key: string = TERRAIN_CONFIG.DEM_ENCODING): DemDecoder => {
+    const decoder = DEM_DECODERS[key];
+    if (!decoder) {
+        throw new Error(`Unknown DEM encoding '${key}'. Available: ${Object.keys(DEM_DECODERS).join(', ')}`);
+    }
+    return decoder;
+};
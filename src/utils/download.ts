@@ -0,0 +1,12 @@
+/**
+ * Save generated text (CSV, GeoJSON, ...) as a file through a temporary object URL
+ */
+export const downloadText = (filename: string, text: string, mimeType = 'text/plain') => {
+    const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Give the browser a moment to start the download before revoking
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,49 @@
+import { TERRAIN_CONFIG } from '../config';
+import { getTerrainHeight, TerrainData } from './terrain';
+import { getWorldExtents, latLonToWorld } from './projection';
+import { computeProfile } from './terrainAnalysis';
+
+type Point3 = [number, number, number];
+
+/**
+ * Terrain local space (Z up) positions SURFACE_LIFT above the overview DEM, shared by the
+ * analysis tools that draw paths, outlines and markers on the ground
+ */
+export const createSurfaceDrape = (terrainData: TerrainData, exaggeration: number, bounds: typeof TERRAIN_CONFIG.BOUNDS) => {
+    const { width, height, data, minHeight } = terrainData;
+    const world = getWorldExtents(bounds);
+    const heightMultiplier = world.unitsPerMeter * (exaggeration / 100);
+    const lift = TERRAIN_CONFIG.SURFACE_LIFT;
+
+    // Point at a known elevation (meters), e.g. a profile sample or a design point
+    const atElevation = (lat: number, lon: number, elevation: number): Point3 => {
+        const [x, y] = latLonToWorld(lat, lon, bounds);
+        return [x, y, (elevation - minHeight) * heightMultiplier + lift];
+    };
+
+    // Point on the interpolated ground, or `offset` meters above it (exaggerated like the terrain)
+    const onGround = (lat: number, lon: number, offset = 0): Point3 => {
+        const [x, y] = latLonToWorld(lat, lon, bounds);
+        return [x, y, getTerrainHeight(x, y, terrainData, exaggeration, bounds) * world.unitsPerMeter + offset * heightMultiplier + lift];
+    };
+
+    // Grid (column, row) at the elevation of the nearest DEM node
+    const atGrid = (gx: number, gy: number): Point3 => {
+        const cx = Math.max(0, Math.min(width - 1, Math.round(gx)));
+        const cy = Math.max(0, Math.min(height - 1, Math.round(gy)));
+        return [
+            (gx / (width - 1)) * world.width - world.halfWidth,
+            world.halfHeight - (gy / (height - 1)) * world.height,
+            (data[cy * width + cx] - minHeight) * heightMultiplier + lift,
+        ];
+    };
+
+    // Polyline following the ground between the vertices (closed when `closed` and at least three vertices)
+    const path = (vertices: { lat: number; lon: number }[], closed = false): Point3[] => {
+        if (vertices.length < 2) return [];
+        const line = closed && vertices.length >= 3 ? [...vertices, vertices[0]] : vertices;
+        return computeProfile(terrainData, bounds, line).samples.map(s => atElevation(s.lat, s.lon, s.elevation));
+    };
+
+    return { atElevation, onGround, atGrid, path };
+};
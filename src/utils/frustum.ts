@@ -1,9 +1,10 @@
 import * as THREE from 'three';
 import { TERRAIN_CONFIG } from '../config';
+import { getTileXYZ } from './projection';
 
 /**
  * Calculate visible bounds based on camera position and frustum
- * Returns a subset of TERRAIN_CONFIG.BOUNDS that is visible
+ * Returns the visible subset of the given area bounds
  */
 export const calculateVisibleBounds = (
     camera: THREE.Camera,
@@ -85,16 +86,6 @@ export const estimateTileCount = (
     bounds: typeof TERRAIN_CONFIG.BOUNDS,
     zoom: number
 ): number => {
-    const getTileXYZ = (lat: number, lon: number, zoom: number) => {
-        const n = Math.pow(2, zoom);
-        const x = Math.floor(n * ((lon + 180) / 360));
-        const latRad = (lat * Math.PI) / 180;
-        const y = Math.floor(
-            (n * (1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI)) / 2
-        );
-        return { x, y };
-    };
-
     const minTile = getTileXYZ(bounds.latMax, bounds.lonMin, zoom);
     const maxTile = getTileXYZ(bounds.latMin, bounds.lonMax, zoom);
 
@@ -0,0 +1,56 @@
+import { TERRAIN_CONFIG } from '../config';
+import { uvToLatLon } from './projection';
+import { Ring } from './rasterOutline';
+
+/**
+ * Minimal GeoJSON (RFC 7946) builders for exporting analysis results.
+ * Positions are [lon, lat] in WGS84, the same lat/lon space latLonToWorld places on the terrain.
+ */
+
+export type Position = [number, number];
+
+export interface Feature {
+    type: 'Feature';
+    geometry:
+    | { type: 'Point'; coordinates: Position }
+    | { type: 'LineString'; coordinates: Position[] }
+    | { type: 'MultiLineString'; coordinates: Position[][] }
+    | { type: 'Polygon'; coordinates: Position[][] }
+    | { type: 'MultiPolygon'; coordinates: Position[][][] };
+    properties: Record<string, unknown>;
+}
+
+// 7 decimals is ~1 cm, well below any DEM cell
+const round = (value: number) => Math.round(value * 1e7) / 1e7;
+
+/**
+ * Converts grid coordinates (x = column, y = row) of a width x height DEM covering `bounds` to [lon, lat]
+ */
+export const gridToPosition = (x: number, y: number, width: number, height: number, bounds: typeof TERRAIN_CONFIG.BOUNDS): Position => {
+    const u = Math.max(0, Math.min(1, x / (width - 1)));
+    const v = Math.max(0, Math.min(1, y / (height - 1)));
+    const { lat, lon } = uvToLatLon(u, v, bounds);
+    return [round(lon), round(lat)];
+};
+
+/**
+ * Polygon or MultiPolygon feature from grid-space rings (see maskToPolygons)
+ */
+export const polygonsToFeature = (polygons: Ring[][], toPosition: (x: number, y: number) => Position, properties: Record<string, unknown> = {}): Feature => {
+    const coordinates = polygons.map(polygon => polygon.map(ring => ring.map(([x, y]) => toPosition(x, y))));
+    return {
+        type: 'Feature',
+        geometry: coordinates.length === 1 ? { type: 'Polygon', coordinates: coordinates[0] } : { type: 'MultiPolygon', coordinates },
+        properties,
+    };
+};
+
+/**
+ * Serialized FeatureCollection. `crsName` (e.g. urn:ogc:def:crs:EPSG::32647) tags projected coordinates with the
+ * pre-RFC 7946 `crs` member, which GIS tools still honour; omit it for plain WGS84.
+ */
+export const toFeatureCollection = (features: Feature[], crsName?: string) => JSON.stringify({
+    type: 'FeatureCollection',
+    ...(crsName ? { crs: { type: 'name', properties: { name: crsName } } } : {}),
+    features,
+}, null, 2);
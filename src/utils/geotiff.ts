@@ -0,0 +1,119 @@
+import { fromArrayBuffer } from 'geotiff';
+import proj4 from 'proj4';
+import { TERRAIN_CONFIG } from '../config';
+import { TerrainData } from './terrain';
+import { calculateBoundsDimensions, latFromMercatorY, mercatorY } from './projection';
+import { buildTerrainData, isVoidElevation } from './nodata';
+
+// Datums commonly found in Thai survey deliverables that proj4 does not ship with
+const EXTRA_PROJECTIONS: Record<number, string> = {
+    24047: '+proj=utm +zone=47 +a=6377276.345 +b=6356075.413140239 +towgs84=210,814,289,0,0,0,0 +units=m +no_defs', // Indian 1975 / UTM 47N
+    24048: '+proj=utm +zone=48 +a=6377276.345 +b=6356075.413140239 +towgs84=210,814,289,0,0,0,0 +units=m +no_defs', // Indian 1975 / UTM 48N
+};
+
+/**
+ * Resolve a GeoTIFF EPSG code into a proj4 definition
+ */
+const getProjectionDefinition = (epsg: number): string => {
+    if (epsg === 4326 || epsg === 4269 || epsg === 4258) return 'EPSG:4326';
+    if (epsg === 3857 || epsg === 900913 || epsg === 3785) return 'EPSG:3857';
+    if (epsg >= 32601 && epsg <= 32660) return `+proj=utm +zone=${epsg - 32600} +datum=WGS84 +units=m +no_defs`;
+    if (epsg >= 32701 && epsg <= 32760) return `+proj=utm +zone=${epsg - 32700} +south +datum=WGS84 +units=m +no_defs`;
+    if (EXTRA_PROJECTIONS[epsg]) return EXTRA_PROJECTIONS[epsg];
+    throw new Error(`Unsupported GeoTIFF CRS (EPSG:${epsg}). Reproject the file to WGS84, Web Mercator or UTM first.`);
+};
+
+/**
+ * Read a single-band GeoTIFF DEM and resample it onto the same grid layout
+ * fetchTerrainTile produces for `bounds` (North-up, rows linear in Web Mercator Y).
+ * Cells that fall on the nodata value or outside the file are marked as voids and
+ * filled by interpolation (see nodata.ts).
+ */
+export const loadGeoTiffDem = async (file: File | ArrayBuffer, bounds: typeof TERRAIN_CONFIG.BOUNDS): Promise<TerrainData> => {
+    const buffer = file instanceof ArrayBuffer ? file : await file.arrayBuffer();
+    const tiff = await fromArrayBuffer(buffer);
+    const image = await tiff.getImage();
+
+    const srcWidth = image.getWidth();
+    const srcHeight = image.getHeight();
+    const [originX, originY] = image.getOrigin();
+    const [resX, resY] = image.getResolution();
+    const noData = image.getGDALNoData();
+
+    const geoKeys = image.getGeoKeys() || {};
+    const epsg: number = geoKeys.ProjectedCSTypeGeoKey || geoKeys.GeographicTypeGeoKey || 4326;
+    const sourceDef = getProjectionDefinition(epsg);
+    const isGeographic = sourceDef === 'EPSG:4326';
+    const toSource = proj4('EPSG:4326', sourceDef);
+
+    const rasters = await image.readRasters({ samples: [0] });
+    const band = rasters[0] as ArrayLike<number>;
+
+    console.log(`📂 GeoTIFF: ${srcWidth}x${srcHeight}, EPSG:${epsg}, nodata=${noData}`);
+
+    // Output resolution follows the source pixel size, capped for the mesh
+    const dims = calculateBoundsDimensions(bounds);
+    const latMid = (bounds.latMin + bounds.latMax) / 2;
+    const srcPixelMeters = isGeographic
+        ? Math.abs(resX) * 111320 * Math.cos(latMid * Math.PI / 180)
+        : Math.abs(resX);
+    const maxRes = TERRAIN_CONFIG.LOCAL_DEM_MAX_RESOLUTION;
+    const scale = Math.min(1, maxRes / (Math.max(dims.width, dims.height) / srcPixelMeters));
+    const width = Math.max(2, Math.round((dims.width / srcPixelMeters) * scale));
+    const height = Math.max(2, Math.round((dims.height / srcPixelMeters) * scale));
+
+    const isValid = (v: number) => !isVoidElevation(v) && (noData === null || v !== noData);
+    const sampleSource = (px: number, py: number): number => {
+        // px/py are pixel-centre coordinates in the source raster
+        const x0 = Math.floor(px);
+        const y0 = Math.floor(py);
+        if (x0 < -1 || y0 < -1 || x0 >= srcWidth || y0 >= srcHeight) return NaN;
+
+        const fx = px - x0;
+        const fy = py - y0;
+        let sum = 0;
+        let weightSum = 0;
+        const corners: [number, number, number][] = [
+            [x0, y0, (1 - fx) * (1 - fy)],
+            [x0 + 1, y0, fx * (1 - fy)],
+            [x0, y0 + 1, (1 - fx) * fy],
+            [x0 + 1, y0 + 1, fx * fy],
+        ];
+        for (const [cx, cy, w] of corners) {
+            if (cx < 0 || cy < 0 || cx >= srcWidth || cy >= srcHeight) continue;
+            const v = band[cy * srcWidth + cx];
+            if (!isValid(v)) continue;
+            sum += v * w;
+            weightSum += w;
+        }
+        // Renormalise so a single nodata neighbour does not pull the edge down
+        return weightSum > 0.0001 ? sum / weightSum : NaN;
+    };
+
+    const data = new Float32Array(width * height);
+    const valid = new Uint8Array(width * height);
+
+    const yTop = mercatorY(bounds.latMax);
+    const yBottom = mercatorY(bounds.latMin);
+
+    for (let row = 0; row < height; row++) {
+        const lat = latFromMercatorY(yTop + (row / (height - 1)) * (yBottom - yTop));
+        for (let col = 0; col < width; col++) {
+            const lon = bounds.lonMin + (col / (width - 1)) * (bounds.lonMax - bounds.lonMin);
+            const [sx, sy] = isGeographic ? [lon, lat] : toSource.forward([lon, lat]);
+
+            const px = (sx - originX) / resX - 0.5;
+            const py = (sy - originY) / resY - 0.5;
+            const v = sampleSource(px, py);
+
+            data[row * width + col] = v;
+            valid[row * width + col] = Number.isNaN(v) ? 0 : 1;
+        }
+    }
+
+    if (!valid.includes(1)) {
+        throw new Error('GeoTIFF does not overlap the current area of interest');
+    }
+
+    return buildTerrainData(data, width, height, valid);
+};
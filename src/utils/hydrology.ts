@@ -0,0 +1,352 @@
+import { TERRAIN_CONFIG } from '../config';
+import { TerrainData } from './terrain';
+import { getCellSize } from './terrainAnalysis';
+
+/**
+ * Surface hydrology on the overview DEM: depression filling, D8 flow direction,
+ * flow accumulation, stream network extraction with Strahler ordering and inundation.
+ * Grids share the TerrainData layout (row-major, row 0 = North).
+ */
+
+// D8 neighbours clockwise from East; NO_FLOW marks outlets on the grid border
+const D8_DX = [1, 1, 0, -1, -1, -1, 0, 1];
+const D8_DY = [0, 1, 1, 1, 0, -1, -1, -1];
+export const NO_FLOW = -1;
+
+// Filled flats get this tiny gradient (meters per cell) so every cell drains
+const FLAT_EPSILON = 1e-4;
+
+export interface FlowRouting {
+    width: number;
+    height: number;
+    direction: Int8Array;     // D8 index (0 = E, clockwise) of the downstream neighbour, NO_FLOW at outlets
+    accumulation: Float32Array; // Contributing cells including the cell itself
+    cellArea: number;         // m² per cell
+}
+
+export interface StreamSegment {
+    points: [number, number][]; // Grid coordinates (x = column, y = row), upstream -> downstream
+    order: number;              // Strahler order
+}
+
+/**
+ * Index of the cell downstream of `index`, or -1 at an outlet
+ */
+export const getDownstreamIndex = (routing: FlowRouting, index: number) => {
+    const dir = routing.direction[index];
+    if (dir === NO_FLOW) return -1;
+    const x = index % routing.width;
+    const y = (index - x) / routing.width;
+    return (y + D8_DY[dir]) * routing.width + x + D8_DX[dir];
+};
+
+/**
+ * Binary min-heap of cell indices keyed by elevation
+ */
+class CellQueue {
+    private cells: number[] = [];
+    constructor(private readonly keys: Float64Array) { }
+
+    get size() {
+        return this.cells.length;
+    }
+
+    push(cell: number) {
+        const { cells, keys } = this;
+        cells.push(cell);
+        let i = cells.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (keys[cells[parent]] <= keys[cell]) break;
+            cells[i] = cells[parent];
+            i = parent;
+        }
+        cells[i] = cell;
+    }
+
+    pop() {
+        const { cells, keys } = this;
+        const top = cells[0];
+        const last = cells.pop()!;
+        if (cells.length > 0) {
+            let i = 0;
+            for (; ;) {
+                const left = 2 * i + 1;
+                if (left >= cells.length) break;
+                const right = left + 1;
+                const child = right < cells.length && keys[cells[right]] < keys[cells[left]] ? right : left;
+                if (keys[cells[child]] >= keys[last]) break;
+                cells[i] = cells[child];
+                i = child;
+            }
+            cells[i] = last;
+        }
+        return top;
+    }
+}
+
+/**
+ * Fill depressions (priority-flood with epsilon, Barnes et al. 2014), then route every cell to its
+ * steepest downslope D8 neighbour and accumulate flow from the ridges down.
+ */
+export const computeFlowRouting = (terrainData: TerrainData, bounds: typeof TERRAIN_CONFIG.BOUNDS): FlowRouting => {
+    const { width, height, data } = terrainData;
+    const { dx, dy } = getCellSize(terrainData, bounds);
+    const count = width * height;
+
+    // Priority-flood from the border inwards; cells come out in ascending filled elevation
+    const filled = Float64Array.from(data);
+    const visited = new Uint8Array(count);
+    const order = new Int32Array(count);
+    const queue = new CellQueue(filled);
+    for (let x = 0; x < width; x++) {
+        for (const y of height > 1 ? [0, height - 1] : [0]) {
+            visited[y * width + x] = 1;
+            queue.push(y * width + x);
+        }
+    }
+    for (let y = 1; y < height - 1; y++) {
+        for (const x of width > 1 ? [0, width - 1] : [0]) {
+            visited[y * width + x] = 1;
+            queue.push(y * width + x);
+        }
+    }
+
+    let processed = 0;
+    while (queue.size > 0) {
+        const cell = queue.pop();
+        order[processed++] = cell;
+        const x = cell % width;
+        const y = (cell - x) / width;
+        for (let d = 0; d < 8; d++) {
+            const nx = x + D8_DX[d];
+            const ny = y + D8_DY[d];
+            if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+            const neighbor = ny * width + nx;
+            if (visited[neighbor]) continue;
+            visited[neighbor] = 1;
+            filled[neighbor] = Math.max(filled[neighbor], filled[cell] + FLAT_EPSILON);
+            queue.push(neighbor);
+        }
+    }
+
+    // Steepest descent on the filled surface; border cells may also drain off the grid
+    const direction = new Int8Array(count).fill(NO_FLOW);
+    const diagonal = Math.hypot(dx, dy);
+    const distances = D8_DX.map((ddx, d) => ddx !== 0 && D8_DY[d] !== 0 ? diagonal : ddx !== 0 ? dx : dy);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const cell = y * width + x;
+            let best = NO_FLOW;
+            let bestSlope = 0;
+            for (let d = 0; d < 8; d++) {
+                const nx = x + D8_DX[d];
+                const ny = y + D8_DY[d];
+                if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+                const slope = (filled[cell] - filled[ny * width + nx]) / distances[d];
+                if (slope > bestSlope) {
+                    bestSlope = slope;
+                    best = d;
+                }
+            }
+            direction[cell] = best;
+        }
+    }
+
+    // Highest cells first: every cell has received all its inflow before passing it on
+    const routing: FlowRouting = { width, height, direction, accumulation: new Float32Array(count).fill(1), cellArea: dx * dy };
+    for (let i = count - 1; i >= 0; i--) {
+        const cell = order[i];
+        const downstream = getDownstreamIndex(routing, cell);
+        if (downstream >= 0) routing.accumulation[downstream] += routing.accumulation[cell];
+    }
+
+    return routing;
+};
+
+/**
+ * Stream cells are those draining at least `thresholdKm2`. Returns polylines between sources,
+ * junctions and outlets, each with its Strahler order.
+ */
+export const extractStreams = (routing: FlowRouting, thresholdKm2: number): StreamSegment[] => {
+    const { width, accumulation } = routing;
+    const count = accumulation.length;
+    const thresholdCells = Math.max(2, (thresholdKm2 * 1e6) / routing.cellArea);
+
+    const isStream = new Uint8Array(count);
+    for (let i = 0; i < count; i++) {
+        if (accumulation[i] >= thresholdCells) isStream[i] = 1;
+    }
+
+    // Stream inflows per stream cell
+    const inflows = new Uint8Array(count);
+    const downstreamOf = new Int32Array(count).fill(-1);
+    for (let i = 0; i < count; i++) {
+        if (!isStream[i]) continue;
+        const downstream = getDownstreamIndex(routing, i);
+        downstreamOf[i] = downstream;
+        if (downstream >= 0 && isStream[downstream]) inflows[downstream]++;
+    }
+
+    // Strahler order, sources first (Kahn's topological order over the stream cells)
+    const order = new Uint8Array(count);
+    const maxInflowOrder = new Uint8Array(count);
+    const maxInflowCount = new Uint8Array(count);
+    const pending = Uint8Array.from(inflows);
+    const ready: number[] = [];
+    for (let i = 0; i < count; i++) {
+        if (isStream[i] && inflows[i] === 0) ready.push(i);
+    }
+    while (ready.length > 0) {
+        const cell = ready.pop()!;
+        order[cell] = maxInflowOrder[cell] === 0 ? 1 : maxInflowOrder[cell] + (maxInflowCount[cell] >= 2 ? 1 : 0);
+
+        const downstream = downstreamOf[cell];
+        if (downstream < 0 || !isStream[downstream]) continue;
+        if (order[cell] > maxInflowOrder[downstream]) {
+            maxInflowOrder[downstream] = order[cell];
+            maxInflowCount[downstream] = 1;
+        } else if (order[cell] === maxInflowOrder[downstream]) {
+            maxInflowCount[downstream]++;
+        }
+        if (--pending[downstream] === 0) ready.push(downstream);
+    }
+
+    // Segments start at sources and right below junctions, and end at the next junction or outlet
+    const segments: StreamSegment[] = [];
+    const toPoint = (cell: number): [number, number] => [cell % width, Math.floor(cell / width)];
+    for (let i = 0; i < count; i++) {
+        if (!isStream[i] || inflows[i] === 1) continue;
+
+        // A junction (or source) cell starts one segment that runs downstream from it
+        const points = [toPoint(i)];
+        let cell = i;
+        for (; ;) {
+            const downstream = downstreamOf[cell];
+            if (downstream < 0 || !isStream[downstream]) break;
+            points.push(toPoint(downstream));
+            if (inflows[downstream] !== 1) break;
+            cell = downstream;
+        }
+        if (points.length > 1) segments.push({ points, order: order[i] });
+    }
+
+    return segments;
+};
+
+/**
+ * Cell with the highest accumulation within `radiusCells` of (gx, gy), so a click near a
+ * channel lands on the channel itself
+ */
+export const snapPourPoint = (routing: FlowRouting, gx: number, gy: number, radiusCells: number) => {
+    const { width, height, accumulation } = routing;
+    const cx = Math.round(Math.max(0, Math.min(width - 1, gx)));
+    const cy = Math.round(Math.max(0, Math.min(height - 1, gy)));
+    const r = Math.max(0, Math.round(radiusCells));
+    let best = cy * width + cx;
+    for (let y = Math.max(0, cy - r); y <= Math.min(height - 1, cy + r); y++) {
+        for (let x = Math.max(0, cx - r); x <= Math.min(width - 1, cx + r); x++) {
+            if ((x - cx) * (x - cx) + (y - cy) * (y - cy) > r * r) continue;
+            const i = y * width + x;
+            if (accumulation[i] > accumulation[best]) best = i;
+        }
+    }
+    return best;
+};
+
+/**
+ * Upstream catchment of `outlet` (1 = drains through the outlet), walking the flow directions backwards
+ */
+export const delineateWatershed = (routing: FlowRouting, outlet: number) => {
+    const { width, height } = routing;
+    const mask = new Uint8Array(width * height);
+    const stack = [outlet];
+    mask[outlet] = 1;
+    while (stack.length > 0) {
+        const cell = stack.pop()!;
+        const x = cell % width;
+        const y = (cell - x) / width;
+        for (let d = 0; d < 8; d++) {
+            const nx = x + D8_DX[d];
+            const ny = y + D8_DY[d];
+            if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+            const neighbor = ny * width + nx;
+            if (!mask[neighbor] && getDownstreamIndex(routing, neighbor) === cell) {
+                mask[neighbor] = 1;
+                stack.push(neighbor);
+            }
+        }
+    }
+    return mask;
+};
+
+export interface Inundation {
+    mask: Uint8Array;   // 1 = under water
+    areaKm2: number;
+    volumeM3: number;   // Water volume between the surface and the water level
+    maxDepth: number;
+}
+
+/**
+ * Cells below `waterLevel` (meters). Without a seed every low cell floods (plain level rise);
+ * with a seed cell only the cells connected to it do (bathtub fill of one basin).
+ * Ellipse areas only count cells inside the ellipse.
+ */
+export const computeInundation = (
+    terrainData: TerrainData,
+    bounds: typeof TERRAIN_CONFIG.BOUNDS,
+    waterLevel: number,
+    options: { shape?: 'rectangle' | 'ellipse'; seed?: number | null } = {}
+): Inundation => {
+    const { width, height, data } = terrainData;
+    const { dx, dy } = getCellSize(terrainData, bounds);
+    const { shape = 'rectangle', seed = null } = options;
+    const count = width * height;
+
+    const isWet = (x: number, y: number) => {
+        if (data[y * width + x] >= waterLevel) return false;
+        if (shape === 'rectangle') return true;
+        const nx = (x / (width - 1)) * 2 - 1;
+        const ny = (y / (height - 1)) * 2 - 1;
+        return nx * nx + ny * ny <= 1;
+    };
+
+    const mask = new Uint8Array(count);
+    if (seed === null) {
+        for (let i = 0; i < count; i++) {
+            if (isWet(i % width, Math.floor(i / width))) mask[i] = 1;
+        }
+    } else if (isWet(seed % width, Math.floor(seed / width))) {
+        // Water spreads through diagonals too, like D8 flow
+        const stack = [seed];
+        mask[seed] = 1;
+        while (stack.length > 0) {
+            const cell = stack.pop()!;
+            const x = cell % width;
+            const y = (cell - x) / width;
+            for (let d = 0; d < 8; d++) {
+                const nx = x + D8_DX[d];
+                const ny = y + D8_DY[d];
+                if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+                const neighbor = ny * width + nx;
+                if (mask[neighbor] || !isWet(nx, ny)) continue;
+                mask[neighbor] = 1;
+                stack.push(neighbor);
+            }
+        }
+    }
+
+    let cells = 0;
+    let depthSum = 0;
+    let maxDepth = 0;
+    for (let i = 0; i < count; i++) {
+        if (!mask[i]) continue;
+        const depth = waterLevel - data[i];
+        cells++;
+        depthSum += depth;
+        if (depth > maxDepth) maxDepth = depth;
+    }
+
+    const cellArea = dx * dy;
+    return { mask, areaKm2: cells * cellArea / 1e6, volumeM3: depthSum * cellArea, maxDepth };
+};
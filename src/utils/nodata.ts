@@ -0,0 +1,135 @@
+import { TERRAIN_CONFIG } from '../config';
+import { TerrainData } from './terrain';
+
+/**
+ * Nodata / void handling for elevation grids.
+ * Missing tiles, black (all-zero) pixels and source nodata values are tracked in a validity
+ * mask (1 = measured, 0 = void). Voids are then filled by interpolation so meshes, walls and
+ * analysis stay continuous, while the mask lets the renderer mark the filled areas.
+ */
+
+// 8 search directions (dx, dy) for the inverse-distance fill
+const DIRECTIONS: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+/**
+ * Elevations outside the physically possible range are encoding artifacts
+ * (a black pixel decodes to -32768 m in Terrarium and -10000 m in Mapbox Terrain-RGB)
+ */
+export const isVoidElevation = (meters: number) =>
+    !Number.isFinite(meters) || meters <= TERRAIN_CONFIG.NODATA.MIN_VALID || meters > TERRAIN_CONFIG.NODATA.MAX_VALID;
+
+export const buildValidityMask = (data: Float32Array): Uint8Array => {
+    const valid = new Uint8Array(data.length);
+    for (let i = 0; i < data.length; i++) {
+        valid[i] = isVoidElevation(data[i]) ? 0 : 1;
+    }
+    return valid;
+};
+
+/**
+ * Min/max over measured cells only
+ */
+export const getValidRange = (data: Float32Array, valid: Uint8Array) => {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < data.length; i++) {
+        if (!valid[i]) continue;
+        if (data[i] < min) min = data[i];
+        if (data[i] > max) max = data[i];
+    }
+    return min === Infinity ? null : { min, max };
+};
+
+/**
+ * Inverse-distance weighting of the nearest measured cell along 8 directions
+ */
+const fillInverseDistance = (data: Float32Array, valid: Uint8Array, width: number, height: number, fallback: number) => {
+    const maxSteps = Math.max(width, height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            if (valid[i]) continue;
+
+            let sum = 0;
+            let weightSum = 0;
+            for (const [dx, dy] of DIRECTIONS) {
+                for (let step = 1; step <= maxSteps; step++) {
+                    const sx = x + dx * step;
+                    const sy = y + dy * step;
+                    if (sx < 0 || sy < 0 || sx >= width || sy >= height) break;
+                    const j = sy * width + sx;
+                    if (!valid[j]) continue;
+                    const distSq = step * step * (dx !== 0 && dy !== 0 ? 2 : 1);
+                    sum += data[j] / distSq;
+                    weightSum += 1 / distSq;
+                    break;
+                }
+            }
+            data[i] = weightSum > 0 ? sum / weightSum : fallback;
+        }
+    }
+};
+
+/**
+ * Smooth the filled cells towards a harmonic (Laplace) surface that matches the measured border
+ */
+const relaxLaplacian = (data: Float32Array, valid: Uint8Array, width: number, height: number, iterations: number) => {
+    const voids: number[] = [];
+    for (let i = 0; i < valid.length; i++) {
+        if (!valid[i]) voids.push(i);
+    }
+
+    for (let iter = 0; iter < iterations; iter++) {
+        let maxChange = 0;
+        for (const i of voids) {
+            const x = i % width;
+            const y = (i - x) / width;
+            // Mirror at the grid edges (zero slope across the border)
+            const left = data[x > 0 ? i - 1 : i + 1];
+            const right = data[x < width - 1 ? i + 1 : i - 1];
+            const up = data[y > 0 ? i - width : i + width];
+            const down = data[y < height - 1 ? i + width : i - width];
+            const next = (left + right + up + down) / 4;
+            maxChange = Math.max(maxChange, Math.abs(next - data[i]));
+            data[i] = next;
+        }
+        if (maxChange < 0.01) break;
+    }
+};
+
+/**
+ * Fill voids in place. Returns the number of filled cells.
+ */
+export const fillVoids = (data: Float32Array, valid: Uint8Array, width: number, height: number, method = TERRAIN_CONFIG.NODATA.FILL_METHOD) => {
+    let voidCount = 0;
+    let sum = 0;
+    for (let i = 0; i < valid.length; i++) {
+        if (valid[i]) sum += data[i];
+        else voidCount++;
+    }
+    if (voidCount === 0) return 0;
+
+    const measured = valid.length - voidCount;
+    const fallback = measured > 0 ? sum / measured : 0;
+
+    fillInverseDistance(data, valid, width, height, fallback);
+    if (method === 'laplacian' && measured > 0 && width > 1 && height > 1) {
+        relaxLaplacian(data, valid, width, height, TERRAIN_CONFIG.NODATA.LAPLACIAN_ITERATIONS);
+    }
+    return voidCount;
+};
+
+/**
+ * Turn a raw elevation grid (voids as NaN or out-of-range values) into TerrainData:
+ * validity mask, voids filled, min/max taken from measured cells only.
+ * An all-void grid comes back flat at 0 m.
+ */
+export const buildTerrainData = (data: Float32Array, width: number, height: number, valid = buildValidityMask(data)): TerrainData => {
+    const voidCount = fillVoids(data, valid, width, height);
+    if (voidCount > 0) {
+        console.warn(`🕳️ DEM: filled ${voidCount} void cells (${((voidCount / data.length) * 100).toFixed(1)}%, ${TERRAIN_CONFIG.NODATA.FILL_METHOD})`);
+    }
+
+    const range = getValidRange(data, valid) ?? { min: 0, max: 0 };
+    return { width, height, data, valid, minHeight: range.min, maxHeight: range.max };
+};
@@ -0,0 +1,85 @@
+import { TERRAIN_CONFIG } from '../config';
+import { getTileXYZ } from './projection';
+import { hasCachedTile, loadCachedDemTile, loadCachedImageTile } from './tileCache';
+
+export interface PrefetchOptions {
+    demZooms: number[];
+    imageryUrl?: string | null; // XYZ template from BASE_MAPS, null to skip imagery
+    imageryZooms: number[];
+    signal?: AbortSignal;
+    onProgress?: (done: number, total: number, failed: number) => void;
+}
+
+const fillTemplate = (template: string, x: number, y: number, z: number) =>
+    template.replace('{x}', x.toString()).replace('{y}', y.toString()).replace('{z}', z.toString());
+
+const listTileUrls = (bounds: typeof TERRAIN_CONFIG.BOUNDS, template: string, zooms: number[]) => {
+    const urls: string[] = [];
+    zooms.forEach(z => {
+        const minTile = getTileXYZ(bounds.latMax, bounds.lonMin, z);
+        const maxTile = getTileXYZ(bounds.latMin, bounds.lonMax, z);
+        for (let y = minTile.y; y <= maxTile.y; y++) {
+            for (let x = minTile.x; x <= maxTile.x; x++) {
+                urls.push(fillTemplate(template, x, y, z));
+            }
+        }
+    });
+    return urls;
+};
+
+/**
+ * Count tiles a prefetch would touch (shown in the UI before starting)
+ */
+export const estimatePrefetchTiles = (bounds: typeof TERRAIN_CONFIG.BOUNDS, options: Omit<PrefetchOptions, 'signal' | 'onProgress'>) => {
+    const dem = listTileUrls(bounds, TERRAIN_CONFIG.DEM_TILE_URL, options.demZooms).length;
+    const imagery = options.imageryUrl ? listTileUrls(bounds, options.imageryUrl, options.imageryZooms).length : 0;
+    const limit = TERRAIN_CONFIG.TILE_CACHE.PREFETCH_MAX_TILES;
+    return { dem, imagery, total: dem + imagery, limit, capped: dem + imagery > limit };
+};
+
+/**
+ * Download every DEM and imagery tile covering `bounds` into the offline cache, up to PREFETCH_MAX_TILES.
+ * Tiles already cached are skipped. Runs a small number of requests in parallel.
+ * `requested` is the full tile count, so callers can tell when the cap left part of the area uncached.
+ */
+export const prefetchArea = async (bounds: typeof TERRAIN_CONFIG.BOUNDS, options: PrefetchOptions) => {
+    // Each job resolves to whether the tile ended up in the cache (the loaders return null on failure)
+    const jobs: { key: string; run: () => Promise<boolean> }[] = [];
+
+    listTileUrls(bounds, TERRAIN_CONFIG.DEM_TILE_URL, options.demZooms).forEach(url => {
+        jobs.push({ key: `dem:${TERRAIN_CONFIG.DEM_ENCODING}:${url}`, run: () => loadCachedDemTile(url).then(tile => tile !== null) });
+    });
+    if (options.imageryUrl) {
+        listTileUrls(bounds, options.imageryUrl, options.imageryZooms).forEach(url => {
+            jobs.push({ key: `img:${url}`, run: () => loadCachedImageTile(url).then(bitmap => {
+                bitmap?.close();
+                return bitmap !== null;
+            }) });
+        });
+    }
+
+    const total = Math.min(jobs.length, TERRAIN_CONFIG.TILE_CACHE.PREFETCH_MAX_TILES);
+    if (jobs.length > total) {
+        console.warn(`Prefetch limited to ${total} of ${jobs.length} tiles`);
+    }
+
+    let next = 0;
+    let done = 0;
+    let failed = 0;
+
+    const worker = async () => {
+        while (next < total && !options.signal?.aborted) {
+            const job = jobs[next++];
+            try {
+                if (!(await hasCachedTile(job.key)) && !(await job.run())) failed++;
+            } catch {
+                failed++;
+            }
+            done++;
+            options.onProgress?.(done, total, failed);
+        }
+    };
+
+    await Promise.all(Array.from({ length: TERRAIN_CONFIG.TILE_CACHE.PREFETCH_CONCURRENCY }, worker));
+    return { done, failed, total, requested: jobs.length };
+};
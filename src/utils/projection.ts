@@ -0,0 +1,171 @@
+import proj4 from 'proj4';
+import { TERRAIN_CONFIG } from '../config';
+
+/**
+ * Web Mercator (EPSG:3857) helpers shared by the DEM loader, base-map textures and every
+ * overlay that places things on the terrain.
+ * The terrain plane is laid out like the DEM grid: X is linear in longitude and Y is linear
+ * in Mercator Y (not in latitude), with the northern edge at +halfHeight.
+ */
+
+type Bounds = typeof TERRAIN_CONFIG.BOUNDS;
+
+const DEG_TO_RAD = Math.PI / 180;
+const TILE_SIZE = 256;
+
+/**
+ * Unitless Mercator Y of a latitude (grows northwards)
+ */
+export const mercatorY = (lat: number) => Math.log(Math.tan(Math.PI / 4 + (lat * DEG_TO_RAD) / 2));
+
+export const latFromMercatorY = (y: number) => (2 * Math.atan(Math.exp(y)) - Math.PI / 2) / DEG_TO_RAD;
+
+/**
+ * Global pixel position at `zoom` (slippy-map convention, y grows southwards)
+ */
+export const latLonToPixel = (lat: number, lon: number, zoom: number, tileSize = TILE_SIZE) => {
+    const scale = Math.pow(2, zoom) * tileSize;
+    return {
+        x: ((lon + 180) / 360) * scale,
+        y: (0.5 - mercatorY(lat) / (2 * Math.PI)) * scale,
+    };
+};
+
+export const pixelToLatLon = (x: number, y: number, zoom: number, tileSize = TILE_SIZE) => {
+    const scale = Math.pow(2, zoom) * tileSize;
+    return {
+        lat: latFromMercatorY((0.5 - y / scale) * 2 * Math.PI),
+        lon: (x / scale) * 360 - 180,
+    };
+};
+
+export const getTileXYZ = (lat: number, lon: number, zoom: number) => {
+    const { x, y } = latLonToPixel(lat, lon, zoom, 1);
+    return { x: Math.floor(x), y: Math.floor(y), z: zoom };
+};
+
+/**
+ * Fractions of `bounds`: u = 0 West .. 1 East, v = 0 North .. 1 South (linear in Mercator Y)
+ */
+export const latLonToUV = (lat: number, lon: number, bounds: Bounds) => {
+    const yTop = mercatorY(bounds.latMax);
+    const yBottom = mercatorY(bounds.latMin);
+    return {
+        u: (lon - bounds.lonMin) / (bounds.lonMax - bounds.lonMin),
+        v: (mercatorY(lat) - yTop) / (yBottom - yTop),
+    };
+};
+
+export const uvToLatLon = (u: number, v: number, bounds: Bounds) => {
+    const yTop = mercatorY(bounds.latMax);
+    const yBottom = mercatorY(bounds.latMin);
+    return {
+        lat: latFromMercatorY(yTop + v * (yBottom - yTop)),
+        lon: bounds.lonMin + u * (bounds.lonMax - bounds.lonMin),
+    };
+};
+
+/**
+ * UTM zone (WGS84) containing the centre of the bounds, as a proj4 definition and EPSG code
+ */
+export const getUtmZone = (bounds: Bounds) => {
+    const latMid = (bounds.latMin + bounds.latMax) / 2;
+    const lonMid = (bounds.lonMin + bounds.lonMax) / 2;
+    const zone = Math.floor((lonMid + 180) / 6) + 1;
+    const south = latMid < 0;
+    return {
+        zone,
+        south,
+        projection: `+proj=utm +zone=${zone}${south ? ' +south' : ''} +datum=WGS84 +units=m +no_defs`,
+        epsg: (south ? 32700 : 32600) + zone,
+    };
+};
+
+/**
+ * Lat/lon to UTM easting/northing (meters) in the zone of the bounds.
+ * Builds the proj4 converter once: create it per export, then call it per vertex.
+ */
+export const createUtmConverter = (bounds: Bounds) => {
+    const converter = proj4('EPSG:4326', getUtmZone(bounds).projection);
+    return (lat: number, lon: number): [number, number] => {
+        const [easting, northing] = converter.forward([lon, lat]);
+        return [easting, northing];
+    };
+};
+
+/**
+ * Real-world size of the bounds in meters, measured in the local UTM zone
+ */
+export const calculateBoundsDimensions = (bounds: Bounds) => {
+    const { latMin, lonMin, latMax, lonMax } = bounds;
+    const latMid = (latMin + latMax) / 2;
+    const lonMid = (lonMin + lonMax) / 2;
+
+    // Determine UTM zone
+    const utmProjection = getUtmZone(bounds).projection;
+
+    // WGS84
+    const wgs84 = 'EPSG:4326';
+
+    // Calculate Width (E-W at mid lat)
+    const p1 = proj4(wgs84, utmProjection, [lonMin, latMid]);
+    const p2 = proj4(wgs84, utmProjection, [lonMax, latMid]);
+    const width = Math.sqrt(Math.pow(p2[0] - p1[0], 2) + Math.pow(p2[1] - p1[1], 2));
+
+    // Calculate Height (N-S at mid lon)
+    const p3 = proj4(wgs84, utmProjection, [lonMid, latMin]);
+    const p4 = proj4(wgs84, utmProjection, [lonMid, latMax]);
+    const height = Math.sqrt(Math.pow(p4[0] - p3[0], 2) + Math.pow(p4[1] - p3[1], 2));
+
+    return { width, height, minDimension: Math.min(width, height) };
+};
+
+const worldExtentsCache = new Map<string, ReturnType<typeof computeWorldExtents>>();
+
+const computeWorldExtents = (bounds: Bounds) => {
+    const { width, height } = calculateBoundsDimensions(bounds);
+    // Longest side is 100 units, both axes share the same scale
+    const unitsPerMeter = 100 / Math.max(width, height);
+    const worldWidth = width * unitsPerMeter;
+    const worldHeight = height * unitsPerMeter;
+    return {
+        width: worldWidth,          // X extent (West -> East)
+        height: worldHeight,        // Y extent in the terrain plane (North -> South)
+        halfWidth: worldWidth / 2,
+        halfHeight: worldHeight / 2,
+        unitsPerMeter,              // Also the vertical scale of the terrain meshes
+    };
+};
+
+/**
+ * Scene size of the terrain block, following the real width/height ratio of the bounds.
+ * The terrain plane spans -halfWidth..halfWidth (X) and -halfHeight..halfHeight (Y).
+ */
+export const getWorldExtents = (bounds: Bounds) => {
+    const key = `${bounds.latMin},${bounds.lonMin},${bounds.latMax},${bounds.lonMax}`;
+    let extents = worldExtentsCache.get(key);
+    if (!extents) {
+        extents = computeWorldExtents(bounds);
+        worldExtentsCache.set(key, extents);
+    }
+    return extents;
+};
+
+export type WorldExtents = ReturnType<typeof getWorldExtents>;
+
+/**
+ * Lat/lon to terrain plane coordinates (before the group's -90° X rotation, so Y is North)
+ */
+export const latLonToWorld = (lat: number, lon: number, bounds: Bounds): [number, number] => {
+    const { width, height } = getWorldExtents(bounds);
+    const { u, v } = latLonToUV(lat, lon, bounds);
+    return [(u - 0.5) * width, (0.5 - v) * height];
+};
+
+/**
+ * Inverse of latLonToWorld. Scene points (after rotation) map as worldToLatLon(p.x, -p.z).
+ */
+export const worldToLatLon = (x: number, y: number, bounds: Bounds) => {
+    const { width, height } = getWorldExtents(bounds);
+    return uvToLatLon(x / width + 0.5, 0.5 - y / height, bounds);
+};
@@ -0,0 +1,112 @@
+/**
+ * Vectorize binary raster masks (catchments, flood extents, ...) into polygon rings.
+ * Each cell is a square centred on its grid node, so ring vertices are cell corners at
+ * half-integer grid coordinates. Rings are closed (first point repeated).
+ * In grid space (y = row, growing southwards) outer rings run clockwise and holes counter-clockwise,
+ * which becomes counter-clockwise / clockwise once y points North (GeoJSON winding).
+ */
+
+export type Ring = [number, number][];
+
+/**
+ * Shoelace area in grid space: positive for outer rings, negative for holes
+ */
+export const ringArea = (ring: Ring) => {
+    let area = 0;
+    for (let i = 0; i < ring.length - 1; i++) {
+        area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+    }
+    return area / 2;
+};
+
+const isPointInRing = (x: number, y: number, ring: Ring) => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 2; i < ring.length - 1; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+};
+
+/**
+ * Boundary rings of all cells with mask[i] !== 0
+ */
+export const traceMaskOutline = (mask: Uint8Array, width: number, height: number): Ring[] => {
+    const isSet = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] !== 0;
+
+    // Directed boundary edges between corner (i, j) = grid (i - 0.5, j - 0.5), interior on the right
+    const cornerKey = (i: number, j: number) => j * (width + 1) + i;
+    const edges = new Map<number, number[]>(); // start corner -> end corners
+    const addEdge = (i0: number, j0: number, i1: number, j1: number) => {
+        const key = cornerKey(i0, j0);
+        const list = edges.get(key);
+        if (list) list.push(cornerKey(i1, j1));
+        else edges.set(key, [cornerKey(i1, j1)]);
+    };
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!isSet(x, y)) continue;
+            if (!isSet(x, y - 1)) addEdge(x, y, x + 1, y);             // top, heading East
+            if (!isSet(x + 1, y)) addEdge(x + 1, y, x + 1, y + 1);     // right, heading South
+            if (!isSet(x, y + 1)) addEdge(x + 1, y + 1, x, y + 1);     // bottom, heading West
+            if (!isSet(x - 1, y)) addEdge(x, y + 1, x, y);             // left, heading North
+        }
+    }
+
+    const toCorner = (key: number): [number, number] => [key % (width + 1), Math.floor(key / (width + 1))];
+    const rings: Ring[] = [];
+    for (const [startKey, ends] of edges) {
+        while (ends.length > 0) {
+            const corners = [startKey];
+            let previous = startKey;
+            let current = ends.pop()!;
+            while (current !== startKey) {
+                corners.push(current);
+                const next = edges.get(current)!;
+                let pick = next.length - 1;
+                if (next.length > 1) {
+                    // Pinch point between diagonal cells: turn right to stay on this cell's boundary
+                    const [px, py] = toCorner(previous);
+                    const [cx, cy] = toCorner(current);
+                    pick = next.findIndex(key => {
+                        const [nx, ny] = toCorner(key);
+                        return (cx - px) * (ny - cy) - (cy - py) * (nx - cx) > 0;
+                    });
+                    if (pick < 0) pick = next.length - 1;
+                }
+                previous = current;
+                current = next.splice(pick, 1)[0];
+            }
+
+            // Drop corners on straight runs and convert to grid coordinates
+            const ring: Ring = [];
+            for (let k = 0; k < corners.length; k++) {
+                const [ax, ay] = toCorner(corners[(k + corners.length - 1) % corners.length]);
+                const [bx, by] = toCorner(corners[k]);
+                const [cx, cy] = toCorner(corners[(k + 1) % corners.length]);
+                if ((bx - ax) * (cy - by) - (by - ay) * (cx - bx) !== 0) ring.push([bx - 0.5, by - 0.5]);
+            }
+            if (ring.length >= 3) {
+                ring.push([ring[0][0], ring[0][1]]);
+                rings.push(ring);
+            }
+        }
+    }
+    return rings;
+};
+
+/**
+ * Group outline rings into polygons: [outer, ...holes], holes assigned to the outer ring that contains them
+ */
+export const maskToPolygons = (mask: Uint8Array, width: number, height: number): Ring[][] => {
+    const rings = traceMaskOutline(mask, width, height);
+    const polygons: Ring[][] = rings.filter(ring => ringArea(ring) > 0).map(ring => [ring]);
+    rings.filter(ring => ringArea(ring) < 0).forEach(hole => {
+        // A hole vertex is a corner of a cell inside its outer ring, nudge it into that cell
+        const [hx, hy] = hole[0];
+        const owner = polygons.find(polygon => isPointInRing(hx + 0.25, hy + 0.25, polygon[0]) || isPointInRing(hx - 0.25, hy - 0.25, polygon[0]));
+        owner?.push(hole);
+    });
+    return polygons;
+};
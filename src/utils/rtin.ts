@@ -0,0 +1,130 @@
+/**
+ * Right-Triangulated Irregular Network (RTIN) meshing, after Will Evans et al. and
+ * Vladimir Agafonkin's "Martini".
+ * The grid is recursively split into right triangles; a triangle is only split further when the
+ * height at the midpoint of its long edge differs from the interpolated value by more than
+ * `maxError` (in the units of `heights`, i.e. meters). Flat areas end up with few large
+ * triangles, ridges and valleys keep full resolution.
+ * The grid must be (2^k + 1) x (2^k + 1).
+ */
+
+export const isRtinGridSize = (size: number) => {
+    const tileSize = size - 1;
+    return tileSize > 0 && (tileSize & (tileSize - 1)) === 0;
+};
+
+// Triangle corner coordinates only depend on the grid size, cache them per size
+const coordsCache = new Map<number, Uint16Array>();
+
+const getTriangleCoords = (size: number) => {
+    const cached = coordsCache.get(size);
+    if (cached) return cached;
+
+    const tileSize = size - 1;
+    const numTriangles = tileSize * tileSize * 2 - 2;
+    const coords = new Uint16Array(numTriangles * 4);
+
+    // Triangles are addressed as an implicit binary tree, the two roots being ids 2 and 3
+    for (let i = 0; i < numTriangles; i++) {
+        let id = i + 2;
+        let ax = 0, ay = 0, bx = 0, by = 0, cx = 0, cy = 0;
+        if (id & 1) {
+            bx = by = cx = tileSize; // Bottom-left root
+        } else {
+            ax = ay = cy = tileSize; // Top-right root
+        }
+        while ((id >>= 1) > 1) {
+            const mx = (ax + bx) >> 1;
+            const my = (ay + by) >> 1;
+            if (id & 1) { // Left child
+                bx = ax; by = ay;
+                ax = cx; ay = cy;
+            } else { // Right child
+                ax = bx; ay = by;
+                bx = cx; by = cy;
+            }
+            cx = mx; cy = my;
+        }
+        const k = i * 4;
+        coords[k] = ax;
+        coords[k + 1] = ay;
+        coords[k + 2] = bx;
+        coords[k + 3] = by;
+    }
+
+    coordsCache.set(size, coords);
+    return coords;
+};
+
+/**
+ * Error of every vertex: the largest vertical error introduced by leaving it (or any vertex it
+ * depends on) out of the mesh.
+ */
+const computeErrors = (heights: ArrayLike<number>, size: number) => {
+    const tileSize = size - 1;
+    const numTriangles = tileSize * tileSize * 2 - 2;
+    const numParentTriangles = numTriangles - tileSize * tileSize;
+    const coords = getTriangleCoords(size);
+    const errors = new Float32Array(size * size);
+
+    // Smallest triangles first so parents can inherit their children's errors
+    for (let i = numTriangles - 1; i >= 0; i--) {
+        const k = i * 4;
+        const ax = coords[k];
+        const ay = coords[k + 1];
+        const bx = coords[k + 2];
+        const by = coords[k + 3];
+        const mx = (ax + bx) >> 1;
+        const my = (ay + by) >> 1;
+        const cx = mx + my - ay;
+        const cy = my + ax - mx;
+
+        const interpolated = (heights[ay * size + ax] + heights[by * size + bx]) / 2;
+        const middle = my * size + mx;
+        const middleError = Math.abs(interpolated - heights[middle]);
+        errors[middle] = Math.max(errors[middle], middleError);
+
+        if (i < numParentTriangles) {
+            const leftChild = ((ay + cy) >> 1) * size + ((ax + cx) >> 1);
+            const rightChild = ((by + cy) >> 1) * size + ((bx + cx) >> 1);
+            errors[middle] = Math.max(errors[middle], errors[leftChild], errors[rightChild]);
+        }
+    }
+    return errors;
+};
+
+/**
+ * Triangulate a height grid. Returns triangles as grid indices (row * size + col),
+ * wound counter-clockwise when viewed from above with row 0 to the North.
+ */
+export const buildRtinTriangles = (heights: ArrayLike<number>, size: number, maxError: number): Uint32Array => {
+    const tileSize = size - 1;
+    const errors = computeErrors(heights, size);
+    const triangles: number[] = [];
+
+    const emit = (ax: number, ay: number, bx: number, by: number, cx: number, cy: number) => {
+        // Rows grow southwards, so a clockwise triangle in grid space is counter-clockwise on the map
+        const cross = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+        const a = ay * size + ax;
+        const b = by * size + bx;
+        const c = cy * size + cx;
+        if (cross < 0) triangles.push(a, b, c);
+        else triangles.push(a, c, b);
+    };
+
+    const split = (ax: number, ay: number, bx: number, by: number, cx: number, cy: number) => {
+        const mx = (ax + bx) >> 1;
+        const my = (ay + by) >> 1;
+        if (Math.abs(ax - cx) + Math.abs(ay - cy) > 1 && errors[my * size + mx] > maxError) {
+            split(cx, cy, ax, ay, mx, my);
+            split(bx, by, cx, cy, mx, my);
+        } else {
+            emit(ax, ay, bx, by, cx, cy);
+        }
+    };
+
+    split(0, 0, tileSize, tileSize, tileSize, 0);
+    split(tileSize, tileSize, 0, 0, 0, tileSize);
+
+    return new Uint32Array(triangles);
+};
@@ -1,20 +1,25 @@
 
 import { TERRAIN_CONFIG } from '../config';
-import proj4 from 'proj4';
-
-const { BOUNDS } = TERRAIN_CONFIG;
-
-export const getTileXYZ = (lat: number, lon: number, zoom: number) => {
-    const n = Math.pow(2, zoom);
-    const x = Math.floor(n * ((lon + 180) / 360));
-    const latRad = (lat * Math.PI) / 180;
-    const y = Math.floor(
-        (n * (1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI)) / 2
-    );
-    return { x, y, z: zoom };
-};
-
-export const calculateOptimalZoom = (bounds: typeof BOUNDS, targetResolution = 1024, maxZoom = TERRAIN_CONFIG.DEM_MAX_LEVEL) => {
+import { loadCachedDemTile } from './tileCache';
+import { DemTile } from './demDecoders';
+import { CancelledError } from './cancellation';
+import { getTileXYZ, getWorldExtents, latLonToPixel } from './projection';
+import { buildTerrainData } from './nodata';
+
+/**
+ * Elevation grid consumed by TerrainComponent and its overlays.
+ * Row 0 is the northern edge, rows are evenly spaced in Web Mercator Y.
+ */
+export interface TerrainData {
+    width: number;
+    height: number;
+    data: Float32Array;
+    valid: Uint8Array;  // 1 = measured, 0 = void filled by interpolation (see nodata.ts)
+    minHeight: number;  // Range of the measured cells only
+    maxHeight: number;
+}
+
+export const calculateOptimalZoom = (bounds: typeof TERRAIN_CONFIG.BOUNDS, targetResolution = 1024, maxZoom = TERRAIN_CONFIG.DEM_MAX_LEVEL) => {
     const latDiff = bounds.latMax - bounds.latMin;
     const lonDiff = bounds.lonMax - bounds.lonMin;
     const maxDiff = Math.max(latDiff, lonDiff);
@@ -37,22 +42,10 @@ export const calculateOptimalZoom = (bounds: typeof BOUNDS, targetResolution = 1
     return Math.max(8, Math.min(optimal, maxZoom));
 };
 
-export const fetchTerrainTile = async (zoom?: number, customBounds?: typeof BOUNDS) => {
-    // Use custom bounds or default to config bounds
-    const bounds = customBounds || BOUNDS;
-
+export const fetchTerrainTile = async (zoom: number | undefined, bounds: typeof TERRAIN_CONFIG.BOUNDS, isCancelled?: () => boolean): Promise<TerrainData> => {
     // Determine zoom if not provided
     const targetZoom = zoom || calculateOptimalZoom(bounds);
 
-    // Helper to calculate exact pixel coordinates in Mercator projection
-    const getProjectedPixel = (lat: number, lon: number, z: number) => {
-        const n = Math.pow(2, z);
-        const x = n * ((lon + 180) / 360) * 256;
-        const latRad = (lat * Math.PI) / 180;
-        const y = (n * (1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI)) / 2 * 256;
-        return { x, y };
-    };
-
     // Calculate tile bounds from bounds
     const minTile = getTileXYZ(bounds.latMax, bounds.lonMin, targetZoom);
     const maxTile = getTileXYZ(bounds.latMin, bounds.lonMax, targetZoom);
@@ -71,34 +64,8 @@ export const fetchTerrainTile = async (zoom?: number, customBounds?: typeof BOUN
 
     console.log(`Loading ${totalTiles} tiles (${tilesX}x${tilesY}) at zoom ${targetZoom}`);
 
-    // Calculate exact pixel crop area relative to the topleft of the minTile
-    const topLeftPixel = getProjectedPixel(bounds.latMax, bounds.lonMin, targetZoom);
-    const bottomRightPixel = getProjectedPixel(bounds.latMin, bounds.lonMax, targetZoom);
-
-    // Origin of the composite canvas in world pixel space
-    const originX = minTile.x * 256;
-    const originY = minTile.y * 256;
-
-    // Determine crop window (integer pixels)
-    // We floor/ceil to ensure we cover the bounds, but constrain to the composite size if necessary
-    const cropX = Math.floor(topLeftPixel.x - originX);
-    const cropY = Math.floor(topLeftPixel.y - originY);
-    const cropWidth = Math.ceil(bottomRightPixel.x - originX) - cropX;
-    const cropHeight = Math.ceil(bottomRightPixel.y - originY) - cropY;
-
-    const tileSize = 256;
-
-    // Create composite canvas
-    const compositeWidth = tilesX * tileSize;
-    const compositeHeight = tilesY * tileSize;
-    const canvas = document.createElement('canvas');
-    canvas.width = compositeWidth;
-    canvas.height = compositeHeight;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error('Canvas context not available');
-
-    // Load all tiles
-    const tilePromises: Promise<void>[] = [];
+    // Load and decode all tiles
+    const tilePromises: Promise<DemTile | null>[] = [];
 
     for (let ty = 0; ty < tilesY; ty++) {
         for (let tx = 0; tx < tilesX; tx++) {
@@ -110,37 +77,68 @@ export const fetchTerrainTile = async (zoom?: number, customBounds?: typeof BOUN
                 .replace('{x}', tileX.toString())
                 .replace('{y}', tileY.toString());
 
-            const promise = new Promise<void>((resolve, reject) => {
-                const img = new Image();
-                img.crossOrigin = 'Anonymous';
-                img.onload = () => {
-                    ctx.drawImage(img, tx * tileSize, ty * tileSize);
-                    resolve();
-                };
-                img.onerror = () => {
-                    console.error(`Failed to load DEM tile ${tileX},${tileY}`);
-                    resolve(); // Continue even if tile fails
-                };
-                img.src = url;
-            });
-
-            tilePromises.push(promise);
+            tilePromises.push(loadCachedDemTile(url).then(tile => {
+                if (!tile) console.error(`Failed to load DEM tile ${tileX},${tileY}`);
+                return tile; // Continue even if tile fails
+            }).catch(error => {
+                console.error(`Failed to decode DEM tile ${tileX},${tileY}`, error);
+                return null;
+            }));
         }
     }
 
     // Wait for all tiles
-    await Promise.all(tilePromises);
+    const tiles = await Promise.all(tilePromises);
+
+    // A newer LOD request superseded this one while tiles were downloading
+    if (isCancelled?.()) throw new CancelledError();
+
+    // Composite resolution follows the decoded tiles (256 px, or 512 px for @2x sources)
+    const tileSize = tiles.reduce((size, tile) => tile ? Math.max(size, tile.width) : size, 0) || 256;
+
+    // Composite elevation buffer covering all tiles (meters)
+    const compositeWidth = tilesX * tileSize;
+    const compositeHeight = tilesY * tileSize;
+    // Tiles that fail to load stay NaN and are treated as voids
+    const composite = new Float32Array(compositeWidth * compositeHeight).fill(NaN);
+
+    tiles.forEach((tile, i) => {
+        if (!tile) return;
+        const tx = i % tilesX;
+        const ty = Math.floor(i / tilesX);
+        for (let row = 0; row < tileSize; row++) {
+            const offset = (ty * tileSize + row) * compositeWidth + tx * tileSize;
+            if (tile.width === tileSize && tile.height === tileSize) {
+                composite.set(tile.heights.subarray(row * tileSize, (row + 1) * tileSize), offset);
+                continue;
+            }
+            // Mixed tile sizes: nearest-neighbour resample into the slot
+            const srcRow = Math.min(tile.height - 1, Math.floor(row * tile.height / tileSize));
+            for (let col = 0; col < tileSize; col++) {
+                const srcCol = Math.min(tile.width - 1, Math.floor(col * tile.width / tileSize));
+                composite[offset + col] = tile.heights[srcRow * tile.width + srcCol];
+            }
+        }
+    });
+
+    // Calculate exact pixel crop area relative to the topleft of the minTile, in composite pixels
+    const topLeftPixel = latLonToPixel(bounds.latMax, bounds.lonMin, targetZoom, tileSize);
+    const bottomRightPixel = latLonToPixel(bounds.latMin, bounds.lonMax, targetZoom, tileSize);
 
-    // Extract elevation data from composite canvas
-    const imgData = ctx.getImageData(0, 0, compositeWidth, compositeHeight);
-    const { data } = imgData;
+    // Origin of the composite canvas in world pixel space
+    const originX = minTile.x * tileSize;
+    const originY = minTile.y * tileSize;
+
+    // Determine crop window (integer pixels)
+    // We floor/ceil to ensure we cover the bounds, but constrain to the composite size if necessary
+    const cropX = Math.floor(topLeftPixel.x - originX);
+    const cropY = Math.floor(topLeftPixel.y - originY);
+    const cropWidth = Math.ceil(bottomRightPixel.x - originX) - cropX;
+    const cropHeight = Math.ceil(bottomRightPixel.y - originY) - cropY;
 
     // Create buffer for ONLY the cropped area
     const elevations = new Float32Array(cropWidth * cropHeight);
 
-    let minH = Infinity;
-    let maxH = -Infinity;
-
     // Iterate over the crop area
     for (let y = 0; y < cropHeight; y++) {
         for (let x = 0; x < cropWidth; x++) {
@@ -148,90 +146,34 @@ export const fetchTerrainTile = async (zoom?: number, customBounds?: typeof BOUN
             const sy = Math.min(Math.max(cropY + y, 0), compositeHeight - 1); // Clamp for safety
             const sx = Math.min(Math.max(cropX + x, 0), compositeWidth - 1);
 
-            const srcIdx = (sy * compositeWidth + sx) * 4;
-
-            const r = data[srcIdx];
-            const g = data[srcIdx + 1];
-            const b = data[srcIdx + 2];
-
-            // Mapzen Terrarium format: (r * 256 + g + b / 256) - 32768
-            const meters = (r * 256 + g + b / 256) - 32768;
+            const meters = composite[sy * compositeWidth + sx];
 
             const targetIdx = y * cropWidth + x;
             elevations[targetIdx] = meters;
-
-            if (meters < minH) minH = meters;
-            if (meters > maxH) maxH = meters;
         }
     }
 
-    return {
-        width: cropWidth,
-        height: cropHeight,
-        data: elevations,
-        minHeight: minH,
-        maxHeight: maxH
-    };
-};
-
-export const calculateBoundsDimensions = (bounds: typeof TERRAIN_CONFIG.BOUNDS) => {
-    const { latMin, lonMin, latMax, lonMax } = bounds;
-    const latMid = (latMin + latMax) / 2;
-    const lonMid = (lonMin + lonMax) / 2;
-
-    // Determine UTM zone
-    const zone = Math.floor((lonMid + 180) / 6) + 1;
-    const utmProjection = `+proj=utm +zone=${zone} +datum=WGS84 +units=m +no_defs`;
-
-    // WGS84
-    const wgs84 = 'EPSG:4326';
-
-    // Calculate Width (E-W at mid lat)
-    const p1 = proj4(wgs84, utmProjection, [lonMin, latMid]);
-    const p2 = proj4(wgs84, utmProjection, [lonMax, latMid]);
-    const width = Math.sqrt(Math.pow(p2[0] - p1[0], 2) + Math.pow(p2[1] - p1[1], 2));
-
-    // Calculate Height (N-S at mid lon)
-    const p3 = proj4(wgs84, utmProjection, [lonMid, latMin]);
-    const p4 = proj4(wgs84, utmProjection, [lonMid, latMax]);
-    const height = Math.sqrt(Math.pow(p4[0] - p3[0], 2) + Math.pow(p4[1] - p3[1], 2));
-
-    return { width, height, minDimension: Math.min(width, height) };
-};
-
-export const latLonToWorld = (lat: number, lon: number, bounds: typeof TERRAIN_CONFIG.BOUNDS): [number, number] => {
-    const { latMin, latMax, lonMin, lonMax } = bounds;
-
-    // Normalize to 0-1
-    const nLat = (lat - latMin) / (latMax - latMin);
-    const nLon = (lon - lonMin) / (lonMax - lonMin);
-
-    // Map to -50 to 50
-    // X corresponds to Longitude
-    const x = (nLon * 100) - 50;
-
-    // Y corresponds to Latitude (which becomes Z in 3D after rotation, or Y in PlaneGeometry)
-    const y = (nLat * 100) - 50;
-
-    return [x, y];
+    // Mask voids, fill them and take min/max from measured cells only
+    return buildTerrainData(elevations, cropWidth, cropHeight);
 };
 
 export const getTerrainHeight = (
     worldX: number,
     worldY: number,
-    terrainData: { width: number; height: number; data: Float32Array; minHeight: number, maxHeight: number },
+    terrainData: TerrainData,
     exaggeration: number,
-    bounds?: typeof TERRAIN_CONFIG.BOUNDS
+    bounds: typeof TERRAIN_CONFIG.BOUNDS
 ): number => {
     if (!terrainData) return 0;
     const { width, height, data, minHeight } = terrainData;
+    const world = getWorldExtents(bounds);
 
-    // Convert world (-50 to 50) to grid coordinates
-    // X: -50 -> 0, 50 -> width-1 (West -> East)
-    const gridX = ((worldX + 50) / 100) * (width - 1);
+    // Convert world (-halfWidth..halfWidth, -halfHeight..halfHeight) to grid coordinates
+    // X: -halfWidth -> 0, halfWidth -> width-1 (West -> East)
+    const gridX = ((worldX + world.halfWidth) / world.width) * (width - 1);
 
-    // Y: 50 -> 0, -50 -> height-1 (North -> South) - Data row 0 is North
-    const gridY = ((50 - worldY) / 100) * (height - 1);
+    // Y: halfHeight -> 0, -halfHeight -> height-1 (North -> South) - Data row 0 is North
+    const gridY = ((world.halfHeight - worldY) / world.height) * (height - 1);
 
     // Bounds check
     if (gridX < 0 || gridX >= width - 1 || gridY < 0 || gridY >= height - 1) return 0;
@@ -0,0 +1,679 @@
+import { TERRAIN_CONFIG } from '../config';
+import { TerrainData } from './terrain';
+import { calculateBoundsDimensions, latLonToUV, uvToLatLon } from './projection';
+
+/**
+ * Raster analysis on the overview DEM.
+ * All rasters share the TerrainData layout (row-major, row 0 = North) and use the real
+ * cell size of the bounds in meters.
+ */
+
+export type SlopeKernel = 'horn' | 'zevenbergen-thorne';
+
+export interface SlopeAspect {
+    width: number;
+    height: number;
+    slope: Float32Array;  // Degrees, 0 = flat
+    aspect: Float32Array; // Degrees clockwise from North the slope faces (downhill), -1 = flat
+}
+
+/**
+ * Cell size in meters of a DEM covering `bounds`
+ */
+export const getCellSize = (terrainData: TerrainData, bounds: typeof TERRAIN_CONFIG.BOUNDS) => {
+    const dimensions = calculateBoundsDimensions(bounds);
+    return {
+        dx: dimensions.width / (terrainData.width - 1),
+        dy: dimensions.height / (terrainData.height - 1),
+    };
+};
+
+/**
+ * Surface gradient of every cell with a Horn (3x3, weighted) or Zevenbergen-Thorne (4 neighbours) kernel.
+ * `visit` gets dz/dx towards East and dz/dy towards South (rows grow southwards), both in m/m.
+ * Edge cells reuse their nearest neighbours (clamped indices).
+ */
+const forEachGradient = (
+    terrainData: TerrainData,
+    bounds: typeof TERRAIN_CONFIG.BOUNDS,
+    kernel: SlopeKernel,
+    visit: (index: number, dzdx: number, dzdy: number) => void
+) => {
+    const { width, height, data } = terrainData;
+    const { dx, dy } = getCellSize(terrainData, bounds);
+
+    for (let y = 0; y < height; y++) {
+        const up = Math.max(y - 1, 0) * width;
+        const row = y * width;
+        const down = Math.min(y + 1, height - 1) * width;
+
+        for (let x = 0; x < width; x++) {
+            const left = Math.max(x - 1, 0);
+            const right = Math.min(x + 1, width - 1);
+
+            if (kernel === 'horn') {
+                const a = data[up + left], b = data[up + x], c = data[up + right];
+                const d = data[row + left], f = data[row + right];
+                const g = data[down + left], h = data[down + x], i = data[down + right];
+                visit(row + x, ((c + 2 * f + i) - (a + 2 * d + g)) / (8 * dx), ((g + 2 * h + i) - (a + 2 * b + c)) / (8 * dy));
+            } else {
+                visit(row + x, (data[row + right] - data[row + left]) / (2 * dx), (data[down + x] - data[up + x]) / (2 * dy));
+            }
+        }
+    }
+};
+
+/**
+ * Slope and aspect rasters
+ */
+export const computeSlopeAspect = (
+    terrainData: TerrainData,
+    bounds: typeof TERRAIN_CONFIG.BOUNDS,
+    kernel: SlopeKernel = TERRAIN_CONFIG.SURFACE_ANALYSIS.SLOPE_KERNEL
+): SlopeAspect => {
+    const { width, height } = terrainData;
+    const flatSlope = TERRAIN_CONFIG.SURFACE_ANALYSIS.FLAT_SLOPE_DEG;
+    const slope = new Float32Array(width * height);
+    const aspect = new Float32Array(width * height);
+
+    forEachGradient(terrainData, bounds, kernel, (k, dzdx, dzdy) => {
+        const slopeDeg = Math.atan(Math.sqrt(dzdx * dzdx + dzdy * dzdy)) * 180 / Math.PI;
+        slope[k] = slopeDeg;
+
+        if (slopeDeg < flatSlope) {
+            aspect[k] = -1;
+        } else {
+            // Downhill direction: East component -dzdx, North component +dzdy
+            const deg = Math.atan2(-dzdx, dzdy) * 180 / Math.PI;
+            aspect[k] = deg < 0 ? deg + 360 : deg;
+        }
+    });
+
+    return { width, height, slope, aspect };
+};
+
+export interface HillshadeOptions {
+    azimuth: number;            // Sun direction, degrees clockwise from North
+    altitude: number;           // Sun elevation above the horizon, degrees
+    multidirectional: boolean;  // Blend light from 225°, 270°, 315° and 360° weighted by aspect
+    zFactor?: number;           // Vertical exaggeration of the relief before shading
+}
+
+// Sun azimuths of the multidirectional (GDAL-style) hillshade
+const MULTIDIRECTIONAL_AZIMUTHS = [225, 270, 315, 360];
+
+/**
+ * Analytical hillshade: 0 = full shadow, 1 = facing the sun.
+ * Flat ground gets sin(altitude), independent of the azimuth.
+ */
+export const computeHillshade = (
+    terrainData: TerrainData,
+    bounds: typeof TERRAIN_CONFIG.BOUNDS,
+    options: HillshadeOptions,
+    kernel: SlopeKernel = TERRAIN_CONFIG.SURFACE_ANALYSIS.SLOPE_KERNEL
+) => {
+    const shade = new Float32Array(terrainData.width * terrainData.height);
+    const zFactor = options.zFactor ?? 1;
+    const altitude = options.altitude * Math.PI / 180;
+    const sinAlt = Math.sin(altitude);
+    const cosAlt = Math.cos(altitude);
+
+    // Light vectors in (East, North, Up)
+    const lights = (options.multidirectional ? MULTIDIRECTIONAL_AZIMUTHS : [options.azimuth]).map(azimuth => {
+        const az = azimuth * Math.PI / 180;
+        return { az, east: Math.sin(az) * cosAlt, north: Math.cos(az) * cosAlt };
+    });
+
+    forEachGradient(terrainData, bounds, kernel, (k, dzdx, dzdy) => {
+        // Upward surface normal (unnormalized): (-dz/dEast, -dz/dNorth, 1), dz/dNorth = -dz/dy
+        const nx = -dzdx * zFactor;
+        const ny = dzdy * zFactor;
+        const length = Math.sqrt(nx * nx + ny * ny + 1);
+
+        if (lights.length === 1) {
+            shade[k] = Math.max(0, (nx * lights[0].east + ny * lights[0].north + sinAlt) / length);
+            return;
+        }
+
+        // Each light is weighted by how perpendicular it is to the downhill direction,
+        // so every slope is lit from the side that shows it best. Weights sum to 2.
+        const aspect = Math.atan2(nx, ny);
+        let sum = 0;
+        for (const light of lights) {
+            const weight = 0.5 * (1 - Math.cos(2 * (aspect - light.az)));
+            sum += weight * Math.max(0, (nx * light.east + ny * light.north + sinAlt) / length);
+        }
+        shade[k] = sum / 2;
+    });
+
+    return shade;
+};
+
+const EARTH_RADIUS = 6371000;
+
+/**
+ * Bilinear elevation at fractional grid coordinates (clamped to the grid)
+ */
+const sampleElevation = (terrainData: TerrainData, gx: number, gy: number) => {
+    const { width, height, data } = terrainData;
+    const fx = Math.max(0, Math.min(width - 1, gx));
+    const fy = Math.max(0, Math.min(height - 1, gy));
+    const x0 = Math.floor(fx), y0 = Math.floor(fy);
+    const x1 = Math.min(x0 + 1, width - 1), y1 = Math.min(y0 + 1, height - 1);
+    const tx = fx - x0, ty = fy - y0;
+    const top = data[y0 * width + x0] * (1 - tx) + data[y0 * width + x1] * tx;
+    const bottom = data[y1 * width + x0] * (1 - tx) + data[y1 * width + x1] * tx;
+    return top * (1 - ty) + bottom * ty;
+};
+
+export interface ViewshedOptions {
+    lat: number;
+    lon: number;
+    observerHeight: number; // Eye / tower height above ground in meters
+    targetHeight: number;   // Height above ground that has to be seen, in meters
+    maxRadius: number;      // Analysis radius in meters, 0 = whole area
+}
+
+export const VIEWSHED_HIDDEN = 0;
+export const VIEWSHED_VISIBLE = 1;
+export const VIEWSHED_OUTSIDE = 255;
+
+export interface Viewshed {
+    width: number;
+    height: number;
+    visible: Uint8Array; // VIEWSHED_VISIBLE / VIEWSHED_HIDDEN, VIEWSHED_OUTSIDE beyond the radius
+    observerElevation: number; // Ground elevation under the observer in meters
+    visibleAreaKm2: number;
+}
+
+/**
+ * Visibility of every DEM cell from an observer (R2-style sweep).
+ * Rays run from the observer to each cell on the border of the analysis window; along a ray a cell is
+ * visible when its target point is not below the steepest terrain angle seen so far.
+ * Earth curvature and atmospheric refraction lower distant terrain (VIEWSHED.EARTH_CURVATURE).
+ */
+export const computeViewshed = (terrainData: TerrainData, bounds: typeof TERRAIN_CONFIG.BOUNDS, options: ViewshedOptions): Viewshed => {
+    const { width, height } = terrainData;
+    const { dx, dy } = getCellSize(terrainData, bounds);
+    const { EARTH_CURVATURE, REFRACTION_COEFFICIENT } = TERRAIN_CONFIG.VIEWSHED;
+    const curvatureFactor = EARTH_CURVATURE ? (1 - REFRACTION_COEFFICIENT) / (2 * EARTH_RADIUS) : 0;
+
+    const { u, v } = latLonToUV(options.lat, options.lon, bounds);
+    const ox = Math.max(0, Math.min(1, u)) * (width - 1);
+    const oy = Math.max(0, Math.min(1, v)) * (height - 1);
+    const observerElevation = sampleElevation(terrainData, ox, oy);
+    const eye = observerElevation + options.observerHeight;
+
+    const maxRadius = options.maxRadius > 0 ? options.maxRadius : Infinity;
+    const visible = new Uint8Array(width * height);
+
+    // Analysis window and cells beyond the radius
+    const x0 = Math.max(0, Math.floor(ox - maxRadius / dx));
+    const x1 = Math.min(width - 1, Math.ceil(ox + maxRadius / dx));
+    const y0 = Math.max(0, Math.floor(oy - maxRadius / dy));
+    const y1 = Math.min(height - 1, Math.ceil(oy + maxRadius / dy));
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const distance = Math.hypot((x - ox) * dx, (y - oy) * dy);
+            visible[y * width + x] = distance > maxRadius ? VIEWSHED_OUTSIDE : VIEWSHED_HIDDEN;
+        }
+    }
+    visible[Math.round(oy) * width + Math.round(ox)] = VIEWSHED_VISIBLE;
+
+    const castRay = (tx: number, ty: number) => {
+        const steps = Math.ceil(Math.max(Math.abs(tx - ox), Math.abs(ty - oy)));
+        let maxAngle = -Infinity;
+        for (let step = 1; step <= steps; step++) {
+            const gx = ox + (tx - ox) * step / steps;
+            const gy = oy + (ty - oy) * step / steps;
+            const distance = Math.hypot((gx - ox) * dx, (gy - oy) * dy);
+            if (distance > maxRadius) break;
+
+            const ground = sampleElevation(terrainData, gx, gy) - distance * distance * curvatureFactor;
+            const k = Math.round(gy) * width + Math.round(gx);
+            if ((ground + options.targetHeight - eye) / distance >= maxAngle) visible[k] = VIEWSHED_VISIBLE;
+            maxAngle = Math.max(maxAngle, (ground - eye) / distance);
+        }
+    };
+
+    for (let x = x0; x <= x1; x++) {
+        castRay(x, y0);
+        castRay(x, y1);
+    }
+    for (let y = y0 + 1; y < y1; y++) {
+        castRay(x0, y);
+        castRay(x1, y);
+    }
+
+    let visibleCells = 0;
+    for (let i = 0; i < visible.length; i++) {
+        if (visible[i] === VIEWSHED_VISIBLE) visibleCells++;
+    }
+
+    return { width, height, visible, observerElevation, visibleAreaKm2: visibleCells * dx * dy / 1e6 };
+};
+
+export interface SightPoint {
+    lat: number;
+    lon: number;
+    height: number; // Meters above ground
+}
+
+export interface LineOfSightSample {
+    lat: number;
+    lon: number;
+    distance: number; // Meters from the start point
+    ground: number;   // Terrain elevation in meters
+    bulge: number;    // Earth bulge under the sight line in meters (0 without curvature)
+    sight: number;    // Elevation of the straight sight line in meters
+}
+
+export interface LineOfSight {
+    samples: LineOfSightSample[];
+    distance: number;       // Horizontal length in meters
+    blocked: boolean;
+    obstruction: LineOfSightSample | null; // First sample where the terrain rises above the sight line
+    obstructionIndex: number;              // Index of `obstruction` in `samples`, -1 when clear
+    minClearance: number;   // Smallest sight line height above the terrain (negative when blocked)
+}
+
+/**
+ * Sight line between two points above the terrain, sampled about once per DEM cell.
+ * With VIEWSHED.EARTH_CURVATURE the terrain is raised by the Earth bulge between the end points.
+ */
+export const computeLineOfSight = (terrainData: TerrainData, bounds: typeof TERRAIN_CONFIG.BOUNDS, from: SightPoint, to: SightPoint): LineOfSight => {
+    const { width, height } = terrainData;
+    const { dx, dy } = getCellSize(terrainData, bounds);
+    const { EARTH_CURVATURE, REFRACTION_COEFFICIENT } = TERRAIN_CONFIG.VIEWSHED;
+    const curvatureFactor = EARTH_CURVATURE ? (1 - REFRACTION_COEFFICIENT) / (2 * EARTH_RADIUS) : 0;
+
+    const start = latLonToUV(from.lat, from.lon, bounds);
+    const end = latLonToUV(to.lat, to.lon, bounds);
+    const sx = start.u * (width - 1), sy = start.v * (height - 1);
+    const ex = end.u * (width - 1), ey = end.v * (height - 1);
+    const distance = Math.hypot((ex - sx) * dx, (ey - sy) * dy);
+    const steps = Math.max(1, Math.ceil(Math.max(Math.abs(ex - sx), Math.abs(ey - sy))));
+
+    const startEye = sampleElevation(terrainData, sx, sy) + from.height;
+    const endEye = sampleElevation(terrainData, ex, ey) + to.height;
+
+    const samples: LineOfSightSample[] = [];
+    let obstructionIndex = -1;
+    let minClearance = Infinity;
+    for (let step = 0; step <= steps; step++) {
+        const t = step / steps;
+        const d = t * distance;
+        const bulge = d * (distance - d) * curvatureFactor;
+        const ground = sampleElevation(terrainData, sx + (ex - sx) * t, sy + (ey - sy) * t);
+        const sight = startEye + (endEye - startEye) * t;
+        const { lat, lon } = uvToLatLon(start.u + (end.u - start.u) * t, start.v + (end.v - start.v) * t, bounds);
+        samples.push({ lat, lon, distance: d, ground, bulge, sight });
+
+        // The end points themselves cannot block
+        if (step === 0 || step === steps) continue;
+        const clearance = sight - ground - bulge;
+        minClearance = Math.min(minClearance, clearance);
+        if (obstructionIndex < 0 && clearance < 0) obstructionIndex = step;
+    }
+
+    return {
+        samples,
+        distance,
+        blocked: obstructionIndex >= 0,
+        obstruction: obstructionIndex >= 0 ? samples[obstructionIndex] : null,
+        obstructionIndex,
+        minClearance: Number.isFinite(minClearance) ? minClearance : 0,
+    };
+};
+
+export interface ProfileSample {
+    lat: number;
+    lon: number;
+    distance: number;  // Meters along the path
+    elevation: number; // Meters
+}
+
+export interface ElevationProfile {
+    samples: ProfileSample[];
+    totalDistance: number;
+    ascent: number;    // Cumulative climb in meters
+    descent: number;   // Cumulative drop in meters (positive)
+    maxGrade: number;  // Steepest grade between samples, percent (sign-less)
+    minElevation: number;
+    maxElevation: number;
+}
+
+/**
+ * Elevation profile along a polyline (at least two vertices), sampled about once per DEM cell on every segment
+ */
+export const computeProfile = (terrainData: TerrainData, bounds: typeof TERRAIN_CONFIG.BOUNDS, vertices: { lat: number; lon: number }[]): ElevationProfile => {
+    const { width, height } = terrainData;
+    const { dx, dy } = getCellSize(terrainData, bounds);
+    const samples: ProfileSample[] = [];
+    let distance = 0;
+
+    for (let i = 0; i < vertices.length - 1; i++) {
+        const a = latLonToUV(vertices[i].lat, vertices[i].lon, bounds);
+        const b = latLonToUV(vertices[i + 1].lat, vertices[i + 1].lon, bounds);
+        const ax = a.u * (width - 1), ay = a.v * (height - 1);
+        const bx = b.u * (width - 1), by = b.v * (height - 1);
+        const segmentLength = Math.hypot((bx - ax) * dx, (by - ay) * dy);
+        const steps = Math.max(1, Math.ceil(Math.max(Math.abs(bx - ax), Math.abs(by - ay))));
+
+        // Each segment starts where the previous one ended
+        for (let step = i === 0 ? 0 : 1; step <= steps; step++) {
+            const t = step / steps;
+            const { lat, lon } = uvToLatLon(a.u + (b.u - a.u) * t, a.v + (b.v - a.v) * t, bounds);
+            samples.push({ lat, lon, distance: distance + segmentLength * t, elevation: sampleElevation(terrainData, ax + (bx - ax) * t, ay + (by - ay) * t) });
+        }
+        distance += segmentLength;
+    }
+
+    let ascent = 0;
+    let descent = 0;
+    let maxGrade = 0;
+    let minElevation = samples.length ? Infinity : 0;
+    let maxElevation = samples.length ? -Infinity : 0;
+    samples.forEach((sample, i) => {
+        minElevation = Math.min(minElevation, sample.elevation);
+        maxElevation = Math.max(maxElevation, sample.elevation);
+        if (i === 0) return;
+        const rise = sample.elevation - samples[i - 1].elevation;
+        const run = sample.distance - samples[i - 1].distance;
+        if (rise > 0) ascent += rise;
+        else descent -= rise;
+        if (run > 0) maxGrade = Math.max(maxGrade, Math.abs(rise / run) * 100);
+    });
+
+    return { samples, totalDistance: distance, ascent, descent, maxGrade, minElevation, maxElevation };
+};
+
+export const profileToCsv = (profile: ElevationProfile) => {
+    const rows = profile.samples.map(sample =>
+        `${sample.distance.toFixed(2)},${sample.lat.toFixed(7)},${sample.lon.toFixed(7)},${sample.elevation.toFixed(2)}`
+    );
+    return ['distance_m,lat,lon,elevation_m', ...rows].join('\n');
+};
+
+/**
+ * Cells whose centre lies inside a lat/lon polygon (even-odd rule), scanning only its bounding box
+ */
+const rasterizePolygon = (terrainData: TerrainData, bounds: typeof TERRAIN_CONFIG.BOUNDS, polygon: { lat: number; lon: number }[]) => {
+    const { width, height } = terrainData;
+    const ring = polygon.map(p => {
+        const { u, v } = latLonToUV(p.lat, p.lon, bounds);
+        return [u * (width - 1), v * (height - 1)];
+    });
+    const xMin = Math.max(0, Math.ceil(Math.min(...ring.map(p => p[0]))));
+    const xMax = Math.min(width - 1, Math.floor(Math.max(...ring.map(p => p[0]))));
+    const yMin = Math.max(0, Math.ceil(Math.min(...ring.map(p => p[1]))));
+    const yMax = Math.min(height - 1, Math.floor(Math.max(...ring.map(p => p[1]))));
+
+    const mask = new Uint8Array(width * height);
+    for (let y = yMin; y <= yMax; y++) {
+        for (let x = xMin; x <= xMax; x++) {
+            let isInside = false;
+            for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+                const [xi, yi] = ring[i];
+                const [xj, yj] = ring[j];
+                if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) isInside = !isInside;
+            }
+            if (isInside) mask[y * width + x] = 1;
+        }
+    }
+    return { mask, xMin, xMax, yMin, yMax };
+};
+
+export interface DesignPoint {
+    lat: number;
+    lon: number;
+    elevation: number | null; // null = ground elevation at the point
+}
+
+/**
+ * Finished surface of an earthwork: a level pad, or a sloped plane through three points
+ */
+export type DesignSurface =
+    | { type: 'flat'; elevation: number | null } // null = mean ground elevation inside the polygon
+    | { type: 'plane'; points: DesignPoint[] };
+
+export interface CutFill {
+    width: number;
+    height: number;
+    difference: Float32Array; // Design minus ground (m): > 0 fill, < 0 cut, NaN outside the polygon
+    cutVolume: number;        // m³ of ground above the design surface
+    fillVolume: number;       // m³ of space below the design surface
+    netVolume: number;        // fill - cut: > 0 needs material brought in
+    area: number;             // m² inside the polygon
+    maxCut: number;           // Deepest cut (m, positive)
+    maxFill: number;          // Highest fill (m)
+    designPoints: { lat: number; lon: number; elevation: number }[]; // Resolved plane points (empty for a flat pad)
+    designElevation: number | null; // Resolved pad elevation (null for a plane)
+}
+
+/**
+ * Cut and fill between the DEM and a design surface inside a polygon (at least three vertices).
+ * Returns null if the design plane points are collinear.
+ */
+export const computeCutFill = (
+    terrainData: TerrainData,
+    bounds: typeof TERRAIN_CONFIG.BOUNDS,
+    polygon: { lat: number; lon: number }[],
+    design: DesignSurface
+): CutFill | null => {
+    const { width, height, data } = terrainData;
+    const { dx, dy } = getCellSize(terrainData, bounds);
+    const toGrid = (lat: number, lon: number) => {
+        const { u, v } = latLonToUV(lat, lon, bounds);
+        return [u * (width - 1), v * (height - 1)];
+    };
+
+    const { mask: inside, xMin, xMax, yMin, yMax } = rasterizePolygon(terrainData, bounds, polygon);
+    let cells = 0;
+    let groundSum = 0;
+    for (let i = 0; i < inside.length; i++) {
+        if (!inside[i]) continue;
+        cells++;
+        groundSum += data[i];
+    }
+
+    // Design elevation as a function of grid coordinates
+    let designAt: (x: number, y: number) => number;
+    let designElevation: number | null = null;
+    const designPoints: CutFill['designPoints'] = [];
+    if (design.type === 'flat') {
+        const elevation = design.elevation ?? (cells > 0 ? groundSum / cells : 0);
+        designElevation = elevation;
+        designAt = () => elevation;
+    } else {
+        if (design.points.length < 3) return null;
+        const points = design.points.slice(0, 3).map(p => {
+            const [gx, gy] = toGrid(p.lat, p.lon);
+            const elevation = p.elevation ?? sampleElevation(terrainData, gx, gy);
+            designPoints.push({ lat: p.lat, lon: p.lon, elevation });
+            return [gx * dx, gy * dy, elevation];
+        });
+
+        // z = a x + b y + c in meters, solved with Cramer's rule
+        const [[x1, y1, z1], [x2, y2, z2], [x3, y3, z3]] = points;
+        const det = (x2 - x1) * (y3 - y1) - (x3 - x1) * (y2 - y1);
+        if (Math.abs(det) < 1e-6) return null;
+        const a = ((z2 - z1) * (y3 - y1) - (z3 - z1) * (y2 - y1)) / det;
+        const b = ((x2 - x1) * (z3 - z1) - (x3 - x1) * (z2 - z1)) / det;
+        const c = z1 - a * x1 - b * y1;
+        designAt = (x, y) => a * x * dx + b * y * dy + c;
+    }
+
+    const difference = new Float32Array(width * height).fill(NaN);
+    const cellArea = dx * dy;
+    let cutVolume = 0;
+    let fillVolume = 0;
+    let maxCut = 0;
+    let maxFill = 0;
+    for (let y = yMin; y <= yMax; y++) {
+        for (let x = xMin; x <= xMax; x++) {
+            const i = y * width + x;
+            if (!inside[i]) continue;
+            const diff = designAt(x, y) - data[i];
+            difference[i] = diff;
+            if (diff > 0) {
+                fillVolume += diff * cellArea;
+                maxFill = Math.max(maxFill, diff);
+            } else {
+                cutVolume -= diff * cellArea;
+                maxCut = Math.max(maxCut, -diff);
+            }
+        }
+    }
+
+    return {
+        width, height, difference, cutVolume, fillVolume, netVolume: fillVolume - cutVolume,
+        area: cells * cellArea, maxCut, maxFill, designPoints, designElevation,
+    };
+};
+
+/**
+ * Area of interest for statistics: the terrain shape, or a drawn polygon inside it
+ */
+export interface StatisticsRegion {
+    shape: 'rectangle' | 'ellipse';
+    polygon?: { lat: number; lon: number }[] | null; // At least three vertices
+}
+
+export interface TerrainStatistics {
+    cellCount: number;
+    min: number;
+    max: number;
+    mean: number;
+    median: number;
+    stdDev: number;
+    histogram: { start: number; binSize: number; counts: number[] };
+    hypsometricCurve: { area: number; height: number }[]; // Relative area above (0..1) against relative height (0..1)
+    hypsometricIntegral: number;   // (mean - min) / (max - min)
+    planimetricArea: number;       // m²
+    surfaceArea: number;           // m², following the slope of every cell
+    ruggedness: number;            // Mean Terrain Ruggedness Index (Riley et al. 1999), m
+}
+
+/**
+ * Elevation statistics of the cells inside a region. Returns null for an empty region.
+ */
+export const computeTerrainStatistics = (
+    terrainData: TerrainData,
+    bounds: typeof TERRAIN_CONFIG.BOUNDS,
+    region: StatisticsRegion,
+    bins: number = TERRAIN_CONFIG.STATISTICS.HISTOGRAM_BINS
+): TerrainStatistics | null => {
+    const { width, height, data } = terrainData;
+    const { dx, dy } = getCellSize(terrainData, bounds);
+
+    let mask: Uint8Array;
+    if (region.polygon && region.polygon.length >= 3) {
+        mask = rasterizePolygon(terrainData, bounds, region.polygon).mask;
+    } else {
+        mask = new Uint8Array(width * height).fill(1);
+    }
+    if (region.shape === 'ellipse') {
+        for (let y = 0; y < height; y++) {
+            const ny = (y / (height - 1)) * 2 - 1;
+            for (let x = 0; x < width; x++) {
+                const nx = (x / (width - 1)) * 2 - 1;
+                if (nx * nx + ny * ny > 1) mask[y * width + x] = 0;
+            }
+        }
+    }
+
+    let cellCount = 0;
+    for (let i = 0; i < mask.length; i++) cellCount += mask[i];
+    if (cellCount === 0) return null;
+
+    const values = new Float32Array(cellCount);
+    let sum = 0;
+    for (let i = 0, k = 0; i < mask.length; i++) {
+        if (!mask[i]) continue;
+        values[k++] = data[i];
+        sum += data[i];
+    }
+    values.sort();
+    const min = values[0];
+    const max = values[cellCount - 1];
+    const mean = sum / cellCount;
+    const median = cellCount % 2 ? values[(cellCount - 1) / 2] : (values[cellCount / 2 - 1] + values[cellCount / 2]) / 2;
+    let squares = 0;
+    for (let k = 0; k < cellCount; k++) squares += (values[k] - mean) * (values[k] - mean);
+    const stdDev = Math.sqrt(squares / cellCount);
+
+    const range = max - min;
+    const binSize = range > 0 ? range / bins : 1;
+    const counts = new Array<number>(bins).fill(0);
+    for (let k = 0; k < cellCount; k++) {
+        counts[Math.min(bins - 1, Math.floor((values[k] - min) / binSize))]++;
+    }
+
+    // Share of the area at or above each relative height, read off the sorted elevations
+    const hypsometricCurve: TerrainStatistics['hypsometricCurve'] = [];
+    let below = 0;
+    for (let step = 0; step <= 100; step++) {
+        const threshold = min + range * (step / 100);
+        while (below < cellCount && values[below] < threshold) below++;
+        hypsometricCurve.push({ area: (cellCount - below) / cellCount, height: step / 100 });
+    }
+
+    let surfaceArea = 0;
+    forEachGradient(terrainData, bounds, 'horn', (i, dzdx, dzdy) => {
+        if (mask[i]) surfaceArea += dx * dy * Math.sqrt(1 + dzdx * dzdx + dzdy * dzdy);
+    });
+
+    let triSum = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = y * width + x;
+            if (!mask[i]) continue;
+            let squared = 0;
+            for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1); ny++) {
+                for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
+                    const diff = data[ny * width + nx] - data[i];
+                    squared += diff * diff;
+                }
+            }
+            triSum += Math.sqrt(squared);
+        }
+    }
+
+    return {
+        cellCount, min, max, mean, median, stdDev,
+        histogram: { start: min, binSize, counts },
+        hypsometricCurve,
+        hypsometricIntegral: range > 0 ? (mean - min) / range : 0,
+        planimetricArea: cellCount * dx * dy,
+        surfaceArea,
+        ruggedness: triSum / cellCount,
+    };
+};
+
+export const slopeDegreesToPercent = (degrees: number) => Math.tan(degrees * Math.PI / 180) * 100;
+
+/**
+ * Class index per cell: the first break whose `max` the value is below
+ */
+export const classifySlope = (slope: Float32Array, unit: 'degrees' | 'percent', classes: { max: number }[]) => {
+    const out = new Uint8Array(slope.length);
+    for (let i = 0; i < slope.length; i++) {
+        const value = unit === 'percent' ? slopeDegreesToPercent(slope[i]) : slope[i];
+        let c = 0;
+        while (c < classes.length - 1 && value >= classes[c].max) c++;
+        out[i] = c;
+    }
+    return out;
+};
+
+/**
+ * Compass sector per cell (0 = N, 1 = NE ... 7 = NW), 8 = flat
+ */
+export const classifyAspect = (aspect: Float32Array) => {
+    const out = new Uint8Array(aspect.length);
+    for (let i = 0; i < aspect.length; i++) {
+        out[i] = aspect[i] < 0 ? 8 : Math.round(aspect[i] / 45) % 8;
+    }
+    return out;
+};
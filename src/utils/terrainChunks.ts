@@ -0,0 +1,318 @@
+import * as THREE from 'three';
+import { TERRAIN_CONFIG } from '../config';
+import { TerrainData } from './terrain';
+import { uvToLatLon, WorldExtents } from './projection';
+import { GeometryBuffers } from './terrainGeometry';
+import { buildRtinTriangles, isRtinGridSize } from './rtin';
+
+/**
+ * Quadtree surface chunks.
+ * The terrain plane (see getWorldExtents) is split recursively into quarters. Every chunk is a
+ * CHUNK_RESOLUTION x CHUNK_RESOLUTION grid sampled from the DEM zoom that matches its vertex spacing,
+ * with skirts hanging off its edges to hide cracks against coarser neighbours.
+ * Extents are fractions of the full bounds: u = 0 West .. 1 East, v = 0 North .. 1 South
+ * (v is linear in Web Mercator Y, like TerrainData rows).
+ */
+
+export interface ChunkNode {
+    id: string;
+    level: number;
+    x: number;
+    y: number;
+}
+
+export interface ChunkExtent {
+    u0: number;
+    u1: number;
+    v0: number;
+    v1: number;
+}
+
+/**
+ * Worker output for one chunk. `apron` holds (resolution + 2)^2 heights including one sample
+ * outside every edge, so normals can be computed without seams between chunks.
+ */
+export interface ChunkBuffers {
+    geometry: GeometryBuffers;
+    apron: Float32Array;
+    vertexGrid: Uint32Array;
+    resolution: number;
+    zoom: number;
+}
+
+export const ROOT_CHUNK: ChunkNode = { id: '0/0/0', level: 0, x: 0, y: 0 };
+
+export const getChunkExtent = ({ level, x, y }: ChunkNode): ChunkExtent => {
+    const n = Math.pow(2, level);
+    return { u0: x / n, u1: (x + 1) / n, v0: y / n, v1: (y + 1) / n };
+};
+
+export const getChunkChildren = ({ level, x, y }: ChunkNode): ChunkNode[] => {
+    const children: ChunkNode[] = [];
+    for (let dy = 0; dy < 2; dy++) {
+        for (let dx = 0; dx < 2; dx++) {
+            const cx = x * 2 + dx;
+            const cy = y * 2 + dy;
+            children.push({ id: `${level + 1}/${cx}/${cy}`, level: level + 1, x: cx, y: cy });
+        }
+    }
+    return children;
+};
+
+/**
+ * Geographic bounds of an extent (may reach outside the terrain bounds for aprons)
+ */
+export const getExtentBounds = (bounds: typeof TERRAIN_CONFIG.BOUNDS, { u0, u1, v0, v1 }: ChunkExtent): typeof TERRAIN_CONFIG.BOUNDS => {
+    const northWest = uvToLatLon(u0, v0, bounds);
+    const southEast = uvToLatLon(u1, v1, bounds);
+    return {
+        latMin: southEast.lat,
+        latMax: northWest.lat,
+        lonMin: northWest.lon,
+        lonMax: southEast.lon,
+    };
+};
+
+/**
+ * Extent grown by one vertex spacing on every side (the apron)
+ */
+export const getApronExtent = (extent: ChunkExtent, resolution: number): ChunkExtent => {
+    const du = (extent.u1 - extent.u0) / (resolution - 1);
+    const dv = (extent.v1 - extent.v0) / (resolution - 1);
+    return { u0: extent.u0 - du, u1: extent.u1 + du, v0: extent.v0 - dv, v1: extent.v1 + dv };
+};
+
+/**
+ * DEM zoom whose pixel size is just below the chunk vertex spacing
+ */
+export const getChunkDemZoom = (spacingMeters: number, latMid: number) => {
+    const metersPerPixelZ0 = 156543.03 * Math.cos(latMid * Math.PI / 180);
+    const zoom = Math.ceil(Math.log2(metersPerPixelZ0 / spacingMeters));
+    return Math.max(1, Math.min(zoom, TERRAIN_CONFIG.DEM_MAX_LEVEL));
+};
+
+/**
+ * Bilinearly resample `values` (a grid covering `gridExtent`) onto a size x size grid spanning `extent`
+ */
+const resampleGrid = (values: ArrayLike<number>, width: number, height: number, gridExtent: ChunkExtent, extent: ChunkExtent, size: number): Float32Array => {
+    const out = new Float32Array(size * size);
+
+    for (let row = 0; row < size; row++) {
+        const v = extent.v0 + (row / (size - 1)) * (extent.v1 - extent.v0);
+        const gy = Math.max(0, Math.min(height - 1, ((v - gridExtent.v0) / (gridExtent.v1 - gridExtent.v0)) * (height - 1)));
+        const y0 = Math.min(Math.floor(gy), height - 2);
+        const fy = gy - y0;
+
+        for (let col = 0; col < size; col++) {
+            const u = extent.u0 + (col / (size - 1)) * (extent.u1 - extent.u0);
+            const gx = Math.max(0, Math.min(width - 1, ((u - gridExtent.u0) / (gridExtent.u1 - gridExtent.u0)) * (width - 1)));
+            const x0 = Math.min(Math.floor(gx), width - 2);
+            const fx = gx - x0;
+
+            const h00 = values[y0 * width + x0];
+            const h10 = values[y0 * width + x0 + 1];
+            const h01 = values[(y0 + 1) * width + x0];
+            const h11 = values[(y0 + 1) * width + x0 + 1];
+            const top = h00 * (1 - fx) + h10 * fx;
+            const bottom = h01 * (1 - fx) + h11 * fx;
+            out[row * size + col] = top * (1 - fy) + bottom * fy;
+        }
+    }
+    return out;
+};
+
+/**
+ * Bilinearly resample a grid covering `gridExtent` onto the apron grid of `extent`
+ */
+export const sampleChunkApron = (grid: TerrainData, gridExtent: ChunkExtent, extent: ChunkExtent, resolution: number): Float32Array =>
+    resampleGrid(grid.data, grid.width, grid.height, gridExtent, getApronExtent(extent, resolution), resolution + 2);
+
+/**
+ * Share (0..1) of interpolated void cells under every chunk grid point, or null when the grid has no voids
+ */
+export const sampleChunkVoids = (grid: TerrainData, gridExtent: ChunkExtent, extent: ChunkExtent, resolution: number): Float32Array | null => {
+    if (!grid.valid.includes(0)) return null;
+    const voids = resampleGrid(grid.valid, grid.width, grid.height, gridExtent, extent, resolution);
+    for (let i = 0; i < voids.length; i++) voids[i] = 1 - voids[i];
+    return voids;
+};
+
+/**
+ * Mesh for one chunk plus skirts.
+ * Surface triangles come from the regular grid or, with MESH.MODE 'rtin', from an adaptive
+ * RTIN triangulation that drops vertices within MESH.RTIN_MAX_ERROR meters.
+ * Positions are in the shared terrain plane (so the global UVs line up with the base/detail
+ * map textures and the ellipse alpha mask); Z is left at 0 and set by the appearance pass.
+ * The `skirt` attribute holds how far (meters) a vertex hangs below its surface vertex.
+ * `vertexGrid` maps every vertex back to its grid index (row * resolution + col).
+ * `voids` (see sampleChunkVoids) becomes the `filled` attribute used to mark interpolated areas.
+ */
+export const buildChunkGeometryBuffers = (apron: Float32Array, extent: ChunkExtent, resolution: number, skirtDepth: number, world: WorldExtents, voids: Float32Array | null = null) => {
+    const apronRes = resolution + 2;
+
+    // Chunk heights without the apron
+    const heights = new Float32Array(resolution * resolution);
+    for (let row = 0; row < resolution; row++) {
+        heights.set(apron.subarray((row + 1) * apronRes + 1, (row + 1) * apronRes + 1 + resolution), row * resolution);
+    }
+
+    const useRtin = TERRAIN_CONFIG.MESH.MODE === 'rtin' && isRtinGridSize(resolution);
+    const triangles = useRtin ? buildRtinTriangles(heights, resolution, TERRAIN_CONFIG.MESH.RTIN_MAX_ERROR) : buildGridTriangles(resolution);
+
+    // Keep only the grid points referenced by the triangulation
+    const vertexOf = new Int32Array(resolution * resolution).fill(-1);
+    const surfaceGrid: number[] = [];
+    triangles.forEach(g => {
+        if (vertexOf[g] === -1) {
+            vertexOf[g] = surfaceGrid.length;
+            surfaceGrid.push(g);
+        }
+    });
+
+    // Perimeter walked clockwise from the North-West corner (used points only)
+    const ring: number[] = [];
+    for (let col = 0; col < resolution - 1; col++) ring.push(col);
+    for (let row = 0; row < resolution - 1; row++) ring.push(row * resolution + resolution - 1);
+    for (let col = resolution - 1; col > 0; col--) ring.push((resolution - 1) * resolution + col);
+    for (let row = resolution - 1; row > 0; row--) ring.push(row * resolution);
+    const usedRing = ring.filter(g => vertexOf[g] !== -1);
+
+    const surfaceCount = surfaceGrid.length;
+    const perimeter = usedRing.length;
+    const vertexCount = surfaceCount + perimeter;
+
+    const positions = new Float32Array(vertexCount * 3);
+    const normals = new Float32Array(vertexCount * 3);
+    const uvs = new Float32Array(vertexCount * 2);
+    const heightData = new Float32Array(vertexCount);
+    const skirt = new Float32Array(vertexCount);
+    const vertexGrid = new Uint32Array(vertexCount);
+    const filled = voids ? new Float32Array(vertexCount) : undefined;
+
+    const writeVertex = (i: number, g: number) => {
+        const row = Math.floor(g / resolution);
+        const col = g % resolution;
+        const u = extent.u0 + (col / (resolution - 1)) * (extent.u1 - extent.u0);
+        const v = extent.v0 + (row / (resolution - 1)) * (extent.v1 - extent.v0);
+        positions[i * 3] = (u - 0.5) * world.width;
+        positions[i * 3 + 1] = (0.5 - v) * world.height;
+        normals[i * 3 + 2] = 1;
+        uvs[i * 2] = u;
+        uvs[i * 2 + 1] = 1 - v;
+        heightData[i] = heights[g];
+        vertexGrid[i] = g;
+        if (filled && voids) filled[i] = voids[g];
+    };
+
+    surfaceGrid.forEach((g, i) => writeVertex(i, g));
+    usedRing.forEach((g, k) => {
+        writeVertex(surfaceCount + k, g);
+        skirt[surfaceCount + k] = skirtDepth;
+    });
+
+    const index = new Uint32Array(triangles.length + perimeter * 6);
+    let n = 0;
+    triangles.forEach(g => { index[n++] = vertexOf[g]; });
+    for (let k = 0; k < perimeter; k++) {
+        const top0 = vertexOf[usedRing[k]];
+        const top1 = vertexOf[usedRing[(k + 1) % perimeter]];
+        const bottom0 = surfaceCount + k;
+        const bottom1 = surfaceCount + (k + 1) % perimeter;
+        index[n++] = top0; index[n++] = bottom0; index[n++] = top1;
+        index[n++] = bottom0; index[n++] = bottom1; index[n++] = top1;
+    }
+
+    const geometry: GeometryBuffers = { positions, normals, uvs, index, heightData, skirt, filled };
+    return { geometry, vertexGrid };
+};
+
+/**
+ * Regular grid triangulation (same as THREE.PlaneGeometry), as grid indices
+ */
+const buildGridTriangles = (resolution: number) => {
+    const triangles = new Uint32Array((resolution - 1) * (resolution - 1) * 6);
+    let n = 0;
+    for (let row = 0; row < resolution - 1; row++) {
+        for (let col = 0; col < resolution - 1; col++) {
+            const a = row * resolution + col;
+            const b = a + resolution;
+            const c = b + 1;
+            const d = a + 1;
+            triangles[n++] = a; triangles[n++] = b; triangles[n++] = d;
+            triangles[n++] = b; triangles[n++] = c; triangles[n++] = d;
+        }
+    }
+    return triangles;
+};
+
+/**
+ * Recompute chunk normals for the current exaggeration from the apron heights
+ * (central differences, so adjacent chunks agree along shared edges)
+ */
+export const updateChunkNormals = (geo: THREE.BufferGeometry, chunk: ChunkBuffers, extent: ChunkExtent, multiplier: number, world: WorldExtents) => {
+    const { apron, resolution, vertexGrid } = chunk;
+    const apronRes = resolution + 2;
+    const normalAttr = geo.getAttribute('normal');
+    const normals = normalAttr.array as Float32Array;
+
+    // Vertex spacing in plane units (X/Y) - heights are meters * multiplier in the same geometry space
+    const dx = ((extent.u1 - extent.u0) * world.width) / (resolution - 1);
+    const dy = ((extent.v1 - extent.v0) * world.height) / (resolution - 1);
+
+    // Skirt vertices map to their surface grid point, so seams shade like the surface
+    for (let i = 0; i < vertexGrid.length; i++) {
+        const row = Math.floor(vertexGrid[i] / resolution);
+        const col = vertexGrid[i] % resolution;
+        const a = (row + 1) * apronRes + col + 1;
+        const dzdx = (apron[a + 1] - apron[a - 1]) * multiplier / (2 * dx);
+        // Row index grows southwards, local Y grows northwards
+        const dzdy = (apron[a - apronRes] - apron[a + apronRes]) * multiplier / (2 * dy);
+        const len = Math.sqrt(dzdx * dzdx + dzdy * dzdy + 1);
+        normals[i * 3] = -dzdx / len;
+        normals[i * 3 + 1] = -dzdy / len;
+        normals[i * 3 + 2] = 1 / len;
+    }
+    normalAttr.needsUpdate = true;
+};
+
+/**
+ * Pick the chunks to draw.
+ * A chunk is refined when `shouldSplit` says so, but only once all four children are loaded;
+ * until then the parent keeps rendering. Missing children are returned in `wanted`.
+ */
+export const selectChunks = (isReady: (node: ChunkNode) => boolean, shouldSplit: (node: ChunkNode) => boolean) => {
+    const render: ChunkNode[] = [];
+    const wanted: ChunkNode[] = [];
+
+    if (!isReady(ROOT_CHUNK)) {
+        return { render, wanted: [ROOT_CHUNK] };
+    }
+
+    const visit = (node: ChunkNode) => {
+        if (!shouldSplit(node)) {
+            render.push(node);
+            return;
+        }
+        const children = getChunkChildren(node);
+        const missing = children.filter(child => !isReady(child));
+        if (missing.length > 0) {
+            wanted.push(...missing);
+            render.push(node);
+            return;
+        }
+        children.forEach(visit);
+    };
+    visit(ROOT_CHUNK);
+
+    return { render, wanted };
+};
+
+/**
+ * Sample a chunk (with apron) out of an elevation grid and build its mesh
+ */
+export const buildChunkBuffers = (grid: TerrainData, gridExtent: ChunkExtent, extent: ChunkExtent, resolution: number, skirtDepth: number, zoom: number, world: WorldExtents): ChunkBuffers => {
+    const apron = sampleChunkApron(grid, gridExtent, extent, resolution);
+    const voids = sampleChunkVoids(grid, gridExtent, extent, resolution);
+    const { geometry, vertexGrid } = buildChunkGeometryBuffers(apron, extent, resolution, skirtDepth, world, voids);
+    return { geometry, apron, vertexGrid, resolution, zoom };
+};
@@ -0,0 +1,350 @@
+import * as THREE from 'three';
+import { TERRAIN_CONFIG } from '../config';
+import { TerrainData } from './terrain';
+import { calculateBoundsDimensions, getWorldExtents } from './projection';
+
+/**
+ * Plain typed arrays describing a BufferGeometry.
+ * This is what the terrain worker hands back (all arrays are transferable).
+ */
+export interface GeometryBuffers {
+    positions: Float32Array;
+    normals: Float32Array;
+    uvs: Float32Array;
+    index?: Uint16Array | Uint32Array;
+    heightData?: Float32Array;
+    skirt?: Float32Array; // Chunk skirt depth per vertex (meters), see terrainChunks.ts
+    filled?: Float32Array; // Share of interpolated DEM voids per vertex (0..1), see nodata.ts
+}
+
+export interface TerrainGeometryOptions {
+    shape: 'rectangle' | 'ellipse';
+    exaggeration: number;
+    bounds: typeof TERRAIN_CONFIG.BOUNDS;
+}
+
+const toBuffers = (geo: THREE.BufferGeometry): GeometryBuffers => {
+    const heightData = geo.getAttribute('heightData');
+    return {
+        positions: geo.attributes.position.array as Float32Array,
+        normals: geo.attributes.normal.array as Float32Array,
+        uvs: geo.attributes.uv.array as Float32Array,
+        index: geo.index ? geo.index.array as Uint16Array | Uint32Array : undefined,
+        heightData: heightData ? heightData.array as Float32Array : undefined,
+    };
+};
+
+/**
+ * Rebuild a BufferGeometry on the main thread from worker output
+ */
+export const buffersToGeometry = (buffers: GeometryBuffers): THREE.BufferGeometry => {
+    const geo = new THREE.BufferGeometry();
+    geo.setAttribute('position', new THREE.BufferAttribute(buffers.positions, 3));
+    geo.setAttribute('normal', new THREE.BufferAttribute(buffers.normals, 3));
+    geo.setAttribute('uv', new THREE.BufferAttribute(buffers.uvs, 2));
+    if (buffers.index) geo.setIndex(new THREE.BufferAttribute(buffers.index, 1));
+    if (buffers.heightData) {
+        geo.setAttribute('heightData', new THREE.BufferAttribute(buffers.heightData, 1));
+        // Vertex colors are filled in by the appearance pass
+        geo.setAttribute('color', new THREE.BufferAttribute(new Float32Array(buffers.positions.length), 3));
+    }
+    if (buffers.skirt) geo.setAttribute('skirt', new THREE.BufferAttribute(buffers.skirt, 1));
+    if (buffers.filled) geo.setAttribute('filled', new THREE.BufferAttribute(buffers.filled, 1));
+    return geo;
+};
+
+export const getGeometryTransferables = (buffers: GeometryBuffers[]): Transferable[] => {
+    const transfer: Transferable[] = [];
+    buffers.forEach(b => {
+        transfer.push(b.positions.buffer, b.normals.buffer, b.uvs.buffer);
+        if (b.index) transfer.push(b.index.buffer);
+        if (b.heightData) transfer.push(b.heightData.buffer);
+        if (b.skirt) transfer.push(b.skirt.buffer);
+        if (b.filled) transfer.push(b.filled.buffer);
+    });
+    return transfer;
+};
+
+/**
+ * Build the soil side walls around the terrain block from the overview DEM.
+ * Pure function of its inputs so it can run inside the terrain worker.
+ * (The top surface is made of quadtree chunks, see terrainChunks.ts)
+ */
+export const buildSoilWallBuffers = (terrainData: TerrainData, { shape, exaggeration, bounds }: TerrainGeometryOptions): GeometryBuffers[] => {
+    const { width, height, data, minHeight } = terrainData;
+
+    // Exaggeration is baked into the wall tops (they are rebuilt when it changes)
+    const currentMultiplier = exaggeration / 100;
+
+    // Calculate Soil Depth
+    const dimensions = calculateBoundsDimensions(bounds);
+    const soilDepthMeters = TERRAIN_CONFIG.SOIL_DEPTH_UNIT === 'percent'
+        ? dimensions.minDimension * (TERRAIN_CONFIG.SOIL_DEPTH_VALUE / 100)
+        : TERRAIN_CONFIG.SOIL_DEPTH_VALUE;
+
+    // Base depth is fixed relative to map width (1:1 scale), unaffected by exaggeration
+    const baseDepth = -soilDepthMeters;
+
+    const sides: THREE.BufferGeometry[] = [];
+    // Terrain plane size in scene units (true aspect ratio)
+    const world = getWorldExtents(bounds);
+
+    if (shape === 'rectangle') {
+        const { halfWidth, halfHeight } = world;
+
+        const generateWall = (edge: 'N' | 'S' | 'W' | 'E') => {
+            const isHorizontal = edge === 'N' || edge === 'S';
+            const segmentCount = isHorizontal ? width - 1 : height - 1;
+
+            const positions = new Float32Array(segmentCount * 6 * 3); // 6 vertices per quad, 3 components per vertex
+            const uvs = new Float32Array(segmentCount * 6 * 2);       // 6 vertices per quad, 2 components per UV
+            const normals = new Float32Array(segmentCount * 6 * 3);  // 6 vertices per quad, 3 components per normal
+
+            const stepX = world.width / (width - 1);
+            const stepY = world.height / (height - 1);
+
+            let idx = 0; // Index for the positions, uvs, normals arrays
+
+            // Determine normal direction for the wall
+            const nx = edge === 'W' ? -1 : (edge === 'E' ? 1 : 0);
+            const ny = edge === 'N' ? 1 : (edge === 'S' ? -1 : 0);
+            const nz = 0; // Normals are in XY plane (local to group, which is world XY after rotation)
+
+            // Helper to get coordinates and height for a point along the edge
+            const getProps = (k: number) => {
+                let x = 0, y = 0, hIndex = 0;
+                if (edge === 'N') { // North edge (top row of data, y = +halfHeight)
+                    x = -halfWidth + k * stepX;
+                    y = halfHeight;
+                    hIndex = k; // Row 0
+                } else if (edge === 'S') { // South edge (bottom row of data, y = -halfHeight)
+                    x = -halfWidth + k * stepX;
+                    y = -halfHeight;
+                    hIndex = (height - 1) * width + k; // Row Max
+                } else if (edge === 'W') { // West edge (left column of data, x = -halfWidth)
+                    x = -halfWidth;
+                    y = halfHeight - k * stepY; // Iterate from top (N) to bottom (S)
+                    hIndex = k * width; // Col 0, Row k
+                } else if (edge === 'E') { // East edge (right column of data, x = +halfWidth)
+                    x = halfWidth;
+                    y = halfHeight - k * stepY; // Iterate from top (N) to bottom (S)
+                    hIndex = k * width + (width - 1); // Col Max, Row k
+                }
+
+                const rawH = data[hIndex] || minHeight;
+                const z = (rawH - minHeight) * currentMultiplier;
+                return { x, y, z };
+            };
+
+            // Helper to push a vertex's data
+            const pushVert = (v: { x: number, y: number, z: number }, u: number, v_coord: number) => {
+                positions[idx * 3] = v.x;
+                positions[idx * 3 + 1] = v.y;
+                positions[idx * 3 + 2] = v.z;
+
+                normals[idx * 3] = nx;
+                normals[idx * 3 + 1] = ny;
+                normals[idx * 3 + 2] = nz;
+
+                uvs[idx * 2] = u;
+                uvs[idx * 2 + 1] = v_coord; // V=0 at top, V=1 at bottom for texture
+
+                idx++;
+            };
+
+            for (let i = 0; i < segmentCount; i++) {
+                const p1 = getProps(i);     // Current point on the top edge
+                const p2 = getProps(i + 1);   // Next point on the top edge
+
+                // Define the four corners of the quad for this segment
+                const TL = { x: p1.x, y: p1.y, z: p1.z };         // Top-Left (current segment's top)
+                const BL = { x: p1.x, y: p1.y, z: baseDepth };    // Bottom-Left (current segment's base)
+                const TR = { x: p2.x, y: p2.y, z: p2.z };         // Top-Right (next segment's top)
+                const BR = { x: p2.x, y: p2.y, z: baseDepth };    // Bottom-Right (next segment's base)
+
+                // UV mapping for horizontal (U) and vertical (V) texture coordinates
+                const u1 = i / segmentCount;
+                const u2 = (i + 1) / segmentCount;
+
+                // Vertices for the two triangles forming the quad
+                // Winding order is crucial for correct face culling and normal direction.
+                // We want the normal to point outwards from the terrain block.
+                // The group is rotated [-Math.PI / 2, 0, 0], so local Y is world Z, local Z is world -Y.
+                // The normals (nx, ny, nz) are defined in the group's local XY plane.
+                // After group rotation, (nx, ny, 0) becomes (nx, 0, ny) in world space.
+                // So, for North wall (ny=1), normal is (0,0,1) in world Z.
+                // For South wall (ny=-1), normal is (0,0,-1) in world Z.
+                // For West wall (nx=-1), normal is (-1,0,0) in world X.
+                // For East wall (nx=1), normal is (1,0,0) in world X.
+
+                if (edge === 'N') { // Normal (0,1,0) in local space. Points "up" in world Z.
+                    // Tri 1: BL, TR, TL (CCW when looking from +Y local, which is +Z world)
+                    pushVert(BL, u1, 1); pushVert(TR, u2, 0); pushVert(TL, u1, 0);
+                    // Tri 2: BL, BR, TR
+                    pushVert(BL, u1, 1); pushVert(BR, u2, 1); pushVert(TR, u2, 0);
+                } else if (edge === 'S') { // Normal (0,-1,0) in local space. Points "down" in world Z.
+                    // Tri 1: TL, TR, BL (CCW when looking from -Y local, which is -Z world)
+                    pushVert(TL, u1, 0); pushVert(TR, u2, 0); pushVert(BL, u1, 1);
+                    // Tri 2: TR, BR, BL
+                    pushVert(TR, u2, 0); pushVert(BR, u2, 1); pushVert(BL, u1, 1);
+                } else if (edge === 'W') { // Normal (-1,0,0) in local space. Points "left" in world X.
+                    // Tri 1: TL, TR, BL (CCW when looking from -X local, which is -X world)
+                    pushVert(TL, u1, 0); pushVert(TR, u2, 0); pushVert(BL, u1, 1);
+                    // Tri 2: TR, BR, BL
+                    pushVert(TR, u2, 0); pushVert(BR, u2, 1); pushVert(BL, u1, 1);
+                } else { // E (Normal (1,0,0) in local space. Points "right" in world X.)
+                    // Tri 1: BL, TR, TL (CCW when looking from +X local, which is +X world)
+                    pushVert(BL, u1, 1); pushVert(TR, u2, 0); pushVert(TL, u1, 0);
+                    // Tri 2: BL, BR, TR
+                    pushVert(BL, u1, 1); pushVert(BR, u2, 1); pushVert(TR, u2, 0);
+                }
+            }
+
+            const geo = new THREE.BufferGeometry();
+            geo.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+            geo.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+            geo.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+            return geo;
+        };
+
+        sides.push(generateWall('N'));
+        sides.push(generateWall('S'));
+        sides.push(generateWall('W'));
+        sides.push(generateWall('E'));
+    } else if (shape === 'ellipse') {
+        // Slightly inside the block to match the mask (254/512 approx)
+        const Rx = world.halfWidth * 0.992;
+        const Ry = world.halfHeight * 0.992;
+        const segments = 128; // Smoothness
+
+        // Helper for bilinear interpolation
+        const getHeight = (x: number, y: number) => {
+            // x in -halfWidth..halfWidth, y in -halfHeight..halfHeight
+            // Map to grid coordinates
+            // Grid X: -halfWidth -> 0, +halfWidth -> width-1
+            const gx = ((x + world.halfWidth) / world.width) * (width - 1);
+            // Grid Y: +halfHeight -> 0, -halfHeight -> height-1 (Row 0 is Top)
+            const gy = ((world.halfHeight - y) / world.height) * (height - 1);
+
+            const ix = Math.floor(gx);
+            const iy = Math.floor(gy);
+            const fx = gx - ix;
+            const fy = gy - iy;
+
+            // Clamp indices
+            const c = (v: number, max: number) => Math.max(0, Math.min(max, v));
+            const idx = (cX: number, cY: number) => c(cY, height - 1) * width + c(cX, width - 1);
+
+            const h00 = data[idx(ix, iy)] || minHeight;
+            const h10 = data[idx(ix + 1, iy)] || minHeight;
+            const h01 = data[idx(ix, iy + 1)] || minHeight;
+            const h11 = data[idx(ix + 1, iy + 1)] || minHeight;
+
+            // Bilinear
+            const hTop = h00 * (1 - fx) + h10 * fx;
+            const hBot = h01 * (1 - fx) + h11 * fx;
+            const h = hTop * (1 - fy) + hBot * fy;
+
+            return (h - minHeight) * currentMultiplier;
+        };
+
+        const positions: number[] = [];
+        const normals: number[] = [];
+        const uvs: number[] = [];
+
+        for (let i = 0; i < segments; i++) {
+            // Current Angle
+            const theta1 = (i / segments) * 2 * Math.PI;
+            const x1 = Rx * Math.cos(theta1);
+            const y1 = Ry * Math.sin(theta1);
+            const z1 = getHeight(x1, y1);
+
+            // Next Angle
+            const theta2 = ((i + 1) / segments) * 2 * Math.PI;
+            const x2 = Rx * Math.cos(theta2);
+            const y2 = Ry * Math.sin(theta2);
+            const z2 = getHeight(x2, y2);
+
+            // Vertices
+            // TL: p1 top
+            // BL: p1 base
+            // TR: p2 top
+            // BR: p2 base
+            // Normal? Outward radial.
+            // N1 = (cos t1, sin t1, 0)
+            // N2 = (cos t2, sin t2, 0)
+
+            const addVert = (x: number, y: number, z: number, th: number, u: number, v: number) => {
+                positions.push(x, y, z);
+                // Normal points out of the ellipse in XY plane (gradient of (x/Rx)^2 + (y/Ry)^2)
+                const nx = Math.cos(th) / Rx;
+                const ny = Math.sin(th) / Ry;
+                const len = Math.sqrt(nx * nx + ny * ny);
+                normals.push(nx / len, ny / len, 0);
+                uvs.push(u, v);
+            };
+
+            const u1 = i / segments;
+            const u2 = (i + 1) / segments;
+
+            // Tri 1: BL, TR, TL (Outward CCW??)
+            // Let's check winding. Center (0,0).
+            // Theta goes 0 -> 2PI (CCW in XY).
+            // 1 is Angle 0. 2 is Angle Small+.
+            // 1 is Right. 2 is Slightly Up-Right.
+            // Looking from Outside (Right):
+            // TL(1), TR(2).
+            // Triangle BL, TR, TL.
+            // BL(1, base) -> TR(2, top) -> TL(1, top).
+            // Vector BL->TR (up-ish, left-ish). BL->TL (up-ish).
+            // Cross product...
+            // Let's stick to standard counter-clockwise definition.
+            // 1 is "Left" in the sequence if we walk CCW?
+            // No, if we walk CCW, 1 is 'previous', 2 is 'next'.
+            // So 1 is Left, 2 is Right (if looking from center).
+            // But we look from OUTSIDE.
+            // Looking from outside, 1 (Angle 0) is Right?? No.
+            // Angle 0 is East. Angle small is North-East.
+            // If I stand East and look West (at terrain):
+            // 0 is Center-ish. Small is Right-ish.
+            // Wait. Standard CCW 2D plane.
+            // Let's just create Quad p1(Left), p2(Right).
+            // p1 is Angle i. p2 is Angle i+1.
+            // From outside?
+            // Tangent is (-sin, cos).
+            // Normal (cos, sin).
+            // If we move along tangent, we move CCW.
+            // So p1 is "behind", p2 is "ahead".
+            // If we face the wall (looking inward -Normal), Left is p2, Right is p1.
+            // If we face OUTWARD (looking along Normal):
+            // Left is p1. Right is p2.
+            // So p1=Left, p2=Right.
+            // TL=Top1, TR=Top2.
+            // Quad: TL, BL, TR, BR.
+            // Tri 1: BL, TR, TL.
+            // Tri 2: BL, BR, TR.
+
+            // BL
+            addVert(x1, y1, baseDepth, theta1, u1, 1);
+            // TR
+            addVert(x2, y2, z2, theta2, u2, 0);
+            // TL
+            addVert(x1, y1, z1, theta1, u1, 0);
+
+            // BL
+            addVert(x1, y1, baseDepth, theta1, u1, 1);
+            // BR
+            addVert(x2, y2, baseDepth, theta2, u2, 1);
+            // TR
+            addVert(x2, y2, z2, theta2, u2, 0);
+        }
+
+        const geo = new THREE.BufferGeometry();
+        geo.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+        geo.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+        geo.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+        sides.push(geo);
+    }
+
+    return sides.map(toBuffers);
+};
@@ -0,0 +1,209 @@
+import { TERRAIN_CONFIG } from '../config';
+import { DemTile, getDemDecoder } from './demDecoders';
+
+/**
+ * Persistent tile cache (IndexedDB) shared by the DEM loader and the base/detail map layers.
+ * DEM tiles are stored decoded (Float32 heights), imagery tiles as their original image Blob.
+ * Entries carry a lastAccess timestamp; the oldest entries are evicted once the cache grows
+ * beyond the configured size.
+ */
+
+const DB_NAME = 'terrain-tile-cache';
+const DB_VERSION = 1;
+const STORE = 'tiles';
+const MAX_SIZE_STORAGE_KEY = 'terrain-tile-cache-max-mb';
+
+interface CacheEntry {
+    key: string;
+    payload: DemTile | Blob;
+    size: number;
+    lastAccess: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve) => {
+            if (!TERRAIN_CONFIG.TILE_CACHE.ENABLED || typeof indexedDB === 'undefined') {
+                resolve(null);
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+                store.createIndex('lastAccess', 'lastAccess');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn('Tile cache unavailable, continuing without it', request.error);
+                resolve(null);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+export const getMaxCacheSizeMB = (): number => {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(MAX_SIZE_STORAGE_KEY) : null;
+    const value = stored ? parseFloat(stored) : NaN;
+    return Number.isFinite(value) && value > 0 ? value : TERRAIN_CONFIG.TILE_CACHE.MAX_SIZE_MB;
+};
+
+export const setMaxCacheSizeMB = (mb: number) => {
+    localStorage.setItem(MAX_SIZE_STORAGE_KEY, String(mb));
+    return enforceCacheLimit();
+};
+
+const getEntry = async (key: string): Promise<CacheEntry | null> => {
+    const db = await openDb();
+    if (!db) return null;
+    try {
+        const tx = db.transaction(STORE, 'readwrite');
+        const store = tx.objectStore(STORE);
+        const entry = await requestToPromise(store.get(key)) as CacheEntry | undefined;
+        if (!entry) return null;
+        // Touch for LRU
+        entry.lastAccess = Date.now();
+        store.put(entry);
+        return entry;
+    } catch (error) {
+        console.warn(`Tile cache read failed for ${key}`, error);
+        return null;
+    }
+};
+
+let evictionTimer: ReturnType<typeof setTimeout> | null = null;
+
+const putEntry = async (key: string, payload: DemTile | Blob, size: number) => {
+    const db = await openDb();
+    if (!db) return;
+    try {
+        const tx = db.transaction(STORE, 'readwrite');
+        tx.objectStore(STORE).put({ key, payload, size, lastAccess: Date.now() } as CacheEntry);
+
+        // Batch evictions: loading a view writes dozens of tiles at once
+        if (evictionTimer) clearTimeout(evictionTimer);
+        evictionTimer = setTimeout(() => { enforceCacheLimit(); }, 2000);
+    } catch (error) {
+        console.warn(`Tile cache write failed for ${key}`, error);
+    }
+};
+
+/**
+ * Delete least recently used tiles until the cache fits in the configured size
+ */
+export const enforceCacheLimit = async () => {
+    const db = await openDb();
+    if (!db) return;
+
+    const maxBytes = getMaxCacheSizeMB() * 1024 * 1024;
+    const { bytes } = await getCacheStats();
+    if (bytes <= maxBytes) return;
+
+    let excess = bytes - maxBytes;
+    let evicted = 0;
+    await new Promise<void>((resolve) => {
+        const tx = db.transaction(STORE, 'readwrite');
+        const cursorRequest = tx.objectStore(STORE).index('lastAccess').openCursor();
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor || excess <= 0) return;
+            excess -= (cursor.value as CacheEntry).size;
+            cursor.delete();
+            evicted++;
+            cursor.continue();
+        };
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => resolve();
+    });
+    console.log(`🗑️ Tile cache: evicted ${evicted} tiles`);
+};
+
+export const getCacheStats = async (): Promise<{ count: number; bytes: number }> => {
+    const db = await openDb();
+    if (!db) return { count: 0, bytes: 0 };
+
+    return new Promise((resolve) => {
+        let count = 0;
+        let bytes = 0;
+        const tx = db.transaction(STORE, 'readonly');
+        const cursorRequest = tx.objectStore(STORE).openCursor();
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            count++;
+            bytes += (cursor.value as CacheEntry).size;
+            cursor.continue();
+        };
+        tx.oncomplete = () => resolve({ count, bytes });
+        tx.onerror = () => resolve({ count, bytes });
+    });
+};
+
+export const clearTileCache = async () => {
+    const db = await openDb();
+    if (!db) return;
+    await requestToPromise(db.transaction(STORE, 'readwrite').objectStore(STORE).clear());
+};
+
+/**
+ * Load a DEM tile through the cache, decoding with the active DEM_ENCODING on a miss
+ */
+export const loadCachedDemTile = async (url: string, encoding: string = TERRAIN_CONFIG.DEM_ENCODING): Promise<DemTile | null> => {
+    const key = `dem:${encoding}:${url}`;
+    const cached = await getEntry(key);
+    if (cached) return cached.payload as DemTile;
+
+    const tile = await getDemDecoder(encoding).loadTile(url);
+    if (tile) {
+        await putEntry(key, tile, tile.heights.byteLength);
+    }
+    return tile;
+};
+
+/**
+ * Load an imagery tile through the cache. Returns a drawable bitmap or null if unavailable.
+ */
+export const loadCachedImageTile = async (url: string): Promise<ImageBitmap | null> => {
+    const key = `img:${url}`;
+    const cached = await getEntry(key);
+    let blob = cached ? cached.payload as Blob : null;
+
+    if (!blob) {
+        try {
+            const response = await fetch(url, { mode: 'cors' });
+            if (!response.ok) return null;
+            blob = await response.blob();
+            await putEntry(key, blob, blob.size);
+        } catch {
+            return null; // Offline and not cached
+        }
+    }
+
+    try {
+        return await createImageBitmap(blob);
+    } catch (error) {
+        console.warn(`Failed to decode image tile ${url}`, error);
+        return null;
+    }
+};
+
+/**
+ * True if the tile is already stored (used by prefetch to skip downloads)
+ */
+export const hasCachedTile = async (key: string) => {
+    const db = await openDb();
+    if (!db) return false;
+    try {
+        const count = await requestToPromise(db.transaction(STORE, 'readonly').objectStore(STORE).count(key));
+        return count > 0;
+    } catch {
+        return false;
+    }
+};
@@ -0,0 +1,114 @@
+import { TerrainJob, runTerrainJob } from '../workers/terrainJobs';
+import { CancellationToken, CancelledError } from './cancellation';
+
+interface PendingJob {
+    job: TerrainJob;
+    isCancelled: () => boolean;
+    resolve: (value: unknown) => void;
+    reject: (reason: unknown) => void;
+    slot: WorkerSlot;
+}
+
+interface WorkerSlot {
+    worker: Worker;
+    active: number;
+}
+
+/**
+ * Small pool of terrain workers (DEM decoding, geometry building).
+ * Falls back to running jobs on the main thread when module workers are unavailable.
+ */
+class TerrainWorkerPool {
+    private slots: WorkerSlot[] = [];
+    private pending = new Map<number, PendingJob>();
+    private nextId = 1;
+    private failed = false; // Every worker died: stay on the main thread
+
+    constructor(private size: number) { }
+
+    private ensureWorkers() {
+        if (this.slots.length > 0) return true;
+        if (this.failed || typeof Worker === 'undefined') return false;
+
+        try {
+            for (let i = 0; i < this.size; i++) {
+                const worker = new Worker(new URL('../workers/terrainWorker.ts', import.meta.url), { type: 'module' });
+                const slot: WorkerSlot = { worker, active: 0 };
+                worker.onmessage = (e: MessageEvent) => this.handleMessage(e.data);
+                worker.onerror = (e) => this.handleWorkerError(slot, e.message);
+                this.slots.push(slot);
+            }
+            console.log(`🧵 Terrain worker pool: ${this.size} workers`);
+            return true;
+        } catch (error) {
+            console.warn('Terrain workers unavailable, using main thread', error);
+            this.slots = [];
+            return false;
+        }
+    }
+
+    /**
+     * A worker that fails to load or throws at the top level never answers: drop it and
+     * finish its pending jobs on the main thread
+     */
+    private handleWorkerError(slot: WorkerSlot, message: string) {
+        console.error('Terrain worker error:', message);
+        slot.worker.terminate();
+        this.slots = this.slots.filter(s => s !== slot);
+        if (this.slots.length === 0) this.failed = true;
+
+        this.pending.forEach((pending, id) => {
+            if (pending.slot !== slot) return;
+            this.pending.delete(id);
+            runTerrainJob(pending.job, pending.isCancelled).then(({ result }) => {
+                if (pending.isCancelled()) pending.reject(new CancelledError());
+                else pending.resolve(result);
+            }, pending.reject);
+        });
+    }
+
+    private handleMessage(message: { id: number; result?: unknown; error?: string; cancelled?: boolean }) {
+        const job = this.pending.get(message.id);
+        if (!job) return; // Cancelled on our side already
+        this.pending.delete(message.id);
+        job.slot.active--;
+
+        if (message.cancelled) job.reject(new CancelledError());
+        else if (message.error) job.reject(new Error(message.error));
+        else job.resolve(message.result);
+    }
+
+    run<T>(job: TerrainJob, token?: CancellationToken): Promise<T> {
+        if (token?.cancelled) return Promise.reject(new CancelledError());
+
+        if (!this.ensureWorkers()) {
+            return runTerrainJob(job, () => !!token?.cancelled).then(({ result }) => {
+                token?.throwIfCancelled();
+                return result as T;
+            });
+        }
+
+        // Least busy worker
+        const slot = this.slots.reduce((best, s) => (s.active < best.active ? s : best), this.slots[0]);
+        const id = this.nextId++;
+
+        return new Promise<T>((resolve, reject) => {
+            // The worker posts back the result of this job type, which the caller names as T
+            this.pending.set(id, { job, isCancelled: () => !!token?.cancelled, resolve: value => resolve(value as T), reject, slot });
+            slot.active++;
+            slot.worker.postMessage({ id, job });
+
+            token?.onCancel(() => {
+                if (!this.pending.has(id)) return;
+                this.pending.delete(id);
+                slot.active--;
+                slot.worker.postMessage({ type: 'cancel', id });
+                reject(new CancelledError());
+            });
+        });
+    }
+}
+
+const poolSize = Math.max(1, Math.min(4, (typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : 2) - 1));
+
+export const terrainWorkerPool = new TerrainWorkerPool(poolSize);
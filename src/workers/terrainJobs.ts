@@ -0,0 +1,59 @@
+import { TERRAIN_CONFIG } from '../config';
+import { fetchTerrainTile, TerrainData } from '../utils/terrain';
+import { getWorldExtents } from '../utils/projection';
+import { buildSoilWallBuffers, getGeometryTransferables, TerrainGeometryOptions } from '../utils/terrainGeometry';
+import { buildChunkBuffers, ChunkExtent, getApronExtent, getExtentBounds } from '../utils/terrainChunks';
+import { computeFlowRouting } from '../utils/hydrology';
+import { computeHillshade, computeSlopeAspect, computeTerrainStatistics, computeViewshed, HillshadeOptions, StatisticsRegion, ViewshedOptions } from '../utils/terrainAnalysis';
+
+/**
+ * Work items understood by the terrain worker (and by the main-thread fallback)
+ */
+export type TerrainJob =
+    | { type: 'loadDem'; zoom: number; bounds: typeof TERRAIN_CONFIG.BOUNDS }
+    | { type: 'buildWalls'; terrainData: TerrainData; options: TerrainGeometryOptions }
+    | { type: 'loadChunk'; bounds: typeof TERRAIN_CONFIG.BOUNDS; extent: ChunkExtent; zoom: number; resolution: number; skirtDepth: number }
+    | { type: 'slopeAspect'; terrainData: TerrainData; bounds: typeof TERRAIN_CONFIG.BOUNDS }
+    | { type: 'hillshade'; terrainData: TerrainData; bounds: typeof TERRAIN_CONFIG.BOUNDS; options: HillshadeOptions }
+    | { type: 'viewshed'; terrainData: TerrainData; bounds: typeof TERRAIN_CONFIG.BOUNDS; options: ViewshedOptions }
+    | { type: 'flowRouting'; terrainData: TerrainData; bounds: typeof TERRAIN_CONFIG.BOUNDS }
+    | { type: 'statistics'; terrainData: TerrainData; bounds: typeof TERRAIN_CONFIG.BOUNDS; region: StatisticsRegion };
+
+export const runTerrainJob = async (job: TerrainJob, isCancelled: () => boolean): Promise<{ result: unknown; transfer: Transferable[] }> => {
+    switch (job.type) {
+        case 'loadDem': {
+            const data = await fetchTerrainTile(job.zoom, job.bounds, isCancelled);
+            return { result: data, transfer: [data.data.buffer, data.valid.buffer] };
+        }
+        case 'buildWalls': {
+            const walls = buildSoilWallBuffers(job.terrainData, job.options);
+            return { result: walls, transfer: getGeometryTransferables(walls) };
+        }
+        case 'loadChunk': {
+            // Fetch the apron area so edge normals can see across the chunk border
+            const apronExtent = getApronExtent(job.extent, job.resolution);
+            const grid = await fetchTerrainTile(job.zoom, getExtentBounds(job.bounds, apronExtent), isCancelled);
+            const chunk = buildChunkBuffers(grid, apronExtent, job.extent, job.resolution, job.skirtDepth, job.zoom, getWorldExtents(job.bounds));
+            return { result: chunk, transfer: [...getGeometryTransferables([chunk.geometry]), chunk.apron.buffer, chunk.vertexGrid.buffer] };
+        }
+        case 'slopeAspect': {
+            const result = computeSlopeAspect(job.terrainData, job.bounds);
+            return { result, transfer: [result.slope.buffer, result.aspect.buffer] };
+        }
+        case 'hillshade': {
+            const shade = computeHillshade(job.terrainData, job.bounds, job.options);
+            return { result: shade, transfer: [shade.buffer] };
+        }
+        case 'viewshed': {
+            const viewshed = computeViewshed(job.terrainData, job.bounds, job.options);
+            return { result: viewshed, transfer: [viewshed.visible.buffer] };
+        }
+        case 'flowRouting': {
+            const routing = computeFlowRouting(job.terrainData, job.bounds);
+            return { result: routing, transfer: [routing.direction.buffer, routing.accumulation.buffer] };
+        }
+        case 'statistics': {
+            return { result: computeTerrainStatistics(job.terrainData, job.bounds, job.region), transfer: [] };
+        }
+    }
+};
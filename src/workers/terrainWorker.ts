@@ -0,0 +1,33 @@
+import { CancelledError } from '../utils/cancellation';
+import { runTerrainJob } from './terrainJobs';
+
+// Jobs in progress, and those among them the main thread no longer wants
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
+self.addEventListener('message', async (e: MessageEvent) => {
+    const message = e.data;
+
+    if (message.type === 'cancel') {
+        // A cancel can cross the result in flight: only jobs still running need it
+        if (running.has(message.id)) cancelled.add(message.id);
+        return;
+    }
+
+    const { id, job } = message;
+    running.add(id);
+    try {
+        const { result, transfer } = await runTerrainJob(job, () => cancelled.has(id));
+        if (cancelled.has(id)) return;
+        (self as unknown as Worker).postMessage({ id, result }, transfer);
+    } catch (error) {
+        (self as unknown as Worker).postMessage({
+            id,
+            error: (error as Error).message,
+            cancelled: error instanceof CancelledError,
+        });
+    } finally {
+        running.delete(id);
+        cancelled.delete(id);
+    }
+});